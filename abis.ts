@@ -2,9 +2,11 @@
  * Contract ABIs for blockchain interactions
  */
 
+import { BUILTIN_NETWORKS } from "./networks.js";
+
 /**
  * Standard ERC-20 Token ABI
- * Includes: transfer, approve, allowance, balanceOf, decimals, symbol, name
+ * Includes: transfer, approve, transferFrom, increaseAllowance, allowance, balanceOf, decimals, symbol, name
  */
 export const ERC20_ABI = [
   // Read functions
@@ -85,6 +87,17 @@ export const ERC20_ABI = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  // OpenZeppelin extension; not part of the standard
+  {
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "addedValue", type: "uint256" },
+    ],
+    name: "increaseAllowance",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   // Events
   {
     anonymous: false,
@@ -192,6 +205,51 @@ export const ENS_RESOLVER_ABI = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [{ name: "node", type: "bytes32" }],
+    name: "name",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+/**
+ * ENS Name Wrapper ABI
+ * Names registered through the current controller are wrapped, so their
+ * registry owner is the Name Wrapper and management goes through it
+ */
+export const ENS_NAME_WRAPPER_ABI = [
+  {
+    inputs: [{ name: "id", type: "uint256" }],
+    name: "ownerOf",
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "node", type: "bytes32" },
+      { name: "resolver", type: "address" },
+    ],
+    name: "setResolver",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "id", type: "uint256" },
+      { name: "amount", type: "uint256" },
+      { name: "data", type: "bytes" },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 /**
@@ -212,6 +270,36 @@ export const ENS_ETH_REGISTRAR_CONTROLLER_ABI = [
       { name: "duration", type: "uint256" },
     ],
     name: "rentPrice",
+    outputs: [
+      {
+        components: [
+          { name: "base", type: "uint256" },
+          { name: "premium", type: "uint256" },
+        ],
+        name: "price",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "", type: "bytes32" }],
+    name: "commitments",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minCommitmentAge",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxCommitmentAge",
     outputs: [{ name: "", type: "uint256" }],
     stateMutability: "view",
     type: "function",
@@ -260,22 +348,596 @@ export const ENS_ETH_REGISTRAR_CONTROLLER_ABI = [
 ] as const;
 
 /**
- * Contract addresses for different networks
+ * LayerZero V2 OFT / OFT Adapter ABI
+ * For bridging tokens (including Stargate V2 pools, which implement IOFT)
+ */
+const LAYERZERO_SEND_PARAM = {
+  components: [
+    { name: "dstEid", type: "uint32" },
+    { name: "to", type: "bytes32" },
+    { name: "amountLD", type: "uint256" },
+    { name: "minAmountLD", type: "uint256" },
+    { name: "extraOptions", type: "bytes" },
+    { name: "composeMsg", type: "bytes" },
+    { name: "oftCmd", type: "bytes" },
+  ],
+  name: "sendParam",
+  type: "tuple",
+} as const;
+
+const LAYERZERO_MESSAGING_FEE = {
+  components: [
+    { name: "nativeFee", type: "uint256" },
+    { name: "lzTokenFee", type: "uint256" },
+  ],
+  name: "fee",
+  type: "tuple",
+} as const;
+
+export const LAYERZERO_OFT_ABI = [
+  {
+    inputs: [
+      LAYERZERO_SEND_PARAM,
+      { name: "payInLzToken", type: "bool" },
+    ],
+    name: "quoteSend",
+    outputs: [LAYERZERO_MESSAGING_FEE],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [LAYERZERO_SEND_PARAM],
+    name: "quoteOFT",
+    outputs: [
+      {
+        components: [
+          { name: "minAmountLD", type: "uint256" },
+          { name: "maxAmountLD", type: "uint256" },
+        ],
+        name: "limit",
+        type: "tuple",
+      },
+      {
+        components: [
+          { name: "feeAmountLD", type: "int256" },
+          { name: "description", type: "string" },
+        ],
+        name: "feeDetails",
+        type: "tuple[]",
+      },
+      {
+        components: [
+          { name: "amountSentLD", type: "uint256" },
+          { name: "amountReceivedLD", type: "uint256" },
+        ],
+        name: "receipt",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      LAYERZERO_SEND_PARAM,
+      LAYERZERO_MESSAGING_FEE,
+      { name: "refundAddress", type: "address" },
+    ],
+    name: "send",
+    outputs: [
+      {
+        components: [
+          { name: "guid", type: "bytes32" },
+          { name: "nonce", type: "uint64" },
+          LAYERZERO_MESSAGING_FEE,
+        ],
+        name: "msgReceipt",
+        type: "tuple",
+      },
+      {
+        components: [
+          { name: "amountSentLD", type: "uint256" },
+          { name: "amountReceivedLD", type: "uint256" },
+        ],
+        name: "oftReceipt",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "approvalRequired",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "guid", type: "bytes32" },
+      { indexed: false, name: "dstEid", type: "uint32" },
+      { indexed: true, name: "fromAddress", type: "address" },
+      { indexed: false, name: "amountSentLD", type: "uint256" },
+      { indexed: false, name: "amountReceivedLD", type: "uint256" },
+    ],
+    name: "OFTSent",
+    type: "event",
+  },
+] as const;
+
+/**
+ * Chainlink CCIP Router ABI
+ * For cross-chain token transfers (Client.EVM2AnyMessage)
+ */
+const CCIP_EVM2ANY_MESSAGE = {
+  components: [
+    { name: "receiver", type: "bytes" },
+    { name: "data", type: "bytes" },
+    {
+      components: [
+        { name: "token", type: "address" },
+        { name: "amount", type: "uint256" },
+      ],
+      name: "tokenAmounts",
+      type: "tuple[]",
+    },
+    { name: "feeToken", type: "address" },
+    { name: "extraArgs", type: "bytes" },
+  ],
+  name: "message",
+  type: "tuple",
+} as const;
+
+export const CCIP_ROUTER_ABI = [
+  {
+    inputs: [
+      { name: "destinationChainSelector", type: "uint64" },
+      CCIP_EVM2ANY_MESSAGE,
+    ],
+    name: "getFee",
+    outputs: [{ name: "fee", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "destinationChainSelector", type: "uint64" },
+      CCIP_EVM2ANY_MESSAGE,
+    ],
+    name: "ccipSend",
+    outputs: [{ name: "messageId", type: "bytes32" }],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "chainSelector", type: "uint64" }],
+    name: "isChainSupported",
+    outputs: [{ name: "supported", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+/**
+ * CCIP OnRamp events carrying the message ID
+ * (v1.5 `CCIPSendRequested` and v1.6 `CCIPMessageSent`)
+ */
+export const CCIP_ONRAMP_EVENTS_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          { name: "sourceChainSelector", type: "uint64" },
+          { name: "sender", type: "address" },
+          { name: "receiver", type: "address" },
+          { name: "sequenceNumber", type: "uint64" },
+          { name: "gasLimit", type: "uint256" },
+          { name: "strict", type: "bool" },
+          { name: "nonce", type: "uint64" },
+          { name: "feeToken", type: "address" },
+          { name: "feeTokenAmount", type: "uint256" },
+          { name: "data", type: "bytes" },
+          {
+            components: [
+              { name: "token", type: "address" },
+              { name: "amount", type: "uint256" },
+            ],
+            name: "tokenAmounts",
+            type: "tuple[]",
+          },
+          { name: "sourceTokenData", type: "bytes[]" },
+          { name: "messageId", type: "bytes32" },
+        ],
+        indexed: false,
+        name: "message",
+        type: "tuple",
+      },
+    ],
+    name: "CCIPSendRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "destChainSelector", type: "uint64" },
+      { indexed: true, name: "sequenceNumber", type: "uint64" },
+      {
+        components: [
+          {
+            components: [
+              { name: "messageId", type: "bytes32" },
+              { name: "sourceChainSelector", type: "uint64" },
+              { name: "destChainSelector", type: "uint64" },
+              { name: "sequenceNumber", type: "uint64" },
+              { name: "nonce", type: "uint64" },
+            ],
+            name: "header",
+            type: "tuple",
+          },
+          { name: "sender", type: "address" },
+          { name: "data", type: "bytes" },
+          { name: "receiver", type: "bytes" },
+          { name: "extraArgs", type: "bytes" },
+          { name: "feeToken", type: "address" },
+          { name: "feeTokenAmount", type: "uint256" },
+          { name: "feeValueJuels", type: "uint256" },
+          {
+            components: [
+              { name: "sourcePoolAddress", type: "address" },
+              { name: "destTokenAddress", type: "bytes" },
+              { name: "extraData", type: "bytes" },
+              { name: "amount", type: "uint256" },
+              { name: "destExecData", type: "bytes" },
+            ],
+            name: "tokenAmounts",
+            type: "tuple[]",
+          },
+        ],
+        indexed: false,
+        name: "message",
+        type: "tuple",
+      },
+    ],
+    name: "CCIPMessageSent",
+    type: "event",
+  },
+] as const;
+
+/**
+ * EIP-3009 Transfer With Authorization (USDC / FiatTokenV2 and compatible tokens)
+ * Includes: transferWithAuthorization, authorizationState, name, version, AuthorizationUsed
+ */
+export const EIP3009_ABI = [
+  {
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "validAfter", type: "uint256" },
+      { name: "validBefore", type: "uint256" },
+      { name: "nonce", type: "bytes32" },
+      { name: "signature", type: "bytes" },
+    ],
+    name: "transferWithAuthorization",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "authorizer", type: "address" },
+      { name: "nonce", type: "bytes32" },
+    ],
+    name: "authorizationState",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "version",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "authorizer", type: "address" },
+      { indexed: true, name: "nonce", type: "bytes32" },
+    ],
+    name: "AuthorizationUsed",
+    type: "event",
+  },
+] as const;
+
+/**
+ * EIP-2612 permit (and EIP-5267 domain discovery)
+ * Includes: permit, nonces, DOMAIN_SEPARATOR, eip712Domain, name, version
+ */
+export const EIP2612_ABI = [
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    name: "permit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "owner", type: "address" }],
+    name: "nonces",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DOMAIN_SEPARATOR",
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      { name: "fields", type: "bytes1" },
+      { name: "name", type: "string" },
+      { name: "version", type: "string" },
+      { name: "chainId", type: "uint256" },
+      { name: "verifyingContract", type: "address" },
+      { name: "salt", type: "bytes32" },
+      { name: "extensions", type: "uint256[]" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "version",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+/**
+ * Uniswap Permit2 (AllowanceTransfer + SignatureTransfer)
+ * Includes: allowance, nonceBitmap, permit (single), transferFrom, permitTransferFrom, invalidateUnorderedNonces
+ */
+export const PERMIT2_ABI = [
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "token", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [
+      { name: "amount", type: "uint160" },
+      { name: "expiration", type: "uint48" },
+      { name: "nonce", type: "uint48" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "wordPos", type: "uint256" },
+    ],
+    name: "nonceBitmap",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      {
+        components: [
+          {
+            components: [
+              { name: "token", type: "address" },
+              { name: "amount", type: "uint160" },
+              { name: "expiration", type: "uint48" },
+              { name: "nonce", type: "uint48" },
+            ],
+            name: "details",
+            type: "tuple",
+          },
+          { name: "spender", type: "address" },
+          { name: "sigDeadline", type: "uint256" },
+        ],
+        name: "permitSingle",
+        type: "tuple",
+      },
+      { name: "signature", type: "bytes" },
+    ],
+    name: "permit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "amount", type: "uint160" },
+      { name: "token", type: "address" },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            components: [
+              { name: "token", type: "address" },
+              { name: "amount", type: "uint256" },
+            ],
+            name: "permitted",
+            type: "tuple",
+          },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+        name: "permit",
+        type: "tuple",
+      },
+      {
+        components: [
+          { name: "to", type: "address" },
+          { name: "requestedAmount", type: "uint256" },
+        ],
+        name: "transferDetails",
+        type: "tuple",
+      },
+      { name: "owner", type: "address" },
+      { name: "signature", type: "bytes" },
+    ],
+    name: "permitTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "wordPos", type: "uint256" },
+      { name: "mask", type: "uint256" },
+    ],
+    name: "invalidateUnorderedNonces",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+/**
+ * Custom errors decoded in revert reasons
+ * Includes: OpenZeppelin ERC-20 (v5), LayerZero OFT/OApp, Chainlink CCIP router, Permit2 / EIP-2612, ENS registrar controller
+ */
+export const COMMON_ERRORS_ABI = [
+  // ERC-20 (OpenZeppelin v5)
+  {
+    inputs: [
+      { name: "sender", type: "address" },
+      { name: "balance", type: "uint256" },
+      { name: "needed", type: "uint256" },
+    ],
+    name: "ERC20InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "allowance", type: "uint256" },
+      { name: "needed", type: "uint256" },
+    ],
+    name: "ERC20InsufficientAllowance",
+    type: "error",
+  },
+  { inputs: [{ name: "receiver", type: "address" }], name: "ERC20InvalidReceiver", type: "error" },
+  { inputs: [{ name: "sender", type: "address" }], name: "ERC20InvalidSender", type: "error" },
+  { inputs: [{ name: "spender", type: "address" }], name: "ERC20InvalidSpender", type: "error" },
+  // LayerZero OFT / OApp
+  {
+    inputs: [
+      { name: "amountLD", type: "uint256" },
+      { name: "minAmountLD", type: "uint256" },
+    ],
+    name: "SlippageExceeded",
+    type: "error",
+  },
+  { inputs: [{ name: "eid", type: "uint32" }], name: "NoPeer", type: "error" },
+  { inputs: [{ name: "msgValue", type: "uint256" }], name: "NotEnoughNative", type: "error" },
+  // Chainlink CCIP router
+  { inputs: [{ name: "destChainSelector", type: "uint64" }], name: "UnsupportedDestinationChain", type: "error" },
+  { inputs: [], name: "InsufficientFeeTokenAmount", type: "error" },
+  { inputs: [], name: "InvalidMsgValue", type: "error" },
+  // Permit2 and EIP-2612
+  { inputs: [{ name: "signatureDeadline", type: "uint256" }], name: "SignatureExpired", type: "error" },
+  { inputs: [{ name: "deadline", type: "uint256" }], name: "AllowanceExpired", type: "error" },
+  { inputs: [{ name: "amount", type: "uint256" }], name: "InsufficientAllowance", type: "error" },
+  { inputs: [], name: "InvalidNonce", type: "error" },
+  { inputs: [], name: "InvalidSigner", type: "error" },
+  { inputs: [{ name: "deadline", type: "uint256" }], name: "ERC2612ExpiredSignature", type: "error" },
+  {
+    inputs: [
+      { name: "signer", type: "address" },
+      { name: "owner", type: "address" },
+    ],
+    name: "ERC2612InvalidSigner",
+    type: "error",
+  },
+  // ENS ETHRegistrarController
+  { inputs: [{ name: "commitment", type: "bytes32" }], name: "CommitmentTooNew", type: "error" },
+  { inputs: [{ name: "commitment", type: "bytes32" }], name: "CommitmentTooOld", type: "error" },
+  { inputs: [{ name: "commitment", type: "bytes32" }], name: "UnexpiredCommitmentExists", type: "error" },
+  { inputs: [{ name: "name", type: "string" }], name: "NameNotAvailable", type: "error" },
+  { inputs: [{ name: "duration", type: "uint256" }], name: "DurationTooShort", type: "error" },
+  { inputs: [], name: "InsufficientValue", type: "error" },
+] as const;
+
+/**
+ * ENS contract addresses for different networks
+ *
+ * @deprecated Use `getNetwork(network).ens` from the network registry
  */
 export const CONTRACT_ADDRESSES = {
   ethereum: {
-    ensRegistry: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e",
-    ensPublicResolver: "0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63",
-    ensEthRegistrarController: "0x253553366Da8546fC250F225fe3d25d0C782303b",
+    ensRegistry: BUILTIN_NETWORKS.ethereum.ens.registry,
+    ensPublicResolver: BUILTIN_NETWORKS.ethereum.ens.publicResolver,
+    ensEthRegistrarController: BUILTIN_NETWORKS.ethereum.ens.ethRegistrarController,
+    ensNameWrapper: BUILTIN_NETWORKS.ethereum.ens.nameWrapper,
   },
   "ethereum-sepolia": {
-    ensRegistry: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e",
-    ensPublicResolver: "0x8FADE66B79cC9f707aB26799354482EB93a5B7dD",
-    ensEthRegistrarController: "0xFED6a969AaA60E4961FCD3EBF1A2e8913ac65B72",
+    ensRegistry: BUILTIN_NETWORKS["ethereum-sepolia"].ens.registry,
+    ensPublicResolver: BUILTIN_NETWORKS["ethereum-sepolia"].ens.publicResolver,
+    ensEthRegistrarController: BUILTIN_NETWORKS["ethereum-sepolia"].ens.ethRegistrarController,
+    ensNameWrapper: BUILTIN_NETWORKS["ethereum-sepolia"].ens.nameWrapper,
   },
 } as const;
 
 /**
  * Helper type for network names
+ *
+ * @deprecated Use `NetworkId` from the network registry
  */
 export type SupportedNetwork = keyof typeof CONTRACT_ADDRESSES;
@@ -0,0 +1,199 @@
+/**
+ * Canonical Asset Registry
+ *
+ * Maps one logical asset (e.g. "USDC") to its contract on every network,
+ * so a token requested on one chain can be found on the others:
+ * - Native deployments come from the network registry's `tokens`, keyed by
+ *   the asset id (e.g. Circle's USDC on Base is `tokens.USDC`)
+ * - Bridged variants (USDC.e, USDbC, ...) are listed on the asset itself
+ *
+ * Bridged variants are distinct tokens: they are scanned as balances, but
+ * bridges only carry (and deliver) the native deployment.
+ */
+
+import type { Address } from "viem";
+import { hasNetwork, listNetworks, type NetworkId } from "./networks.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AssetVariant = "native" | "bridged";
+
+export interface AssetDeployment {
+  network: NetworkId;
+  address: Address;
+  variant: AssetVariant;
+  /** Symbol the token uses on this network (e.g. "USDC.e") */
+  symbol: string;
+}
+
+export interface CanonicalAsset {
+  /** Canonical id; matches the token symbol in the network registry (e.g. "USDC") */
+  id: string;
+  name: string;
+  /** Decimals shared by every deployment */
+  decimals: number;
+  /**
+   * Deployments beyond the network registry's `tokens`; an entry with the
+   * same network and address as a registry token overrides its variant
+   */
+  deployments?: readonly AssetDeployment[];
+}
+
+// ============================================================================
+// BUILT-IN ASSETS
+// ============================================================================
+
+export const BUILTIN_ASSETS = {
+  USDC: {
+    id: "USDC",
+    name: "USD Coin",
+    decimals: 6,
+    deployments: [
+      { network: "arbitrum", address: "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8", variant: "bridged", symbol: "USDC.e" },
+      { network: "optimism", address: "0x7F5c764cBc14f9669B88837ca1490cCa17c31607", variant: "bridged", symbol: "USDC.e" },
+      { network: "polygon", address: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174", variant: "bridged", symbol: "USDC.e" },
+      { network: "base", address: "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA", variant: "bridged", symbol: "USDbC" },
+    ],
+  },
+  WETH: {
+    id: "WETH",
+    name: "Wrapped Ether",
+    decimals: 18,
+    deployments: [
+      // PoS-bridged WETH is the registry's WETH on Polygon
+      { network: "polygon", address: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619", variant: "bridged", symbol: "WETH" },
+    ],
+  },
+  LINK: {
+    id: "LINK",
+    name: "Chainlink",
+    decimals: 18,
+  },
+} as const satisfies Record<string, CanonicalAsset>;
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const registry = new Map<string, CanonicalAsset>(
+  Object.values(BUILTIN_ASSETS).map((asset) => [asset.id, asset])
+);
+
+/**
+ * Register a canonical asset, or replace an existing entry
+ *
+ * @example
+ * ```ts
+ * registerAsset({
+ *   id: "USDT",
+ *   name: "Tether USD",
+ *   decimals: 6,
+ *   deployments: [
+ *     { network: "arbitrum", address: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", variant: "native", symbol: "USDT" },
+ *   ],
+ * });
+ * ```
+ */
+export function registerAsset(asset: CanonicalAsset): void {
+  if (!asset.id) {
+    throw new Error("Asset id is required");
+  }
+  if (!Number.isInteger(asset.decimals) || asset.decimals < 0) {
+    throw new Error(`Invalid decimals for asset "${asset.id}": ${asset.decimals}`);
+  }
+
+  registry.set(asset.id, asset);
+}
+
+/**
+ * Look up an asset, throwing if it isn't registered
+ */
+export function getAsset(id: string): CanonicalAsset {
+  const asset = registry.get(id);
+
+  if (!asset) {
+    throw new Error(`Unknown asset "${id}". Registered assets: ${[...registry.keys()].join(", ")}`);
+  }
+
+  return asset;
+}
+
+/**
+ * All registered assets
+ */
+export function listAssets(): CanonicalAsset[] {
+  return [...registry.values()];
+}
+
+/**
+ * Every deployment of an asset, optionally on a single network
+ */
+export function getAssetDeployments(id: string, network?: NetworkId): AssetDeployment[] {
+  const asset = getAsset(id);
+  const extra = (asset.deployments ?? []).filter((d) => hasNetwork(d.network));
+
+  const fromRegistry: AssetDeployment[] = listNetworks().flatMap((config) => {
+    const address = config.tokens[asset.id];
+    const overridden = extra.some(
+      (d) => d.network === config.id && d.address.toLowerCase() === address?.toLowerCase()
+    );
+
+    return address && !overridden
+      ? [{ network: config.id, address, variant: "native" as const, symbol: asset.id }]
+      : [];
+  });
+
+  const deployments = [...fromRegistry, ...extra];
+  return network ? deployments.filter((d) => d.network === network) : deployments;
+}
+
+/**
+ * Find the canonical asset a token address belongs to
+ *
+ * @example
+ * ```ts
+ * const match = findAsset("arbitrum", "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8");
+ * // { asset: { id: "USDC", ... }, deployment: { variant: "bridged", symbol: "USDC.e", ... } }
+ * ```
+ */
+export function findAsset(
+  network: NetworkId,
+  address: Address
+): { asset: CanonicalAsset; deployment: AssetDeployment } | undefined {
+  for (const asset of registry.values()) {
+    const deployment = getAssetDeployments(asset.id, network).find(
+      (d) => d.address.toLowerCase() === address.toLowerCase()
+    );
+
+    if (deployment) {
+      return { asset, deployment };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Deployments of the same asset on other networks, native variants first
+ *
+ * Returns an empty list for tokens that aren't part of a registered asset.
+ */
+export function getAssetEquivalents(
+  network: NetworkId,
+  address: Address,
+  options: { includeBridged?: boolean } = {}
+): AssetDeployment[] {
+  const { includeBridged = true } = options;
+  const match = findAsset(network, address);
+
+  if (!match) {
+    return [];
+  }
+
+  return getAssetDeployments(match.asset.id)
+    .filter((d) => d.network !== network)
+    .filter((d) => includeBridged || d.variant === "native")
+    .sort((a, b) => (a.variant === b.variant ? 0 : a.variant === "native" ? -1 : 1));
+}
@@ -4,21 +4,101 @@
  * Features:
  * - ENS name registration
  * - Native & ERC-20 transfers
- * - ERC-20 approvals & allowances
- * - Send & read transactions
+ * - ERC-20 approvals & allowances (approve only what's needed, revoke, audit)
+ * - Send & read transactions (nonces managed per account, see nonce-manager.ts)
+ * - EIP-712 typed data signing
+ * - Spending policy enforcement
+ * - Transaction simulation & dry-run mode
+ * - Typed errors with decoded revert reasons (see errors.ts)
+ * - Progress events and a pluggable logger (see events.ts)
  */
 
-import { encodeFunctionData, parseEther, parseUnits, formatUnits } from "viem";
+import {
+  BaseError,
+  MethodNotFoundRpcError,
+  MethodNotSupportedRpcError,
+  decodeFunctionData,
+  encodeFunctionData,
+  isAddressEqual,
+  keccak256,
+  parseEventLogs,
+  parseEther,
+  parseUnits,
+  formatUnits,
+  getTypesForEIP712Domain,
+  toHex,
+  hexToBigInt,
+  isAddress,
+  maxUint256,
+  zeroAddress,
+  WaitForTransactionReceiptTimeoutError,
+} from "viem";
+import { namehash, normalize } from "viem/ens";
 import { serializeTransaction } from "viem";
-import type { TransactionRequestEIP1559 } from "viem";
+import type {
+  BlockTag,
+  Log,
+  PublicClient,
+  StateOverride,
+  TransactionReceipt,
+  TransactionRequestEIP1559,
+  TransactionSerializableEIP1559,
+  TypedDataDomain,
+  TypedDataParameter,
+} from "viem";
 import type { CdpOpenApiClientType } from "@coinbase/cdp-sdk";
 import {
   ERC20_ABI,
   ENS_ETH_REGISTRAR_CONTROLLER_ABI,
   ENS_RESOLVER_ABI,
-  CONTRACT_ADDRESSES,
-  type SupportedNetwork,
+  ENS_REGISTRY_ABI,
+  ENS_NAME_WRAPPER_ABI,
 } from "./abis.js";
+import { findAsset, getAssetDeployments, listAssets } from "./assets.js";
+import {
+  BlockchainError,
+  ENSNameUnavailableError,
+  FeeCeilingError,
+  ReceiptTimeoutError,
+  TransactionRevertedError,
+  decodeRevert,
+  fromRevert,
+  type RevertDetails,
+  revertData,
+  toBlockchainError,
+} from "./errors.js";
+import {
+  ProgressEmitter,
+  createConsoleLogger,
+  describeProgress,
+  getProgressLogLevel,
+  type Logger,
+  type ProgressEvent,
+  type ProgressEventData,
+  type ProgressListener,
+} from "./events.js";
+import { deriveIdempotencyKey, toIdempotencyKey } from "./idempotency.js";
+import {
+  getCdpNetwork,
+  getENSDeployment,
+  getKnownSpenders,
+  getNetwork,
+  getTokenSymbol,
+  listNetworks,
+  type ENSContracts,
+  type NetworkId,
+} from "./networks.js";
+import {
+  SpendingPolicyError,
+  type PolicyDecision,
+  type Spend,
+  type SpendIntent,
+  type SpendRecord,
+  type SpendingPolicy,
+} from "./policy.js";
+import { NonceManager, type NonceLease } from "./nonce-manager.js";
+import { RpcProvider, type RpcConfig } from "./rpc.js";
+import { sleep } from "./utils.js";
 
 // ============================================================================
 // TYPES
@@ -26,16 +106,20 @@ import {
 
 export type Address = `0x${string}`;
 export type Hex = `0x${string}`;
+/** ENS name such as "vitalik.eth" or "pay.myagent.eth" */
+export type ENSName = `${string}.${string}`;
+/** Raw address or an ENS name resolved before the transaction is built */
+export type AddressOrENSName = Address | ENSName;
 
 export interface TransferNativeOptions {
   /** Sender's address */
   from: Address;
-  /** Recipient's address */
-  to: Address;
+  /** Recipient's address or ENS name */
+  to: AddressOrENSName;
   /** Amount in ETH (e.g., "0.1") */
   amountInEth: string;
   /** Network to use */
-  network: "ethereum" | "base" | "ethereum-sepolia" | "base-sepolia";
+  network: NetworkId;
   /** Optional idempotency key */
   idempotencyKey?: string;
 }
@@ -43,33 +127,70 @@ export interface TransferNativeOptions {
 export interface TransferERC20Options {
   /** Sender's address */
   from: Address;
-  /** Recipient's address */
-  to: Address;
+  /** Recipient's address or ENS name */
+  to: AddressOrENSName;
   /** Token contract address */
   tokenAddress: Address;
   /** Amount in token's smallest unit */
   amount: bigint;
   /** Network to use */
-  network: "ethereum" | "base" | "ethereum-sepolia" | "base-sepolia";
+  network: NetworkId;
   /** Optional idempotency key */
   idempotencyKey?: string;
+  /** x402 resource the transfer pays for, for resource-scoped policy rules */
+  resource?: string;
+  /** Gas limit; skips estimation (see SendTransactionOptions.transaction) */
+  gas?: bigint;
+  /** Called right before the transfer is handed to CDP (see SendTransactionOptions.onSubmit) */
+  onSubmit?: () => void | Promise<void>;
 }
 
 export interface ApproveERC20Options {
   /** Owner's address */
   from: Address;
-  /** Spender's address to approve */
-  spender: Address;
+  /** Spender's address or ENS name to approve */
+  spender: AddressOrENSName;
   /** Token contract address */
   tokenAddress: Address;
   /** Amount to approve */
   amount: bigint;
   /** Network to use */
-  network: "ethereum" | "base" | "ethereum-sepolia" | "base-sepolia";
+  network: NetworkId;
   /** Optional idempotency key */
   idempotencyKey?: string;
 }
 
+export interface EnsureAllowanceOptions extends ApproveERC20Options {
+  /**
+   * Approve this much more than `amount`, in basis points, so later spends
+   * skip the approval (default: the instance's `allowance.headroomBps`, else 0)
+   */
+  headroomBps?: number;
+  /**
+   * Approve zero before changing a non-zero allowance, as USDT-style tokens
+   * require (default: for known tokens, or after the direct approval reverts)
+   */
+  resetToZero?: boolean;
+  /** Confirmations to wait for, so the spender can use the allowance right away (default: 1) */
+  confirmations?: number;
+}
+
+export interface RevokeAllowanceOptions extends Omit<ApproveERC20Options, "amount"> {
+  /** Confirmations to wait for (default: 1) */
+  confirmations?: number;
+}
+
+export interface AuditAllowancesOptions {
+  /** Wallet whose approvals to list */
+  owner: Address;
+  /** Networks to check (default: every registered network) */
+  networks?: NetworkId[];
+  /** Tokens to check besides the registry's, per network */
+  tokens?: Partial<Record<NetworkId, Address[]>>;
+  /** Spenders to check besides the bridges this library uses, per network */
+  spenders?: Partial<Record<NetworkId, Address[]>>;
+}
+
 export interface CheckAllowanceOptions {
   /** Owner's address */
   owner: Address;
@@ -78,7 +199,7 @@ export interface CheckAllowanceOptions {
   /** Token contract address */
   tokenAddress: Address;
   /** Network to use */
-  network: "ethereum" | "base" | "ethereum-sepolia" | "base-sepolia";
+  network: NetworkId;
 }
 
 export interface RegisterENSOptions {
@@ -88,8 +209,93 @@ export interface RegisterENSOptions {
   name: string;
   /** Duration in years */
   durationInYears: number;
-  /** Network (only ethereum or ethereum-sepolia) */
-  network: "ethereum" | "ethereum-sepolia";
+  /** Network with an ENS deployment (ethereum or ethereum-sepolia) */
+  network: NetworkId;
+  /** Resolver to set (default: ENS public resolver) */
+  resolver?: Address;
+  /** Set the owner's primary name to this name (default: false) */
+  reverseRecord?: boolean;
+  /** Extra value sent on top of rentPrice, in basis points (default: 500 = 5%) */
+  rentPriceBufferBps?: number;
+  /** Called after the commit is sent; persist the state to resume after a crash */
+  onCommit?: (state: ENSRegistrationState) => void | Promise<void>;
+  /** Optional idempotency key */
+  idempotencyKey?: string;
+}
+
+/**
+ * In-progress ENS registration (JSON-serializable)
+ */
+export interface ENSRegistrationState {
+  name: string;
+  owner: Address;
+  network: NetworkId;
+  /** Registration duration in seconds */
+  duration: number;
+  /** Commitment secret; keep private until the name is registered */
+  secret: Hex;
+  resolver: Address;
+  reverseRecord: boolean;
+  commitment: Hex;
+  commitTransactionHash: Hex;
+  /** Unix timestamp (seconds) when the commit was sent */
+  committedAt: number;
+  /** Controller's minimum commitment age in seconds */
+  minCommitmentAge: number;
+  /** Controller's maximum commitment age in seconds */
+  maxCommitmentAge: number;
+}
+
+export interface SetENSTextOptions {
+  /** Name owner (or approved manager) */
+  from: Address;
+  /** Full ENS name (e.g., "myname.eth") */
+  name: string;
+  /** Record key (e.g., "url", "avatar", "com.twitter") */
+  key: string;
+  /** Record value; empty string clears the record */
+  value: string;
+  /** Network whose ENS deployment to use (L2s use Ethereum's) */
+  network: NetworkId;
+  /** Optional idempotency key */
+  idempotencyKey?: string;
+}
+
+export interface SetENSAddressOptions {
+  /** Name owner (or approved manager) */
+  from: Address;
+  /** Full ENS name (e.g., "myname.eth") */
+  name: string;
+  /** Address the name should resolve to */
+  address: Address;
+  /** Network whose ENS deployment to use (L2s use Ethereum's) */
+  network: NetworkId;
+  /** Optional idempotency key */
+  idempotencyKey?: string;
+}
+
+export interface SetENSResolverOptions {
+  /** Name owner */
+  from: Address;
+  /** Full ENS name (e.g., "myname.eth") */
+  name: string;
+  /** New resolver contract */
+  resolver: Address;
+  /** Network whose ENS deployment to use (L2s use Ethereum's) */
+  network: NetworkId;
+  /** Optional idempotency key */
+  idempotencyKey?: string;
+}
+
+export interface SetENSOwnerOptions {
+  /** Current name owner */
+  from: Address;
+  /** Full ENS name (e.g., "myname.eth") */
+  name: string;
+  /** New owner */
+  newOwner: Address;
+  /** Network whose ENS deployment to use (L2s use Ethereum's) */
+  network: NetworkId;
   /** Optional idempotency key */
   idempotencyKey?: string;
 }
@@ -97,12 +303,103 @@ export interface RegisterENSOptions {
 export interface SendTransactionOptions {
   /** Sender's address */
   from: Address;
-  /** Transaction request */
+  /** Transaction request; nonce, gas and fee fields override the prepared values */
   transaction: TransactionRequestEIP1559;
   /** Network to use */
-  network: "ethereum" | "base" | "ethereum-sepolia" | "base-sepolia";
-  /** Optional idempotency key */
+  network: NetworkId;
+  /** Abort if maxFeePerGas exceeds this (wei); overrides the configured ceiling */
+  maxFeePerGasCeiling?: bigint;
+  /**
+   * Optional idempotency key: CDP returns the original transaction for a
+   * repeated key. A UUID v4; other strings are mapped to one deterministically.
+   */
   idempotencyKey?: string;
+  /** x402 resource the transaction pays for, for resource-scoped policy rules */
+  resource?: string;
+  /**
+   * The transaction's native value is a bridge fee (e.g. a LayerZero `send`),
+   * checked against `maxBridgeFee` rather than counted as a call's spend
+   */
+  bridgeFee?: boolean;
+  /**
+   * Called, and awaited, right before the signed transaction is handed to
+   * CDP: after the policy check and gas estimation, which send nothing. Use
+   * it to record that the transaction may have gone out, e.g. so a resumed
+   * send reuses its idempotency key without estimating gas again.
+   */
+  onSubmit?: () => void | Promise<void>;
+}
+
+export interface PrecedingTransaction {
+  from: Address;
+  transaction: TransactionRequestEIP1559;
+  /** Seconds between the previous block and this transaction's block */
+  delaySeconds?: number;
+}
+
+export interface SimulateTransactionOptions extends SendTransactionOptions {
+  /** State assumed during the simulation: balances, code, storage slots */
+  stateOverride?: StateOverride;
+  /**
+   * Transactions applied first, in order, each in its own block (e.g. the
+   * approval a bridge send depends on). Needs an RPC with eth_simulateV1.
+   */
+  precededBy?: PrecedingTransaction[];
+  /** Seconds between the last preceding block and this transaction's block */
+  delaySeconds?: number;
+}
+
+export interface BalanceChange {
+  account: Address;
+  /** Token contract, or "native" */
+  token: Address | "native";
+  /** Signed change in the token's smallest unit */
+  delta: bigint;
+}
+
+export interface SimulationResult {
+  /** Whether the transaction would succeed */
+  success: boolean;
+  network: NetworkId;
+  from: Address;
+  /** The transaction as it would be signed (nonce, gas limit and fees filled in) */
+  transaction: TransactionSerializableEIP1559;
+  /** Hash of the unsigned transaction; stands in for the transaction hash in dry-run mode */
+  id: Hex;
+  /** Gas the transaction is expected to use */
+  gasUsed: bigint;
+  /** Most it could cost in network fees: gas limit × maxFeePerGas (wei) */
+  maxFee: bigint;
+  /** Return data, or the revert data if it would revert */
+  returnData: Hex;
+  /** Why it would revert */
+  revertReason?: string;
+  /** Native and ERC-20 balance changes, excluding gas */
+  balanceChanges: BalanceChange[];
+  /** Logs it would emit (eth_simulateV1 only) */
+  logs: Log[];
+  /** Spending policy decision */
+  policy: PolicyDecision;
+  /**
+   * - `eth_simulateV1`: traced; preceding transactions applied, balance
+   *   changes read from the emitted transfers
+   * - `eth_call`: fallback for RPCs without eth_simulateV1; simulated alone,
+   *   balance changes inferred from the call itself
+   */
+  method: "eth_simulateV1" | "eth_call";
+}
+
+export interface SignTypedDataOptions {
+  /** Signer's address (CDP account) */
+  from: Address;
+  /** EIP-712 domain */
+  domain: TypedDataDomain;
+  /** Struct definitions, excluding EIP712Domain (derived from `domain`) */
+  types: Record<string, readonly TypedDataParameter[]>;
+  /** Root struct of `message` */
+  primaryType: string;
+  /** Message to sign; bigint values are allowed */
+  message: Record<string, unknown>;
 }
 
 export interface ReadContractOptions {
@@ -115,11 +412,135 @@ export interface ReadContractOptions {
   /** Function arguments */
   args?: unknown[];
   /** Network to use */
-  network: "ethereum" | "base" | "ethereum-sepolia" | "base-sepolia";
+  network: NetworkId;
+  /** Block tag to read at (default: "latest") */
+  blockTag?: BlockTag;
+  /** Block number to read at; takes precedence over blockTag */
+  blockNumber?: bigint;
+}
+
+export interface FeeConfig {
+  /** Abort instead of paying a maxFeePerGas above this (wei), globally or per network */
+  maxFeePerGasCeiling?: bigint | Partial<Record<string, bigint>>;
+  /** Fee history reward percentile used for the priority fee (default: 50) */
+  priorityFeePercentile?: number;
+  /** Number of recent blocks sampled from fee history (default: 10) */
+  feeHistoryBlocks?: number;
+  /** Multiplier applied to the next block's base fee for headroom (default: 2) */
+  baseFeeMultiplier?: number;
+  /** Buffer added to the gas estimate, in basis points (default: 2000 = 20%) */
+  gasLimitBufferBps?: number;
+}
+
+export interface AllowanceConfig {
+  /** Default headroom for ensureAllowance, in basis points (default: 0 = exact) */
+  headroomBps?: number;
+  /** Tokens that must be approved to zero before a new non-zero allowance, besides USDT on Ethereum */
+  resetToZeroTokens?: Partial<Record<NetworkId, Address[]>>;
+}
+
+export interface BlockchainOperationsConfig extends RpcConfig {
+  /** Shared read provider; when omitted one is built from rpcUrls/transports */
+  provider?: RpcProvider;
+  /** Gas and fee estimation settings */
+  fees?: FeeConfig;
+  /** Allowance management settings (see ensureAllowance) */
+  allowance?: AllowanceConfig;
+  /** Spending limits checked before every transaction is sent */
+  policy?: SpendingPolicy;
+  /** Simulate transactions instead of sending them (see withDryRun) */
+  dryRun?: boolean;
+  /** Where log lines go (default: the console, `info` and above) */
+  logger?: Logger;
+  /** Progress event emitter; pass one to share it between instances */
+  events?: ProgressEmitter;
+  /** Nonce manager; pass one to share it between instances sending from the same accounts */
+  nonces?: NonceManager;
 }
 
 export interface TransactionResult {
+  /** In dry-run mode, the simulation's id */
   transactionHash: Hex;
+  /** Set in dry-run mode: what the transaction would have done */
+  simulation?: SimulationResult;
+}
+
+export interface WaitForReceiptOptions {
+  /** Hash returned by a send method */
+  transactionHash: Hex;
+  /** Network the transaction was sent on */
+  network: NetworkId;
+  /** Number of confirmations to wait for (default: 1) */
+  confirmations?: number;
+  /** Give up after this many milliseconds (default: 120000) */
+  timeoutMs?: number;
+  /** Polling interval in milliseconds (default: client default) */
+  pollIntervalMs?: number;
+  /**
+   * Sender, whose nonces are reset if the transaction was dropped; known
+   * already for transactions sent through this instance
+   */
+  from?: Address;
+}
+
+export interface TransactionReceiptResult {
+  /** Hash of the mined transaction (differs from the requested hash if it was replaced) */
+  transactionHash: Hex;
+  /** "reverted" if the transaction was mined but execution failed */
+  status: "success" | "reverted";
+  blockNumber: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  logs: Log[];
+  /** Set if the original transaction was replaced by another with the same nonce */
+  replacement?: {
+    reason: "cancelled" | "replaced" | "repriced";
+    originalTransactionHash: Hex;
+  };
+}
+
+export interface TransferResult extends TransactionResult {
+  /** Recipient address the transfer was sent to (resolved if an ENS name was given) */
+  to: Address;
+}
+
+export interface ApprovalResult extends TransactionResult {
+  /** Approved spender address (resolved if an ENS name was given) */
+  spender: Address;
+}
+
+export interface AllowanceResult {
+  /** Spender address (resolved if an ENS name was given) */
+  spender: Address;
+  /** Allowance before the call */
+  previousAllowance: bigint;
+  /** Allowance after the call */
+  allowance: bigint;
+  /** Approval transaction; unset if the allowance was already right */
+  transactionHash?: Hex;
+  /** Zero approval sent first, for tokens that require it */
+  resetTransactionHash?: Hex;
+}
+
+export interface AllowanceAuditEntry {
+  network: NetworkId;
+  token: Address;
+  /** Token symbol, if it's a registered token */
+  symbol?: string;
+  spender: Address;
+  /** What the spender is, if it's a known contract */
+  spenderLabel?: string;
+  /** Allowance in the token's smallest unit */
+  allowance: bigint;
+  /** Effectively unlimited (at least half of max uint256) */
+  unlimited: boolean;
+}
+
+export interface ENSRegistrationResult extends TransactionResult {
+  /** Commitment used for the registration */
+  registration: ENSRegistrationState;
+  /** Value sent with `register` (rent price plus buffer), in wei */
+  value: bigint;
 }
 
 export interface TokenInfo {
@@ -129,26 +550,80 @@ export interface TokenInfo {
   totalSupply: bigint;
 }
 
+/**
+ * Transactions simulated by a dry-run instance, so later ones see their effects
+ */
+interface DryRunSession {
+  /** Every simulation, in order */
+  simulations: SimulationResult[];
+  /** Successful transactions, applied before later ones on the same network */
+  applied: (PrecedingTransaction & { network: NetworkId })[];
+  /** Seconds to let pass before the next transaction, per network */
+  delays: Partial<Record<NetworkId, number>>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_RENT_PRICE_BUFFER_BPS = 500;
+const DEFAULT_GAS_LIMIT_BUFFER_BPS = 2000;
+const DEFAULT_RECEIPT_TIMEOUT_MS = 120_000;
+const ENS_COMMIT_POLL_INTERVAL_MS = 5_000;
+const ENS_COMMIT_TIMEOUT_MS = 10 * 60 * 1000;
+/** Tokens whose `approve` reverts when changing one non-zero allowance to another */
+const RESET_TO_ZERO_TOKENS: Partial<Record<NetworkId, Address[]>> = {
+  ethereum: ["0xdAC17F958D2ee523a2206206994597C13D831ec7"], // USDT
+};
+/** Senders remembered for recent sends, so a dropped one resets only its own account */
+const MAX_TRACKED_SENDERS = 1000;
+/** Pseudo-token eth_simulateV1 reports native transfers from (traceTransfers) */
+const NATIVE_TRANSFER_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
 // ============================================================================
 // MAIN BLOCKCHAIN CLASS
 // ============================================================================
 
 export class BlockchainOperations {
-  constructor(private client: CdpOpenApiClientType) {}
+  private provider: RpcProvider;
+  private fees: FeeConfig;
+  private allowance: AllowanceConfig;
+  private policy?: SpendingPolicy;
+  private dryRun?: DryRunSession;
+  private logger: Logger;
+  private events: ProgressEmitter;
+  private nonces: NonceManager;
+  /** Sender of each recent send, by `${network}:${hash}` */
+  private senders = new Map<string, Address>();
+
+  constructor(
+    private client: CdpOpenApiClientType,
+    config: BlockchainOperationsConfig = {}
+  ) {
+    this.provider = config.provider ?? new RpcProvider(config);
+    this.fees = config.fees ?? {};
+    this.allowance = config.allowance ?? {};
+    this.policy = config.policy;
+    this.dryRun = config.dryRun ? { simulations: [], applied: [], delays: {} } : undefined;
+    this.logger = config.logger ?? createConsoleLogger();
+    this.events = config.events ?? new ProgressEmitter();
+    this.nonces = config.nonces ?? new NonceManager();
+  }
 
   // ==========================================================================
   // 1. CREATE ENS NAME
   // ==========================================================================
 
   /**
-   * Register an ENS name (simplified version - production requires commit/reveal)
+   * Register an ENS name using the controller's commit/reveal scheme
    * 
-   * ⚠️ IMPORTANT: Real ENS registration requires a two-step process:
-   * 1. Commit (makeCommitment + commit)
-   * 2. Wait 60 seconds
-   * 3. Register
+   * Runs the full flow:
+   * 1. Check availability and send `commit` ({@link commitENSName})
+   * 2. Wait for the controller's `minCommitmentAge` (60s on mainnet)
+   * 3. Read `rentPrice` and send `register` ({@link completeENSRegistration})
    * 
-   * This is a simplified version for demonstration.
+   * Pass `onCommit` to persist the in-progress registration; if the process
+   * dies during the wait, resume with `completeENSRegistration(state)`.
    * 
    * @example
    * ```ts
@@ -156,243 +631,726 @@ export class BlockchainOperations {
    *   owner: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
    *   name: "myname",
    *   durationInYears: 1,
-   *   network: "ethereum-sepolia"
+   *   network: "ethereum-sepolia",
+   *   onCommit: (state) => fs.writeFileSync("ens.json", JSON.stringify(state)),
    * });
    * ```
    */
-  async registerENSName(options: RegisterENSOptions): Promise<TransactionResult> {
-    const { owner, name, durationInYears, network, idempotencyKey } = options;
+  async registerENSName(options: RegisterENSOptions): Promise<ENSRegistrationResult> {
+    const state = await this.commitENSName(options);
+
+    if (options.onCommit) {
+      await options.onCommit(state);
+    }
 
-    // Get contract address
-    const controllerAddress = CONTRACT_ADDRESSES[network].ensEthRegistrarController;
-    const resolverAddress = CONTRACT_ADDRESSES[network].ensPublicResolver;
+    return this.completeENSRegistration(state, {
+      rentPriceBufferBps: options.rentPriceBufferBps,
+      idempotencyKey: options.idempotencyKey,
+    });
+  }
 
-    // Generate random secret for commit/reveal
-    const secret = `0x${Array.from({ length: 64 }, () =>
-      Math.floor(Math.random() * 16).toString(16)
-    ).join("")}` as Hex;
+  /**
+   * Step 1 of registration: check availability and submit the commitment
+   * 
+   * The returned state is JSON-serializable and holds everything needed to
+   * reveal the commitment later, including the secret.
+   */
+  async commitENSName(options: RegisterENSOptions): Promise<ENSRegistrationState> {
+    const {
+      owner,
+      durationInYears,
+      network,
+      resolver,
+      reverseRecord = false,
+      idempotencyKey,
+    } = options;
 
-    const duration = BigInt(durationInYears * 365 * 24 * 60 * 60); // Convert years to seconds
+    const name = normalize(options.name);
+    const ens = this.requireENSNetwork(network);
+    const controllerAddress = ens.ethRegistrarController;
+    const resolverAddress = resolver ?? ens.publicResolver;
 
-    // Step 1: Check if name is available
-    const availableData = encodeFunctionData({
-      abi: ENS_ETH_REGISTRAR_CONTROLLER_ABI,
-      functionName: "available",
-      args: [name],
-    });
+    if (!(await this.checkENSAvailability(name, network))) {
+      throw new ENSNameUnavailableError(`${name}.eth`, undefined, { network });
+    }
+
+    // Secret must be unpredictable, otherwise the commitment can be front-run
+    const secret = toHex(crypto.getRandomValues(new Uint8Array(32)));
+    const duration = durationInYears * 365 * 24 * 60 * 60; // Convert years to seconds
 
-    console.log(`Checking availability for ${name}.eth...`);
+    const [commitment, minCommitmentAge, maxCommitmentAge] = await Promise.all([
+      this.readContract({
+        contractAddress: controllerAddress,
+        abi: ENS_ETH_REGISTRAR_CONTROLLER_ABI,
+        functionName: "makeCommitment",
+        args: [name, owner, BigInt(duration), secret, resolverAddress, [], reverseRecord, 0],
+        network,
+      }),
+      this.readContract({
+        contractAddress: controllerAddress,
+        abi: ENS_ETH_REGISTRAR_CONTROLLER_ABI,
+        functionName: "minCommitmentAge",
+        network,
+      }),
+      this.readContract({
+        contractAddress: controllerAddress,
+        abi: ENS_ETH_REGISTRAR_CONTROLLER_ABI,
+        functionName: "maxCommitmentAge",
+        network,
+      }),
+    ]);
 
-    // Step 2: Get rent price
-    const rentPriceData = encodeFunctionData({
+    const commitData = encodeFunctionData({
       abi: ENS_ETH_REGISTRAR_CONTROLLER_ABI,
-      functionName: "rentPrice",
-      args: [name, duration],
+      functionName: "commit",
+      args: [commitment as Hex],
+    });
+
+    const result = await this.sendTransaction({
+      from: owner,
+      transaction: {
+        to: controllerAddress,
+        data: commitData,
+      },
+      network,
+      idempotencyKey: idempotencyKey ? `${idempotencyKey}-commit` : undefined,
     });
 
-    console.log(`Getting rent price for ${name}.eth...`);
+    this.report({ type: "ens_committed", network, name, transactionHash: result.transactionHash });
+
+    return {
+      name,
+      owner,
+      network,
+      duration,
+      secret,
+      resolver: resolverAddress,
+      reverseRecord,
+      commitment: commitment as Hex,
+      commitTransactionHash: result.transactionHash,
+      committedAt: Math.floor(Date.now() / 1000),
+      minCommitmentAge: Number(minCommitmentAge),
+      maxCommitmentAge: Number(maxCommitmentAge),
+    };
+  }
+
+  /**
+   * Step 2 of registration: wait out the commitment age and reveal
+   * 
+   * Safe to call with a state restored from storage: it waits for the commit
+   * to be mined, then for `minCommitmentAge`, and fails if the commitment has
+   * outlived `maxCommitmentAge`.
+   */
+  async completeENSRegistration(
+    state: ENSRegistrationState,
+    options: { rentPriceBufferBps?: number; idempotencyKey?: string } = {}
+  ): Promise<ENSRegistrationResult> {
+    const { rentPriceBufferBps = DEFAULT_RENT_PRICE_BUFFER_BPS, idempotencyKey } = options;
+    const { name, owner, network, duration, secret, resolver, reverseRecord } = state;
+
+    const controllerAddress = this.requireENSNetwork(network).ethRegistrarController;
+
+    if (this.dryRun) {
+      // The simulated commit never lands; simulate `register` as if the wait had passed
+      this.dryRun.delays[network] = state.minCommitmentAge + 1;
+    } else {
+      this.report({ type: "ens_commitment_waiting", network, name, minCommitmentAge: state.minCommitmentAge });
+      await this.waitForENSCommitmentAge(state);
+    }
+
+    if (!(await this.checkENSAvailability(name, network))) {
+      throw new ENSNameUnavailableError(`${name}.eth`, `ENS name ${name}.eth is no longer available`, {
+        network,
+      });
+    }
 
-    // Step 3: Make commitment
-    const commitmentData = encodeFunctionData({
+    // Price in wei; the buffer absorbs price-oracle movement and is refunded by the controller
+    const price = (await this.readContract({
+      contractAddress: controllerAddress,
       abi: ENS_ETH_REGISTRAR_CONTROLLER_ABI,
-      functionName: "makeCommitment",
-      args: [
-        name,
-        owner,
-        duration,
-        secret,
-        resolverAddress,
-        [], // data
-        false, // reverseRecord
-        0, // ownerControlledFuses
-      ],
-    });
+      functionName: "rentPrice",
+      args: [name, BigInt(duration)],
+      network,
+    })) as { base: bigint; premium: bigint };
 
-    console.log(`Creating commitment for ${name}.eth...`);
+    const value = ((price.base + price.premium) * BigInt(10_000 + rentPriceBufferBps)) / 10_000n;
 
-    // Step 4: Register (simplified - in production, you need to commit first and wait 60s)
     const registerData = encodeFunctionData({
       abi: ENS_ETH_REGISTRAR_CONTROLLER_ABI,
       functionName: "register",
-      args: [
-        name,
-        owner,
-        duration,
-        secret,
-        resolverAddress,
-        [],
-        false,
-        0,
-      ],
+      args: [name, owner, BigInt(duration), secret, resolver, [], reverseRecord, 0],
+    });
+
+    const result = await this.sendTransaction({
+      from: owner,
+      transaction: {
+        to: controllerAddress,
+        data: registerData,
+        value,
+      },
+      network,
+      idempotencyKey: idempotencyKey ? `${idempotencyKey}-register` : undefined,
     });
 
-    // Estimate cost (0.01 ETH for demo - real price comes from rentPrice call)
-    const value = parseEther("0.01");
+    this.report({ type: "ens_registered", network, name, transactionHash: result.transactionHash, value });
 
-    const transaction: TransactionRequestEIP1559 = {
-      to: controllerAddress as `0x${string}`,
-      data: registerData,
+    return {
+      transactionHash: result.transactionHash,
+      registration: state,
       value,
     };
+  }
 
-    return this.sendTransaction({
-      from: owner,
-      transaction,
-      network,
-      idempotencyKey,
-    });
+  /**
+   * Wait until a commitment is old enough to reveal, failing if it has expired
+   */
+  private async waitForENSCommitmentAge(state: ENSRegistrationState): Promise<void> {
+    // Wait for the commit transaction to land; the controller records its block timestamp
+    const commitTimestamp = await this.waitForENSCommitment(state);
+    const publicClient = this.getPublicClient(state.network);
+
+    for (;;) {
+      const block = await publicClient.getBlock({ blockTag: "latest" });
+      const age = Number(block.timestamp) - commitTimestamp;
+
+      if (age > state.maxCommitmentAge) {
+        throw new BlockchainError(
+          "ens_commitment_expired",
+          `ENS commitment for ${state.name}.eth expired ${age - state.maxCommitmentAge}s ago; commit again`,
+          { network: state.network }
+        );
+      }
+      if (age > state.minCommitmentAge) {
+        return;
+      }
+
+      await sleep((state.minCommitmentAge - age + 1) * 1000);
+    }
   }
 
   /**
-   * Check if an ENS name is available
+   * Poll the controller until the commitment is recorded on-chain
+   * 
+   * @returns The block timestamp at which the commitment was recorded
    */
-  async checkENSAvailability(name: string, network: "ethereum" | "ethereum-sepolia"): Promise<boolean> {
-    const controllerAddress = CONTRACT_ADDRESSES[network].ensEthRegistrarController;
+  private async waitForENSCommitment(state: ENSRegistrationState): Promise<number> {
+    const controllerAddress = this.requireENSNetwork(state.network).ethRegistrarController;
+    const deadline = Date.now() + ENS_COMMIT_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      const timestamp = (await this.readContract({
+        contractAddress: controllerAddress,
+        abi: ENS_ETH_REGISTRAR_CONTROLLER_ABI,
+        functionName: "commitments",
+        args: [state.commitment],
+        network: state.network,
+      })) as bigint;
+
+      if (timestamp > 0n) {
+        return Number(timestamp);
+      }
+
+      await sleep(ENS_COMMIT_POLL_INTERVAL_MS);
+    }
+
+    throw new BlockchainError(
+      "receipt_timeout",
+      `ENS commitment ${state.commitment} not found on-chain (tx ${state.commitTransactionHash})`,
+      { network: state.network, retryable: true }
+    );
+  }
 
-    const data = encodeFunctionData({
-      abi: ENS_ETH_REGISTRAR_CONTROLLER_ABI,
-      functionName: "available",
-      args: [name],
-    });
+  /**
+   * Check if an ENS name is available
+   */
+  async checkENSAvailability(name: string, network: NetworkId): Promise<boolean> {
+    const ens = getENSDeployment(network);
 
     const result = await this.readContract({
-      contractAddress: controllerAddress as Address,
+      contractAddress: ens.contracts.ethRegistrarController,
       abi: ENS_ETH_REGISTRAR_CONTROLLER_ABI,
       functionName: "available",
       args: [name],
-      network,
+      network: ens.network,
     });
 
     return result as boolean;
   }
 
   // ==========================================================================
-  // 2. TRANSFER NATIVE ASSET (ETH)
+  // 1b. ENS RESOLUTION & RECORDS
   // ==========================================================================
 
   /**
-   * Transfer native ETH to another address
+   * Resolve an ENS name (e.g. "vitalik.eth") to an address
+   * 
+   * @returns The resolved address, or null if the name has no resolver or address record
    * 
    * @example
    * ```ts
-   * const result = await blockchain.transferNative({
-   *   from: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
-   *   to: "0x1234567890123456789012345678901234567890",
-   *   amountInEth: "0.1",
-   *   network: "base-sepolia"
-   * });
+   * const address = await blockchain.resolveENSName("myname.eth", "ethereum");
    * ```
    */
-  async transferNative(options: TransferNativeOptions): Promise<TransactionResult> {
-    const { from, to, amountInEth, network, idempotencyKey } = options;
-
-    const value = parseEther(amountInEth);
-
-    const transaction: TransactionRequestEIP1559 = {
-      to,
-      value,
-    };
+  async resolveENSName(name: string, network: NetworkId = "ethereum"): Promise<Address | null> {
+    const ensNetwork = getENSDeployment(network).network;
+    const node = ensNode(name);
+    const resolverAddress = await this.getENSResolver(name, ensNetwork);
+
+    if (!resolverAddress) {
+      return null;
+    }
+
+    const address = (await this.readContract({
+      contractAddress: resolverAddress,
+      abi: ENS_RESOLVER_ABI,
+      functionName: "addr",
+      args: [node],
+      network: ensNetwork,
+    })) as Address;
+
+    return address === zeroAddress ? null : address;
+  }
 
-    return this.sendTransaction({
-      from,
-      transaction,
-      network,
-      idempotencyKey,
-    });
+  /**
+   * Reverse-resolve an address to its primary ENS name
+   * 
+   * The reverse record is only trusted if the name resolves back to the same
+   * address (forward verification), as anyone can claim any reverse name.
+   * 
+   * @returns The primary name, or null if none is set or it fails verification
+   */
+  async lookupENSAddress(address: Address, network: NetworkId = "ethereum"): Promise<string | null> {
+    const ensNetwork = getENSDeployment(network).network;
+    const reverseName = `${address.slice(2).toLowerCase()}.addr.reverse`;
+    const resolverAddress = await this.getENSResolver(reverseName, ensNetwork);
+
+    if (!resolverAddress) {
+      return null;
+    }
+
+    const name = (await this.readContract({
+      contractAddress: resolverAddress,
+      abi: ENS_RESOLVER_ABI,
+      functionName: "name",
+      args: [namehash(reverseName)],
+      network: ensNetwork,
+    })) as string;
+
+    if (!name) {
+      return null;
+    }
+
+    const forward = await this.resolveENSName(name, ensNetwork);
+    return forward && forward.toLowerCase() === address.toLowerCase() ? name : null;
   }
 
-  // ==========================================================================
-  // 3. TRANSFER ERC-20 TOKEN
-  // ==========================================================================
+  /**
+   * Read a text record (e.g. "url", "avatar", "com.twitter", "description")
+   * 
+   * @returns The record value, or null if unset
+   */
+  async getENSText(name: string, key: string, network: NetworkId = "ethereum"): Promise<string | null> {
+    const ensNetwork = getENSDeployment(network).network;
+    const resolverAddress = await this.getENSResolver(name, ensNetwork);
+
+    if (!resolverAddress) {
+      return null;
+    }
+
+    const value = (await this.readContract({
+      contractAddress: resolverAddress,
+      abi: ENS_RESOLVER_ABI,
+      functionName: "text",
+      args: [ensNode(name), key],
+      network: ensNetwork,
+    })) as string;
+
+    return value || null;
+  }
 
   /**
-   * Transfer ERC-20 tokens to another address
+   * Set a text record on the name's current resolver
    * 
    * @example
    * ```ts
-   * // Transfer 100 USDC (6 decimals)
-   * const result = await blockchain.transferERC20({
-   *   from: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
-   *   to: "0x1234567890123456789012345678901234567890",
-   *   tokenAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-   *   amount: parseUnits("100", 6),
-   *   network: "base"
+   * await blockchain.setENSText({
+   *   from: owner,
+   *   name: "myagent.eth",
+   *   key: "url",
+   *   value: "https://myagent.example",
+   *   network: "ethereum"
    * });
    * ```
    */
-  async transferERC20(options: TransferERC20Options): Promise<TransactionResult> {
-    const { from, to, tokenAddress, amount, network, idempotencyKey } = options;
+  async setENSText(options: SetENSTextOptions): Promise<TransactionResult> {
+    const { from, name, key, value, network, idempotencyKey } = options;
+    this.requireENSNetwork(network);
 
     const data = encodeFunctionData({
-      abi: ERC20_ABI,
-      functionName: "transfer",
-      args: [to, amount],
+      abi: ENS_RESOLVER_ABI,
+      functionName: "setText",
+      args: [ensNode(name), key, value],
     });
 
-    const transaction: TransactionRequestEIP1559 = {
-      to: tokenAddress,
-      data,
-    };
-
     return this.sendTransaction({
       from,
-      transaction,
+      transaction: {
+        to: await this.requireENSResolver(name, network),
+        data,
+      },
       network,
       idempotencyKey,
     });
   }
 
-  // ==========================================================================
-  // 4. APPROVE ERC-20 TOKEN
-  // ==========================================================================
-
   /**
-   * Approve a spender to use your ERC-20 tokens
-   * 
-   * @example
-   * ```ts
-   * // Approve Uniswap to spend 1000 USDC
-   * const result = await blockchain.approveERC20({
-   *   from: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
-   *   spender: "0xUniswapRouterAddress",
-   *   tokenAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-   *   amount: parseUnits("1000", 6),
-   *   network: "base"
-   * });
-   * ```
+   * Set the ETH address record on the name's current resolver
    */
-  async approveERC20(options: ApproveERC20Options): Promise<TransactionResult> {
-    const { from, spender, tokenAddress, amount, network, idempotencyKey } = options;
+  async setENSAddress(options: SetENSAddressOptions): Promise<TransactionResult> {
+    const { from, name, address, network, idempotencyKey } = options;
+    this.requireENSNetwork(network);
 
     const data = encodeFunctionData({
-      abi: ERC20_ABI,
-      functionName: "approve",
-      args: [spender, amount],
+      abi: ENS_RESOLVER_ABI,
+      functionName: "setAddr",
+      args: [ensNode(name), address],
     });
 
-    const transaction: TransactionRequestEIP1559 = {
-      to: tokenAddress,
+    return this.sendTransaction({
+      from,
+      transaction: {
+        to: await this.requireENSResolver(name, network),
+        data,
+      },
+      network,
+      idempotencyKey,
+    });
+  }
+
+  /**
+   * Get the resolver contract for a name
+   * 
+   * @returns The resolver address, or null if none is set
+   */
+  async getENSResolver(name: string, network: NetworkId = "ethereum"): Promise<Address | null> {
+    const ens = getENSDeployment(network);
+
+    const resolverAddress = (await this.readContract({
+      contractAddress: ens.contracts.registry,
+      abi: ENS_REGISTRY_ABI,
+      functionName: "resolver",
+      args: [ensNode(name)],
+      network: ens.network,
+    })) as Address;
+
+    return resolverAddress === zeroAddress ? null : resolverAddress;
+  }
+
+  /**
+   * Get the owner of a name, unwrapping Name Wrapper ownership
+   * 
+   * @returns The owner address, or null if the name is unowned
+   */
+  async getENSOwner(name: string, network: NetworkId = "ethereum"): Promise<Address | null> {
+    const ens = getENSDeployment(network);
+    const node = ensNode(name);
+    const registryOwner = await this.getENSRegistryOwner(node, ens.network);
+
+    if (!this.isENSNameWrapper(registryOwner, ens.network)) {
+      return registryOwner === zeroAddress ? null : registryOwner;
+    }
+
+    const owner = (await this.readContract({
+      contractAddress: ens.contracts.nameWrapper,
+      abi: ENS_NAME_WRAPPER_ABI,
+      functionName: "ownerOf",
+      args: [hexToBigInt(node)],
+      network: ens.network,
+    })) as Address;
+
+    return owner === zeroAddress ? null : owner;
+  }
+
+  /**
+   * Change the resolver for a name (via the Name Wrapper for wrapped names)
+   */
+  async setENSResolver(options: SetENSResolverOptions): Promise<TransactionResult> {
+    const { from, name, resolver, network, idempotencyKey } = options;
+    const ens = this.requireENSNetwork(network);
+    const node = ensNode(name);
+    const registryOwner = await this.getENSRegistryOwner(node, network);
+
+    const wrapped = this.isENSNameWrapper(registryOwner, network);
+    const data = wrapped
+      ? encodeFunctionData({
+          abi: ENS_NAME_WRAPPER_ABI,
+          functionName: "setResolver",
+          args: [node, resolver],
+        })
+      : encodeFunctionData({
+          abi: ENS_REGISTRY_ABI,
+          functionName: "setResolver",
+          args: [node, resolver],
+        });
+
+    return this.sendTransaction({
+      from,
+      transaction: {
+        to: wrapped ? ens.nameWrapper : ens.registry,
+        data,
+      },
+      network,
+      idempotencyKey,
+    });
+  }
+
+  /**
+   * Transfer ownership of a name (via the Name Wrapper for wrapped names)
+   */
+  async setENSOwner(options: SetENSOwnerOptions): Promise<TransactionResult> {
+    const { from, name, newOwner, network, idempotencyKey } = options;
+    const ens = this.requireENSNetwork(network);
+    const node = ensNode(name);
+    const registryOwner = await this.getENSRegistryOwner(node, network);
+
+    const wrapped = this.isENSNameWrapper(registryOwner, network);
+    const data = wrapped
+      ? encodeFunctionData({
+          abi: ENS_NAME_WRAPPER_ABI,
+          functionName: "safeTransferFrom",
+          args: [from, newOwner, hexToBigInt(node), 1n, "0x"],
+        })
+      : encodeFunctionData({
+          abi: ENS_REGISTRY_ABI,
+          functionName: "setOwner",
+          args: [node, newOwner],
+        });
+
+    return this.sendTransaction({
+      from,
+      transaction: {
+        to: wrapped ? ens.nameWrapper : ens.registry,
+        data,
+      },
+      network,
+      idempotencyKey,
+    });
+  }
+
+  private async requireENSResolver(name: string, network: NetworkId): Promise<Address> {
+    const resolverAddress = await this.getENSResolver(name, network);
+
+    if (!resolverAddress) {
+      throw new BlockchainError("ens_not_resolved", `ENS name ${name} has no resolver; call setENSResolver first`, {
+        network,
+      });
+    }
+
+    return resolverAddress;
+  }
+
+  private async getENSRegistryOwner(node: Hex, network: NetworkId): Promise<Address> {
+    return (await this.readContract({
+      contractAddress: getENSDeployment(network).contracts.registry,
+      abi: ENS_REGISTRY_ABI,
+      functionName: "owner",
+      args: [node],
+      network,
+    })) as Address;
+  }
+
+  private isENSNameWrapper(address: Address, network: NetworkId): boolean {
+    return address.toLowerCase() === getENSDeployment(network).contracts.nameWrapper.toLowerCase();
+  }
+
+  /**
+   * ENS contracts for a network that hosts ENS itself; ENS transactions
+   * can't be sent on networks that only resolve through L1
+   */
+  private requireENSNetwork(network: NetworkId): ENSContracts {
+    const ens = getENSDeployment(network);
+
+    if (ens.network !== network) {
+      throw new Error(`ENS transactions must be sent on ${ens.network}, not ${network}`);
+    }
+
+    return ens.contracts;
+  }
+
+  /**
+   * Resolve an address-or-ENS-name to an address
+   * 
+   * Raw addresses are returned as-is. Names are resolved on the ENS
+   * deployment registered for `network` (e.g. Ethereum for Base).
+   * Throws if the name doesn't resolve, so funds are never sent to the zero address.
+   */
+  async resolveAddress(addressOrName: AddressOrENSName, network: NetworkId): Promise<Address> {
+    if (isAddress(addressOrName, { strict: false })) {
+      return addressOrName as Address;
+    }
+
+    const resolved = await this.resolveENSName(addressOrName, network);
+
+    if (!resolved) {
+      throw new BlockchainError("ens_not_resolved", `ENS name ${addressOrName} does not resolve to an address`, {
+        network,
+      });
+    }
+
+    return resolved;
+  }
+
+  // ==========================================================================
+  // 2. TRANSFER NATIVE ASSET (ETH)
+  // ==========================================================================
+
+  /**
+   * Transfer native ETH to another address
+   * 
+   * @example
+   * ```ts
+   * const result = await blockchain.transferNative({
+   *   from: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
+   *   to: "0x1234567890123456789012345678901234567890",
+   *   amountInEth: "0.1",
+   *   network: "base-sepolia"
+   * });
+   * ```
+   */
+  async transferNative(options: TransferNativeOptions): Promise<TransferResult> {
+    const { from, amountInEth, network, idempotencyKey } = options;
+
+    const to = await this.resolveAddress(options.to, network);
+    const value = parseEther(amountInEth);
+
+    const transaction: TransactionRequestEIP1559 = {
+      to,
+      value,
+    };
+
+    const result = await this.sendTransaction({
+      from,
+      transaction,
+      network,
+      idempotencyKey,
+    });
+
+    return { ...result, to };
+  }
+
+  // ==========================================================================
+  // 3. TRANSFER ERC-20 TOKEN
+  // ==========================================================================
+
+  /**
+   * Transfer ERC-20 tokens to another address
+   * 
+   * @example
+   * ```ts
+   * // Transfer 100 USDC (6 decimals)
+   * const result = await blockchain.transferERC20({
+   *   from: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
+   *   to: "0x1234567890123456789012345678901234567890",
+   *   tokenAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+   *   amount: parseUnits("100", 6),
+   *   network: "base"
+   * });
+   * ```
+   */
+  async transferERC20(options: TransferERC20Options): Promise<TransferResult> {
+    const { from, tokenAddress, amount, network, idempotencyKey, resource, gas, onSubmit } = options;
+
+    const to = await this.resolveAddress(options.to, network);
+
+    const data = encodeFunctionData({
+      abi: ERC20_ABI,
+      functionName: "transfer",
+      args: [to, amount],
+    });
+
+    const transaction: TransactionRequestEIP1559 = {
+      to: tokenAddress,
       data,
+      gas,
     };
 
-    return this.sendTransaction({
+    const result = await this.sendTransaction({
+      from,
+      transaction,
+      network,
+      idempotencyKey,
+      resource,
+      onSubmit,
+    });
+
+    return { ...result, to };
+  }
+
+  // ==========================================================================
+  // 4. APPROVE ERC-20 TOKEN
+  // ==========================================================================
+
+  /**
+   * Approve a spender to use your ERC-20 tokens
+   * 
+   * @example
+   * ```ts
+   * // Approve Uniswap to spend 1000 USDC
+   * const result = await blockchain.approveERC20({
+   *   from: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
+   *   spender: "0xUniswapRouterAddress",
+   *   tokenAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+   *   amount: parseUnits("1000", 6),
+   *   network: "base"
+   * });
+   * ```
+   */
+  async approveERC20(options: ApproveERC20Options): Promise<ApprovalResult> {
+    const { from, tokenAddress, amount, network, idempotencyKey } = options;
+
+    const spender = await this.resolveAddress(options.spender, network);
+
+    const data = encodeFunctionData({
+      abi: ERC20_ABI,
+      functionName: "approve",
+      args: [spender, amount],
+    });
+
+    const transaction: TransactionRequestEIP1559 = {
+      to: tokenAddress,
+      data,
+    };
+
+    const result = await this.sendTransaction({
       from,
       transaction,
       network,
       idempotencyKey,
     });
+
+    this.report({
+      type: "approval_sent",
+      network,
+      token: tokenAddress,
+      spender,
+      amount,
+      transactionHash: result.transactionHash,
+    });
+
+    return { ...result, spender };
   }
 
   /**
    * Approve unlimited amount (max uint256)
    * 
    * ⚠️ USE WITH CAUTION: This gives unlimited approval
+   * 
+   * @deprecated Use {@link ensureAllowance}, which approves only what's
+   * needed (with optional headroom), and {@link revokeAllowance} when done
    */
   async approveERC20Unlimited(
     options: Omit<ApproveERC20Options, "amount">
-  ): Promise<TransactionResult> {
-    const maxUint256 = BigInt("0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff");
-    
+  ): Promise<ApprovalResult> {
     return this.approveERC20({
       ...options,
       amount: maxUint256,
@@ -441,6 +1399,174 @@ export class BlockchainOperations {
     return allowance >= options.requiredAmount;
   }
 
+  // ==========================================================================
+  // 5b. ALLOWANCE MANAGEMENT
+  // ==========================================================================
+
+  /**
+   * Make sure a spender may spend at least `amount`, approving only if the
+   * current allowance falls short
+   * 
+   * The approval is for `amount` plus `headroomBps`, never unlimited. For
+   * tokens that refuse to change one non-zero allowance to another (USDT),
+   * the allowance is set to zero first. Transactions are confirmed before
+   * returning, so the spender can use the allowance at once.
+   * 
+   * @example
+   * ```ts
+   * const { transactionHash } = await blockchain.ensureAllowance({
+   *   from: account.address,
+   *   spender: routerAddress,
+   *   tokenAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+   *   amount: parseUnits("100", 6),
+   *   network: "base",
+   *   headroomBps: 1000, // approve 110 USDC
+   * });
+   * if (!transactionHash) console.log("Allowance already sufficient");
+   * ```
+   */
+  async ensureAllowance(options: EnsureAllowanceOptions): Promise<AllowanceResult> {
+    const { from, tokenAddress, amount, network, idempotencyKey, confirmations = 1 } = options;
+    const headroomBps = options.headroomBps ?? this.allowance.headroomBps ?? 0;
+
+    const spender = await this.resolveAddress(options.spender, network);
+    const previousAllowance = await this.checkAllowance({ owner: from, spender, tokenAddress, network });
+
+    if (previousAllowance >= amount) {
+      return { spender, previousAllowance, allowance: previousAllowance };
+    }
+
+    const target = amount + (amount * BigInt(headroomBps)) / 10_000n;
+    const allowance = target > maxUint256 ? maxUint256 : target;
+    const approve = (value: bigint, key?: string) =>
+      this.approveAndConfirm({ from, spender, tokenAddress, amount: value, network, idempotencyKey: key }, confirmations);
+
+    const result: AllowanceResult = { spender, previousAllowance, allowance };
+    const resetFirst =
+      previousAllowance > 0n && (options.resetToZero ?? this.requiresAllowanceReset(tokenAddress, network));
+
+    if (resetFirst) {
+      result.resetTransactionHash = await approve(0n, idempotencyKey && deriveIdempotencyKey(idempotencyKey, "reset"));
+    }
+
+    try {
+      result.transactionHash = await approve(allowance, idempotencyKey);
+    } catch (error) {
+      // Unknown USDT-style token: reset, then approve again
+      const canReset = !resetFirst && previousAllowance > 0n && options.resetToZero !== false;
+      if (!canReset || !(error instanceof TransactionRevertedError)) {
+        throw error;
+      }
+
+      result.resetTransactionHash = await approve(0n, idempotencyKey && deriveIdempotencyKey(idempotencyKey, "reset"));
+      result.transactionHash = await approve(allowance, idempotencyKey && deriveIdempotencyKey(idempotencyKey, "after-reset"));
+    }
+
+    return result;
+  }
+
+  /**
+   * Set a spender's allowance to zero; nothing is sent if it already is
+   * 
+   * @example
+   * ```ts
+   * await blockchain.revokeAllowance({ from: account.address, spender: routerAddress, tokenAddress: usdc, network: "base" });
+   * ```
+   */
+  async revokeAllowance(options: RevokeAllowanceOptions): Promise<AllowanceResult> {
+    const { from, tokenAddress, network, idempotencyKey, confirmations = 1 } = options;
+
+    const spender = await this.resolveAddress(options.spender, network);
+    const previousAllowance = await this.checkAllowance({ owner: from, spender, tokenAddress, network });
+
+    if (previousAllowance === 0n) {
+      return { spender, previousAllowance, allowance: 0n };
+    }
+
+    const transactionHash = await this.approveAndConfirm(
+      { from, spender, tokenAddress, amount: 0n, network, idempotencyKey },
+      confirmations
+    );
+
+    return { spender, previousAllowance, allowance: 0n, transactionHash };
+  }
+
+  /**
+   * List an owner's outstanding (non-zero) allowances
+   * 
+   * Checks every registered token (including bridged variants) against the
+   * contracts this library approves (LayerZero OFTs, CCIP routers), plus any
+   * extra tokens and spenders given. Networks whose RPC fails are skipped
+   * with a warning.
+   * 
+   * @example
+   * ```ts
+   * const approvals = await blockchain.auditAllowances({ owner: account.address, networks: ["base", "arbitrum"] });
+   * for (const entry of approvals) {
+   *   console.log(entry.network, entry.symbol, entry.spenderLabel, entry.unlimited ? "unlimited" : entry.allowance);
+   * }
+   * ```
+   */
+  async auditAllowances(options: AuditAllowancesOptions): Promise<AllowanceAuditEntry[]> {
+    const { owner, tokens = {}, spenders = {} } = options;
+    const networks = options.networks ?? listNetworks().map((config) => config.id);
+
+    const checks = networks.flatMap((network) => {
+      const networkTokens = dedupeAddresses([
+        ...Object.values(getNetwork(network).tokens).filter((token): token is Address => token !== undefined),
+        ...listAssets().flatMap((asset) => getAssetDeployments(asset.id, network).map((d) => d.address)),
+        ...(tokens[network] ?? []),
+      ]);
+      const knownSpenders = getKnownSpenders(network);
+      const networkSpenders = dedupeAddresses([
+        ...knownSpenders.map((known) => known.address),
+        ...(spenders[network] ?? []),
+      ]);
+
+      return networkTokens.flatMap((token) =>
+        networkSpenders.map(async (spender): Promise<AllowanceAuditEntry | undefined> => {
+          const allowance = await this.checkAllowance({ owner, spender, tokenAddress: token, network }).catch(
+            (error) => {
+              this.logger.warn(`Failed to read allowance of ${token} for ${spender} on ${network}: ${error.message}`, {
+                network,
+                token,
+                spender,
+              });
+              return 0n;
+            }
+          );
+
+          return allowance > 0n
+            ? {
+                network,
+                token,
+                symbol: getTokenSymbol(network, token) ?? findAsset(network, token)?.deployment.symbol,
+                spender,
+                spenderLabel: knownSpenders.find((known) => isAddressEqual(known.address, spender))?.label,
+                allowance,
+                unlimited: allowance >= maxUint256 / 2n,
+              }
+            : undefined;
+        })
+      );
+    });
+
+    const entries = await Promise.all(checks);
+    return entries.filter((entry): entry is AllowanceAuditEntry => entry !== undefined);
+  }
+
+  private async approveAndConfirm(options: ApproveERC20Options, confirmations: number): Promise<Hex> {
+    const { transactionHash } = await this.approveERC20(options);
+    await this.confirmTransaction({ transactionHash, network: options.network, confirmations });
+    return transactionHash;
+  }
+
+  private requiresAllowanceReset(tokenAddress: Address, network: NetworkId): boolean {
+    return [...(RESET_TO_ZERO_TOKENS[network] ?? []), ...(this.allowance.resetToZeroTokens?.[network] ?? [])].some(
+      (token) => isAddressEqual(token, tokenAddress)
+    );
+  }
+
   // ==========================================================================
   // 6. SEND TRANSACTION (Generic)
   // ==========================================================================
@@ -448,6 +1574,18 @@ export class BlockchainOperations {
   /**
    * Send a generic transaction
    * 
+   * The transaction is completed by {@link prepareTransaction} (chain ID,
+   * nonce, gas limit, EIP-1559 fees) before being signed and sent by CDP.
+   * Unless the transaction sets its own nonce, the nonce is leased from the
+   * instance's `NonceManager`, so concurrent sends from one account are
+   * submitted one at a time with consecutive nonces.
+   * If a spending policy is configured, the transaction is checked against
+   * it first and `SpendingPolicyError` is thrown when it is denied. Other
+   * failures are thrown as typed errors (see `toBlockchainError`).
+   * 
+   * In dry-run mode nothing is sent: the transaction is simulated (see
+   * {@link simulateTransaction}) and the result carries the simulation.
+   * 
    * @example
    * ```ts
    * const result = await blockchain.sendTransaction({
@@ -462,29 +1600,829 @@ export class BlockchainOperations {
    * ```
    */
   async sendTransaction(options: SendTransactionOptions): Promise<TransactionResult> {
-    const { from, transaction, network, idempotencyKey } = options;
+    const { from, network, idempotencyKey } = options;
+
+    if (this.dryRun) {
+      const result = await this.sendDryRun(options, this.dryRun);
+      this.reportSent(options, result);
+      return result;
+    }
+
+    // Keyed so a repeat that CDP answers with the original transaction isn't counted twice
+    const spend = await this.authorizeSpend({ ...this.describeTransaction(options), idempotencyKey });
+    const publicClient = this.getPublicClient(network);
+    let lease: NonceLease | undefined;
+
+    try {
+      if (options.transaction.nonce === undefined) {
+        lease = await this.nonces.acquire(from, network, () =>
+          publicClient.getTransactionCount({ address: from, blockTag: "pending" })
+        );
+      }
+
+      const prepared = await this.prepareTransaction(
+        lease ? { ...options, transaction: { ...options.transaction, nonce: lease.nonce } } : options
+      );
+
+      // Serialize the transaction
+      const serializedTx = serializeTransaction(prepared);
+
+      await options.onSubmit?.();
+
+      const result = await this.client.sendEvmTransaction(
+        from,
+        {
+          transaction: serializedTx,
+          network: getCdpNetwork(network) as any,
+        },
+        idempotencyKey && toIdempotencyKey(idempotencyKey)
+      );
+
+      const sent = { transactionHash: result.transactionHash as Hex };
+
+      if (lease) {
+        // A repeated idempotency key returns the earlier transaction, which
+        // used an earlier nonce; the leased one is then still free. If the
+        // nonce can't be looked up, resync from the chain rather than guess.
+        const usedNonce = idempotencyKey
+          ? await publicClient
+              .getTransaction({ hash: sent.transactionHash })
+              .then((transaction) => transaction.nonce, () => undefined)
+          : lease.nonce;
+        if (usedNonce === undefined) {
+          lease.release({ resync: true });
+        } else {
+          lease.commit(usedNonce);
+        }
+      } else if (prepared.nonce !== undefined) {
+        this.nonces.observe(from, network, prepared.nonce);
+      }
+
+      this.senders.set(`${network}:${sent.transactionHash.toLowerCase()}`, from);
+      if (this.senders.size > MAX_TRACKED_SENDERS) {
+        this.senders.delete(this.senders.keys().next().value!);
+      }
+
+      this.reportSent(options, sent);
+      return sent;
+    } catch (error) {
+      const failure = toBlockchainError(error, { network });
+      lease?.release({ resync: failure.code === "nonce_conflict" });
+
+      if (spend) {
+        await this.policy?.release(spend);
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Fill in chain ID, nonce, gas limit and EIP-1559 fees for a transaction
+   * 
+   * Fields already set on `options.transaction` are kept as-is. Fees come
+   * from recent fee history: `maxPriorityFeePerGas` is the configured reward
+   * percentile and `maxFeePerGas` is the next base fee times
+   * `baseFeeMultiplier` plus the priority fee. Throws if the resulting
+   * `maxFeePerGas` is above the configured ceiling.
+   */
+  async prepareTransaction(
+    options: SendTransactionOptions
+  ): Promise<TransactionSerializableEIP1559> {
+    const { from, transaction, network } = options;
+    const publicClient = this.getPublicClient(network);
+
+    const chainId = getNetwork(network).chainId;
+
+    const [nonce, gas, fees] = await Promise.all([
+      transaction.nonce ??
+        publicClient.getTransactionCount({ address: from, blockTag: "pending" }),
+      transaction.gas ?? this.estimateGasLimit(from, transaction, network),
+      this.estimateFees(transaction, network),
+    ]);
 
-    // Serialize the transaction
-    const serializedTx = serializeTransaction({
-      ...transaction,
-      chainId: 1, // CDP API will use the correct chainId based on network
+    this.checkFeeCeiling(options, fees.maxFeePerGas);
+
+    return {
+      to: transaction.to,
+      data: transaction.data,
+      value: transaction.value,
+      accessList: transaction.accessList,
+      chainId,
+      nonce,
+      gas,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
       type: "eip1559",
+    };
+  }
+
+  private async estimateGasLimit(
+    from: Address,
+    transaction: TransactionRequestEIP1559,
+    network: SendTransactionOptions["network"]
+  ): Promise<bigint> {
+    const estimate = await this.getPublicClient(network).estimateGas({
+      account: from,
+      to: transaction.to ?? undefined,
+      data: transaction.data,
+      value: transaction.value,
+    });
+
+    return this.addGasBuffer(estimate);
+  }
+
+  private addGasBuffer(gas: bigint): bigint {
+    const { gasLimitBufferBps = DEFAULT_GAS_LIMIT_BUFFER_BPS } = this.fees;
+    return (gas * BigInt(10_000 + gasLimitBufferBps)) / 10_000n;
+  }
+
+  private async estimateFees(
+    transaction: TransactionRequestEIP1559,
+    network: SendTransactionOptions["network"]
+  ): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    if (transaction.maxFeePerGas !== undefined && transaction.maxPriorityFeePerGas !== undefined) {
+      return {
+        maxFeePerGas: transaction.maxFeePerGas,
+        maxPriorityFeePerGas: transaction.maxPriorityFeePerGas,
+      };
+    }
+
+    const {
+      priorityFeePercentile = 50,
+      feeHistoryBlocks = 10,
+      baseFeeMultiplier = 2,
+    } = this.fees;
+
+    const history = await this.getPublicClient(network).getFeeHistory({
+      blockCount: feeHistoryBlocks,
+      rewardPercentiles: [priorityFeePercentile],
+      blockTag: "latest",
     });
 
-    const result = await this.client.sendEvmTransaction(
+    // Last entry is the base fee of the next (pending) block
+    const nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0n;
+    const rewards = (history.reward ?? [])
+      .map((blockRewards) => blockRewards[0] ?? 0n)
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const medianReward = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : 0n;
+
+    const maxPriorityFeePerGas = transaction.maxPriorityFeePerGas ?? medianReward;
+    const maxFeePerGas =
+      transaction.maxFeePerGas ??
+      (nextBaseFee * BigInt(Math.round(baseFeeMultiplier * 100))) / 100n + maxPriorityFeePerGas;
+
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas:
+        maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas,
+    };
+  }
+
+  private checkFeeCeiling(options: SendTransactionOptions, maxFeePerGas: bigint): void {
+    const { network } = options;
+    const ceiling = options.maxFeePerGasCeiling ?? this.getMaxFeePerGasCeiling(network);
+
+    if (ceiling !== undefined && maxFeePerGas > ceiling) {
+      throw new FeeCeilingError(
+        `maxFeePerGas ${formatUnits(maxFeePerGas, 9)} gwei exceeds the ` +
+        `${formatUnits(ceiling, 9)} gwei ceiling on ${network}`,
+        { maxFeePerGas, ceiling },
+        { network }
+      );
+    }
+  }
+
+  private getMaxFeePerGasCeiling(network: string): bigint | undefined {
+    const { maxFeePerGasCeiling } = this.fees;
+
+    if (typeof maxFeePerGasCeiling === "bigint") {
+      return maxFeePerGasCeiling;
+    }
+
+    return maxFeePerGasCeiling?.[network];
+  }
+
+  // ==========================================================================
+  // 6b. TRANSACTION CONFIRMATION
+  // ==========================================================================
+
+  /**
+   * Wait for a transaction to be mined with the given number of confirmations
+   * 
+   * Replacements (speed-up, cancel, or another transaction with the same
+   * nonce) are followed and reported in `replacement`. Reverted transactions
+   * resolve with `status: "reverted"` rather than throwing; a timeout throws
+   * `ReceiptTimeoutError` (code `transaction_dropped` if the node no longer
+   * knows the transaction).
+   * 
+   * In dry-run mode the receipt is built from the simulation, at once.
+   * 
+   * @example
+   * ```ts
+   * const { transactionHash } = await blockchain.transferERC20({ ... });
+   * const receipt = await blockchain.waitForReceipt({
+   *   transactionHash,
+   *   network: "base",
+   *   confirmations: 2,
+   * });
+   * if (receipt.status === "reverted") throw new Error("Transfer reverted");
+   * ```
+   */
+  async waitForReceipt(options: WaitForReceiptOptions): Promise<TransactionReceiptResult> {
+    const {
+      transactionHash,
+      network,
+      confirmations = 1,
+      timeoutMs = DEFAULT_RECEIPT_TIMEOUT_MS,
+      pollIntervalMs,
+    } = options;
+
+    if (this.dryRun) {
+      return this.getSimulatedReceipt(transactionHash, this.dryRun);
+    }
+
+    const publicClient = this.getPublicClient(network);
+    let replacement: TransactionReceiptResult["replacement"];
+
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await publicClient.waitForTransactionReceipt({
+        hash: transactionHash,
+        confirmations,
+        timeout: timeoutMs,
+        pollingInterval: pollIntervalMs,
+        onReplaced: (replaced) => {
+          replacement = {
+            reason: replaced.reason,
+            originalTransactionHash: replaced.replacedTransaction.hash,
+          };
+        },
+      });
+    } catch (error) {
+      if (error instanceof WaitForTransactionReceiptTimeoutError) {
+        const pending = await publicClient
+          .getTransaction({ hash: transactionHash })
+          .catch(() => null);
+
+        const from = options.from ?? this.senders.get(`${network}:${transactionHash.toLowerCase()}`);
+        if (!pending && from) {
+          // The dropped transaction's nonce is free again; other accounts are unaffected
+          this.nonces.reset(network, from);
+        }
+
+        throw new ReceiptTimeoutError(
+          pending
+            ? `Timed out after ${timeoutMs}ms waiting for ${confirmations} confirmation(s) of ${transactionHash}`
+            : `Transaction ${transactionHash} was dropped: not found on ${network} after ${timeoutMs}ms`,
+          { transactionHash, dropped: !pending },
+          { network, cause: error }
+        );
+      }
+      throw toBlockchainError(error, { network });
+    }
+
+    return {
+      transactionHash: receipt.transactionHash,
+      status: receipt.status,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.effectiveGasPrice,
+      logs: receipt.logs,
+      replacement,
+    };
+  }
+
+  /**
+   * Wait for a receipt like {@link waitForReceipt}, but throw if the transaction reverted
+   * 
+   * The revert is thrown as `TransactionRevertedError` (or, for ERC-20
+   * balance and allowance reverts, `InsufficientFundsError` /
+   * `AllowanceTooLowError`), with the reason decoded by replaying the
+   * transaction on the state of the block before it.
+   */
+  async confirmTransaction(options: WaitForReceiptOptions): Promise<TransactionReceiptResult> {
+    const receipt = await this.waitForReceipt(options);
+
+    if (receipt.status === "reverted") {
+      const { network } = options;
+      throw fromRevert(
+        await this.getRevertDetails(receipt, network),
+        { transactionHash: receipt.transactionHash },
+        { network }
+      );
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Decode why a mined transaction reverted by calling it again on the state
+   * of the block before; falls back to a bare "execution reverted" (e.g. if
+   * the node has pruned that state)
+   */
+  async getRevertDetails(receipt: TransactionReceiptResult, network: NetworkId): Promise<RevertDetails> {
+    const publicClient = this.getPublicClient(network);
+
+    try {
+      const transaction = await publicClient.getTransaction({ hash: receipt.transactionHash });
+      await publicClient.call({
+        account: transaction.from,
+        to: transaction.to,
+        data: transaction.input,
+        value: transaction.value,
+        gas: transaction.gas,
+        blockNumber: receipt.blockNumber - 1n,
+      });
+    } catch (error) {
+      if (error instanceof BaseError) {
+        return decodeRevert(revertData(error));
+      }
+    }
+
+    return decodeRevert();
+  }
+
+  // ==========================================================================
+  // 6c. TYPED DATA SIGNING
+  // ==========================================================================
+
+  /**
+   * Sign EIP-712 typed data with a CDP account
+   * 
+   * @example
+   * ```ts
+   * const signature = await blockchain.signTypedData({
+   *   from: account.address,
+   *   domain: { name: "Mail", version: "1", chainId: 8453, verifyingContract: "0x..." },
+   *   types: { Mail: [{ name: "contents", type: "string" }] },
+   *   primaryType: "Mail",
+   *   message: { contents: "Hello" },
+   * });
+   * ```
+   */
+  async signTypedData(options: SignTypedDataOptions): Promise<Hex> {
+    const { from, domain, types, primaryType, message } = options;
+
+    // The API takes plain JSON: the domain type is listed explicitly and
+    // uint values are sent as decimal strings
+    try {
+      const result = await this.client.signEvmTypedData(from, {
+        domain: {
+          ...domain,
+          chainId: domain.chainId !== undefined ? Number(domain.chainId) : undefined,
+        },
+        types: { EIP712Domain: getTypesForEIP712Domain({ domain }), ...types },
+        primaryType,
+        message: toJsonValue(message) as Record<string, unknown>,
+      });
+
+      return result.signature as Hex;
+    } catch (error) {
+      throw toBlockchainError(error);
+    }
+  }
+
+  // ==========================================================================
+  // 6d. SPENDING POLICY
+  // ==========================================================================
+
+  /**
+   * Get the spending policy, if one is configured
+   */
+  getSpendingPolicy(): SpendingPolicy | undefined {
+    return this.policy;
+  }
+
+  /**
+   * Check a spend against the spending policy without recording it
+   *
+   * Always allowed when no policy is configured.
+   *
+   * @example
+   * ```ts
+   * const decision = await blockchain.checkSpend({
+   *   kind: "transfer",
+   *   network: "base",
+   *   token: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+   *   amount: parseUnits("50", 6),
+   *   to: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
+   *   resource: "https://api.example.com/premium-data",
+   * });
+   * if (!decision.allowed) console.log(decision.denial.reason);
+   * ```
+   */
+  async checkSpend(intent: SpendIntent): Promise<PolicyDecision> {
+    if (!this.policy) {
+      return { allowed: true };
+    }
+    return this.policy.evaluate(await this.describeSpend(intent));
+  }
+
+  /**
+   * Check a spend against the spending policy and record it against the
+   * budgets, throwing `SpendingPolicyError` if denied
+   *
+   * For spends that don't go through {@link sendTransaction}, e.g. signed
+   * transfer authorizations. Returns undefined when no policy is configured
+   * or the intent's `idempotencyKey` was recorded within CDP's idempotency
+   * window, which debits nothing new; in dry-run mode
+   * the spend is only checked.
+   */
+  async authorizeSpend(intent: SpendIntent): Promise<SpendRecord | undefined> {
+    if (!this.policy) {
+      return undefined;
+    }
+
+    if (this.dryRun) {
+      const decision = await this.checkSpend(intent);
+      if (!decision.allowed) {
+        throw new SpendingPolicyError(decision.denial);
+      }
+      return undefined;
+    }
+
+    return this.policy.authorize(await this.describeSpend(intent));
+  }
+
+  /**
+   * What a transaction spends: an ERC-20 `transfer` / `transferFrom`, an
+   * ERC-20 approval, a native transfer, or a contract call's native value
+   * (a bridge fee for bridge sends)
+   */
+  private describeTransaction(options: SendTransactionOptions): SpendIntent {
+    const { transaction, network, resource, bridgeFee } = options;
+    const to = transaction.to ?? zeroAddress;
+    const value = transaction.value ?? 0n;
+
+    if (transaction.data && transaction.data !== "0x") {
+      try {
+        const call = decodeFunctionData({ abi: ERC20_ABI, data: transaction.data });
+        switch (call.functionName) {
+          case "transfer": {
+            const [recipient, amount] = call.args;
+            return { kind: "transfer", network, token: to, amount, to: recipient, resource };
+          }
+          case "transferFrom": {
+            const [, recipient, amount] = call.args;
+            return { kind: "transfer", network, token: to, amount, to: recipient, resource };
+          }
+          case "approve":
+          case "increaseAllowance": {
+            const [spender, amount] = call.args;
+            return { kind: "approval", network, token: to, amount, to: spender, resource };
+          }
+        }
+      } catch {
+        // Not an ERC-20 call
+      }
+
+      return { kind: bridgeFee ? "bridge_fee" : "call", network, token: "native", amount: value, to, resource };
+    }
+
+    return { kind: "transfer", network, token: "native", amount: value, to, resource };
+  }
+
+  /**
+   * Attach the asset id and decimals the policy's token amounts are parsed with
+   */
+  private async describeSpend(intent: SpendIntent): Promise<Spend> {
+    if (intent.token === "native") {
+      const { symbol, decimals } = getNetwork(intent.network).nativeCurrency;
+      return { ...intent, asset: symbol, decimals };
+    }
+
+    const match = findAsset(intent.network, intent.token);
+    if (match) {
+      return { ...intent, asset: match.asset.id, decimals: match.asset.decimals };
+    }
+
+    // Unregistered tokens can only be matched by address
+    const { decimals } = await this.getTokenInfo(intent.token, intent.network);
+    return { ...intent, decimals };
+  }
+
+  // ==========================================================================
+  // 6e. SIMULATION & DRY RUN
+  // ==========================================================================
+
+  /**
+   * Simulate a transaction without signing or sending it
+   *
+   * Reports whether it would succeed, the revert reason if not, expected gas
+   * and fees, return data, balance changes and the spending policy decision.
+   * Uses `eth_simulateV1` where the RPC supports it, falling back to
+   * `eth_call` and `eth_estimateGas`.
+   *
+   * @example
+   * ```ts
+   * const simulation = await blockchain.simulateTransaction({
+   *   from: account.address,
+   *   transaction: {
+   *     to: usdcAddress,
+   *     data: encodeFunctionData({ abi: ERC20_ABI, functionName: "transfer", args: [recipient, amount] }),
+   *   },
+   *   network: "base",
+   * });
+   *
+   * if (!simulation.success) console.log("Would revert:", simulation.revertReason);
+   * for (const change of simulation.balanceChanges) console.log(change.account, change.token, change.delta);
+   * ```
+   */
+  async simulateTransaction(options: SimulateTransactionOptions): Promise<SimulationResult> {
+    const { from, transaction, network, precededBy = [] } = options;
+    const publicClient = this.getPublicClient(network);
+
+    const [execution, nonce, fees, policy] = await Promise.all([
+      this.executeSimulation(options),
+      transaction.nonce ??
+        publicClient
+          .getTransactionCount({ address: from, blockTag: "pending" })
+          .then((count) => count + precededBy.filter((tx) => isAddressEqual(tx.from, from)).length),
+      this.estimateFees(transaction, network),
+      this.checkSpend(this.describeTransaction(options)),
+    ]);
+
+    const gas = transaction.gas ?? this.addGasBuffer(execution.gasNeeded);
+
+    const prepared: TransactionSerializableEIP1559 = {
+      to: transaction.to,
+      data: transaction.data,
+      value: transaction.value,
+      accessList: transaction.accessList,
+      chainId: getNetwork(network).chainId,
+      nonce,
+      gas,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      type: "eip1559",
+    };
+
+    return {
+      success: execution.success,
+      network,
       from,
-      {
-        transaction: serializedTx,
-        network: network as any,
-      },
-      idempotencyKey
-    );
+      transaction: prepared,
+      id: keccak256(serializeTransaction(prepared)),
+      gasUsed: execution.gasUsed,
+      maxFee: gas * fees.maxFeePerGas,
+      returnData: execution.returnData,
+      revertReason: execution.revertReason,
+      balanceChanges: !execution.success
+        ? []
+        : execution.logs
+          ? balanceChangesFromLogs(execution.logs)
+          : balanceChangesFromCall(from, transaction),
+      logs: execution.logs ?? [],
+      policy,
+      method: execution.logs ? "eth_simulateV1" : "eth_call",
+    };
+  }
+
+  /**
+   * A dry-run copy of this instance: same RPC, fee settings and spending
+   * policy, but every transaction is simulated instead of sent
+   *
+   * Transactions simulated by the copy are applied before its later ones on
+   * the same network (an approval before the send that needs it), and the
+   * waits in multi-step flows such as ENS registration are skipped.
+   *
+   * @example
+   * ```ts
+   * const dryRun = blockchain.withDryRun();
+   * await dryRun.registerENSName({ owner, name: "myname", durationInYears: 1, network: "ethereum" });
+   *
+   * for (const simulation of dryRun.getSimulations()) {
+   *   console.log(simulation.success, simulation.gasUsed, simulation.revertReason);
+   * }
+   * ```
+   */
+  withDryRun(): BlockchainOperations {
+    return new BlockchainOperations(this.client, {
+      provider: this.provider,
+      fees: this.fees,
+      allowance: this.allowance,
+      policy: this.policy,
+      dryRun: true,
+      logger: this.logger,
+      events: this.events,
+    });
+  }
+
+  isDryRun(): boolean {
+    return this.dryRun !== undefined;
+  }
+
+  /**
+   * Every transaction simulated in dry-run mode so far, in order
+   */
+  getSimulations(): SimulationResult[] {
+    return [...(this.dryRun?.simulations ?? [])];
+  }
+
+  /**
+   * sendTransaction in dry-run mode: simulate on top of the session's
+   * earlier transactions, and fail where a real send would
+   */
+  private async sendDryRun(
+    options: SendTransactionOptions,
+    session: DryRunSession
+  ): Promise<TransactionResult> {
+    const { from, transaction, network } = options;
+    const delaySeconds = session.delays[network];
+    delete session.delays[network];
+
+    const simulation = await this.simulateTransaction({
+      ...options,
+      precededBy: session.applied.filter((tx) => tx.network === network),
+      delaySeconds,
+    });
+    session.simulations.push(simulation);
+
+    if (!simulation.policy.allowed) {
+      throw new SpendingPolicyError(simulation.policy.denial);
+    }
+    this.checkFeeCeiling(options, simulation.transaction.maxFeePerGas!);
+
+    if (!simulation.success) {
+      throw fromRevert(decodeRevert(simulation.returnData), { simulated: true }, { network });
+    }
+
+    session.applied.push({ network, from, transaction, delaySeconds });
+    return { transactionHash: simulation.id, simulation };
+  }
+
+  private getSimulatedReceipt(id: Hex, session: DryRunSession): TransactionReceiptResult {
+    const simulation = session.simulations.find((s) => s.id === id);
+
+    if (!simulation) {
+      throw new Error(`Dry run: ${id} is not a simulated transaction`);
+    }
 
     return {
-      transactionHash: result.transactionHash as Hex,
+      transactionHash: id,
+      status: simulation.success ? "success" : "reverted",
+      blockNumber: 0n,
+      gasUsed: simulation.gasUsed,
+      effectiveGasPrice: simulation.transaction.maxFeePerGas!,
+      logs: simulation.logs,
     };
   }
 
+  /**
+   * Run a transaction (after any preceding ones) with eth_simulateV1, or
+   * alone with eth_call where that isn't supported
+   *
+   * Only a missing eth_simulateV1 falls back; any other failure is thrown.
+   * Without it, transactions that depend on preceding ones can't be
+   * simulated, so that throws too.
+   */
+  private async executeSimulation(options: SimulateTransactionOptions): Promise<{
+    success: boolean;
+    returnData: Hex;
+    revertReason?: string;
+    gasUsed: bigint;
+    /** Peak gas, before refunds; what the gas limit must cover */
+    gasNeeded: bigint;
+    logs?: Log[];
+  }> {
+    const { from, transaction, network, stateOverride, precededBy = [], delaySeconds } = options;
+    const publicClient = this.getPublicClient(network);
+    const steps = [...precededBy, { from, transaction, delaySeconds }];
+
+    try {
+      // Block times are only pinned when a step has to wait (e.g. an ENS commitment)
+      let time: bigint | undefined;
+      if (steps.some((step) => step.delaySeconds)) {
+        time = (await publicClient.getBlock({ blockTag: "latest" })).timestamp;
+      }
+
+      const blocks = await publicClient.simulateBlocks({
+        blocks: steps.map((step, index) => {
+          if (time !== undefined) {
+            time += 1n + BigInt(step.delaySeconds ?? 0);
+          }
+          return {
+            calls: [
+              {
+                account: step.from,
+                to: step.transaction.to ?? undefined,
+                data: step.transaction.data,
+                value: step.transaction.value,
+              },
+            ],
+            stateOverrides: index === 0 ? stateOverride : undefined,
+            blockOverrides: time !== undefined ? { time } : undefined,
+          };
+        }),
+        traceTransfers: true,
+      });
+
+      const call = blocks[blocks.length - 1].calls[0];
+      const success = call.status === "success";
+
+      return {
+        success,
+        returnData: call.data,
+        revertReason: success ? undefined : decodeRevert(call.data).reason,
+        gasUsed: call.gasUsed,
+        gasNeeded: call.maxUsedGas ?? call.gasUsed,
+        logs: call.logs ?? [],
+      };
+    } catch (error) {
+      if (!isMethodUnsupported(error)) {
+        throw toBlockchainError(error, { network });
+      }
+      if (precededBy.length > 0) {
+        throw new BlockchainError(
+          "simulation_unsupported",
+          `The ${network} RPC doesn't support eth_simulateV1, so the transaction can't be simulated after the ` +
+            `${precededBy.length} before it`,
+          { cause: error, network }
+        );
+      }
+      // RPC without eth_simulateV1: simulate the transaction alone
+    }
+
+    const request = {
+      account: from,
+      to: transaction.to ?? undefined,
+      data: transaction.data,
+      value: transaction.value,
+      stateOverride,
+    };
+
+    try {
+      const [{ data = "0x" }, gasUsed] = await Promise.all([
+        publicClient.call(request),
+        publicClient.estimateGas(request),
+      ]);
+      return { success: true, returnData: data, gasUsed, gasNeeded: gasUsed };
+    } catch (error) {
+      if (!(error instanceof BaseError && /revert/i.test(error.message))) {
+        throw toBlockchainError(error, { network });
+      }
+
+      const data = revertData(error);
+      return {
+        success: false,
+        returnData: data ?? "0x",
+        revertReason: data ? decodeRevert(data).reason : error.shortMessage,
+        gasUsed: 0n,
+        gasNeeded: 0n,
+      };
+    }
+  }
+
+  // ==========================================================================
+  // 6f. PROGRESS EVENTS & LOGGING
+  // ==========================================================================
+
+  /**
+   * Call `listener` for every progress event from this instance, its bridges
+   * and CREs, and its dry-run copies; returns a function that unsubscribes
+   * 
+   * @example
+   * ```ts
+   * const unsubscribe = blockchain.onProgress((event) => {
+   *   if (event.type === "bridge_submitted") ui.showBridge(event.transactionHash);
+   * });
+   * ```
+   */
+  onProgress(listener: ProgressListener): () => void {
+    return this.events.on(listener);
+  }
+
+  /**
+   * Iterate progress events as they happen (see {@link onProgress}), until
+   * the loop is left or `signal` aborts
+   */
+  progressEvents(options: { signal?: AbortSignal } = {}): AsyncIterableIterator<ProgressEvent> {
+    return this.events.stream(options);
+  }
+
+  /**
+   * Emit a progress event and log it; used by the bridges and the CRE
+   */
+  report(data: ProgressEventData): void {
+    const event: ProgressEvent = { ...data, timestamp: Date.now(), dryRun: this.dryRun ? true : undefined };
+    this.logger[getProgressLogLevel(event)](describeProgress(event), event);
+    this.events.emit(event);
+  }
+
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  private reportSent(options: SendTransactionOptions, result: TransactionResult): void {
+    this.report({
+      type: "transaction_sent",
+      network: options.network,
+      from: options.from,
+      to: options.transaction.to ?? undefined,
+      transactionHash: result.transactionHash,
+    });
+  }
+
   // ==========================================================================
   // 7. READ CONTRACT (Read-only calls)
   // ==========================================================================
@@ -492,11 +2430,8 @@ export class BlockchainOperations {
   /**
    * Read data from a contract (view/pure functions)
    * 
-   * ⚠️ NOTE: CDP SDK doesn't have native read support.
-   * This is a placeholder. In production, you'd use:
-   * - viem's publicClient.readContract()
-   * - ethers.js Contract.call()
-   * - Or a third-party RPC provider
+   * CDP doesn't expose reads, so the call is sent as an `eth_call` through the
+   * network's RPC public client and decoded against the supplied ABI.
    * 
    * @example
    * ```ts
@@ -510,47 +2445,34 @@ export class BlockchainOperations {
    * ```
    */
   async readContract(options: ReadContractOptions): Promise<unknown> {
-    const { contractAddress, abi, functionName, args = [], network } = options;
-
-    // Encode the function call
-    const data = encodeFunctionData({
-      abi: abi as any,
-      functionName,
-      args,
-    });
-
-    console.warn(
-      "⚠️ CDP SDK doesn't support direct contract reads. " +
-      "Use viem publicClient or ethers.js for read operations."
-    );
-
-    // In a real implementation, you would:
-    // 1. Use viem's createPublicClient() with a public RPC
-    // 2. Or use ethers.js with a provider
-    // 3. Or use a service like Alchemy/Infura
+    const { contractAddress, abi, functionName, args = [], network, blockTag, blockNumber } = options;
+
+    try {
+      return await this.provider.readContract(network, {
+        address: contractAddress,
+        abi,
+        functionName,
+        args,
+        blockTag,
+        blockNumber,
+      });
+    } catch (error) {
+      throw toBlockchainError(error, { network });
+    }
+  }
 
-    throw new Error(
-      "Read operations are not supported directly by CDP SDK. " +
-      "Please use viem publicClient or ethers.js for read-only calls."
-    );
+  /**
+   * Get the viem public client used for reads on a network
+   */
+  getPublicClient(network: ReadContractOptions["network"]): PublicClient {
+    return this.provider.getPublicClient(network);
+  }
 
-    // Example implementation with viem (commented out):
-    /*
-    import { createPublicClient, http } from 'viem';
-    import { mainnet, base } from 'viem/chains';
-    
-    const client = createPublicClient({
-      chain: network === 'ethereum' ? mainnet : base,
-      transport: http()
-    });
-    
-    return await client.readContract({
-      address: contractAddress,
-      abi: abi as any,
-      functionName,
-      args
-    });
-    */
+  /**
+   * Get the nonce manager that hands out nonces for sendTransaction
+   */
+  getNonceManager(): NonceManager {
+    return this.nonces;
   }
 
   // ==========================================================================
@@ -560,7 +2482,7 @@ export class BlockchainOperations {
   /**
    * Get ERC-20 token information
    */
-  async getTokenInfo(tokenAddress: Address, network: "ethereum" | "base" | "ethereum-sepolia" | "base-sepolia"): Promise<TokenInfo> {
+  async getTokenInfo(tokenAddress: Address, network: NetworkId): Promise<TokenInfo> {
     const [name, symbol, decimals, totalSupply] = await Promise.all([
       this.readContract({
         contractAddress: tokenAddress,
@@ -602,7 +2524,7 @@ export class BlockchainOperations {
   async getERC20Balance(
     tokenAddress: Address,
     accountAddress: Address,
-    network: "ethereum" | "base" | "ethereum-sepolia" | "base-sepolia"
+    network: NetworkId
   ): Promise<bigint> {
     const balance = await this.readContract({
       contractAddress: tokenAddress,
@@ -629,3 +2551,120 @@ export class BlockchainOperations {
     return parseUnits(amount, decimals);
   }
 }
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether an RPC error means the method isn't available on the node, as
+ * opposed to the call itself failing
+ */
+function isMethodUnsupported(error: unknown): boolean {
+  if (!(error instanceof BaseError)) {
+    return false;
+  }
+
+  const unsupported = error.walk(
+    (cause) => cause instanceof MethodNotFoundRpcError || cause instanceof MethodNotSupportedRpcError
+  );
+
+  // Some nodes report it as a generic error with only a message
+  return (
+    unsupported !== null ||
+    /method.{0,40}(not (found|supported|available|exist)|does not exist|unsupported)|unsupported method/i.test(
+      error.message
+    )
+  );
+}
+
+/**
+ * Net balance changes from the ERC-20 `Transfer` events (and, with
+ * traceTransfers, native transfers) a simulated transaction emitted
+ */
+function balanceChangesFromLogs(logs: Log[]): BalanceChange[] {
+  const changes = new Map<string, BalanceChange>();
+  const add = (account: Address, token: Address | "native", delta: bigint) => {
+    if (account === zeroAddress) {
+      return; // Mint or burn
+    }
+    const key = `${account.toLowerCase()}:${token.toLowerCase()}`;
+    const change = changes.get(key) ?? { account, token, delta: 0n };
+    change.delta += delta;
+    changes.set(key, change);
+  };
+
+  for (const log of parseEventLogs({ abi: ERC20_ABI, eventName: "Transfer", logs })) {
+    const token = isAddressEqual(log.address, NATIVE_TRANSFER_ADDRESS) ? "native" : log.address;
+    add(log.args.from, token, -log.args.value);
+    add(log.args.to, token, log.args.value);
+  }
+
+  return [...changes.values()].filter((change) => change.delta !== 0n);
+}
+
+/**
+ * Balance changes implied by the call itself: its native value and, for an
+ * ERC-20 `transfer` or `transferFrom`, the tokens moved
+ */
+function balanceChangesFromCall(from: Address, transaction: TransactionRequestEIP1559): BalanceChange[] {
+  const changes: BalanceChange[] = [];
+  const to = transaction.to ?? undefined;
+
+  if (to && transaction.value) {
+    changes.push({ account: from, token: "native", delta: -transaction.value });
+    changes.push({ account: to, token: "native", delta: transaction.value });
+  }
+
+  if (to && transaction.data && transaction.data !== "0x") {
+    try {
+      const call = decodeFunctionData({ abi: ERC20_ABI, data: transaction.data });
+      const [sender, recipient, amount] =
+        call.functionName === "transfer"
+          ? [from, ...(call.args as readonly [Address, bigint])]
+          : call.functionName === "transferFrom"
+            ? (call.args as readonly [Address, Address, bigint])
+            : [];
+
+      if (sender && recipient && amount !== undefined) {
+        changes.push({ account: sender, token: to, delta: -amount });
+        changes.push({ account: recipient, token: to, delta: amount });
+      }
+    } catch {
+      // Not an ERC-20 call
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Normalize (ENSIP-15) and namehash an ENS name
+ */
+function ensNode(name: string): Hex {
+  return namehash(normalize(name));
+}
+
+/**
+ * Recursively convert bigints to decimal strings for JSON APIs
+ */
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toJsonValue(v)]));
+  }
+  return value;
+}
+
+function dedupeAddresses(addresses: Address[]): Address[] {
+  const seen = new Set<string>();
+  return addresses.filter((address) => {
+    const key = address.toLowerCase();
+    return seen.has(key) ? false : (seen.add(key), true);
+  });
+}
@@ -0,0 +1,335 @@
+/**
+ * Chainlink CCIP Bridge
+ *
+ * Transfers ERC-20 tokens with Chainlink CCIP:
+ * 1. Build an `EVM2AnyMessage` carrying the token amount to the recipient
+ * 2. `getFee` from the source router, payable in native currency or LINK
+ * 3. Approve the router for the tokens (and LINK fee, if used)
+ * 4. `ccipSend` and return the CCIP message ID for tracking
+ *
+ * Docs: https://docs.chain.link/ccip/tutorials/evm/transfer-tokens-from-contract
+ */
+
+import {
+  concat,
+  encodeAbiParameters,
+  encodeFunctionData,
+  parseEventLogs,
+  zeroAddress,
+  type Address,
+  type Hex,
+} from "viem";
+import { CCIP_ONRAMP_EVENTS_ABI, CCIP_ROUTER_ABI } from "./abis.js";
+import type {
+  BlockchainOperations,
+  TransactionReceiptResult,
+  TransactionResult,
+} from "./blockchain.js";
+import { BlockchainError } from "./errors.js";
+import { deriveIdempotencyKey } from "./idempotency.js";
+import {
+  getNetwork,
+  getTokenAddress,
+  getTokenSymbol,
+  type CCIPConfig,
+  type NetworkId,
+} from "./networks.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CCIPMessage {
+  receiver: Hex;
+  data: Hex;
+  tokenAmounts: { token: Address; amount: bigint }[];
+  /** Fee token; zero address pays in native currency */
+  feeToken: Address;
+  extraArgs: Hex;
+}
+
+export interface CCIPBridgeOptions {
+  /** Sender's address */
+  from: Address;
+  /** Source network */
+  fromChain: NetworkId;
+  /** Destination network */
+  toChain: NetworkId;
+  /** Token contract on the source network */
+  tokenAddress: Address;
+  /** Amount in the token's smallest unit */
+  amount: bigint;
+  /** Recipient on the destination network (default: sender) */
+  recipient?: Address;
+  /** Pay the CCIP fee in native currency or LINK (default: "native") */
+  feeToken?: "native" | "LINK";
+  /** Gas limit for ccipReceive on the destination; 0 for EOA recipients (default: 0) */
+  gasLimit?: bigint;
+  /** Allow the message to execute out of order (default: true) */
+  allowOutOfOrderExecution?: boolean;
+  /** Confirmations to wait for on source-chain transactions (default: 1) */
+  confirmations?: number;
+  /** Optional idempotency key; each step's transaction gets a key derived from it */
+  idempotencyKey?: string;
+  /**
+   * The send may already have gone out under `idempotencyKey` (e.g. the
+   * process exited before its result was saved). It is sent with a fixed gas
+   * limit instead of being simulated and estimated, which would revert once the original has
+   * pulled the tokens, so CDP can return the original transaction.
+   */
+  resume?: boolean;
+  /** Called right before the send transaction is handed to CDP (see SendTransactionOptions.onSubmit) */
+  onSubmit?: () => void | Promise<void>;
+}
+
+export interface CCIPQuote {
+  router: Address;
+  destinationChainSelector: bigint;
+  message: CCIPMessage;
+  /** Fee in native currency (wei) or LINK (juels), per `message.feeToken` */
+  fee: bigint;
+}
+
+export interface CCIPBridgeResult extends TransactionResult {
+  /** CCIP message ID (track on ccip.chain.link); may be missing in dry-run mode */
+  messageId?: Hex;
+  fee: bigint;
+  feeToken: Address;
+  receipt: TransactionReceiptResult;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** bytes4(keccak256("CCIP EVMExtraArgsV2")) */
+const EVM_EXTRA_ARGS_V2_TAG = "0x181dcf10";
+
+/** Gas limit for a resumed send, which can't be estimated once the original has spent the allowance */
+const RESUMED_SEND_GAS = 700_000n;
+
+// ============================================================================
+// CCIP BRIDGE
+// ============================================================================
+
+export class CCIPBridge {
+  constructor(private blockchain: BlockchainOperations) {}
+
+  /**
+   * Check whether a token can be sent over CCIP between two networks
+   */
+  supportsRoute(fromChain: NetworkId, toChain: NetworkId, tokenAddress: Address): boolean {
+    const source = getNetwork(fromChain).ccip;
+    const destination = getNetwork(toChain).ccip;
+    const symbol = getTokenSymbol(fromChain, tokenAddress);
+
+    return Boolean(
+      source &&
+      destination &&
+      symbol &&
+      source.tokens?.includes(symbol) &&
+      destination.tokens?.includes(symbol)
+    );
+  }
+
+  /**
+   * Build the message and quote the CCIP fee
+   *
+   * @example
+   * ```ts
+   * const quote = await ccip.quote({
+   *   from: wallet,
+   *   fromChain: "ethereum",
+   *   toChain: "base",
+   *   tokenAddress: getTokenAddress("ethereum", "USDC")!,
+   *   amount: parseUnits("10", 6),
+   *   feeToken: "LINK",
+   * });
+   * ```
+   */
+  async quote(options: CCIPBridgeOptions): Promise<CCIPQuote> {
+    const {
+      from,
+      fromChain,
+      toChain,
+      tokenAddress,
+      amount,
+      recipient = from,
+      feeToken = "native",
+      gasLimit = 0n,
+      allowOutOfOrderExecution = true,
+    } = options;
+
+    if (!this.supportsRoute(fromChain, toChain, tokenAddress)) {
+      throw new BlockchainError(
+        "route_unavailable",
+        `No CCIP route for ${tokenAddress} from ${fromChain} to ${toChain}`,
+        { network: fromChain }
+      );
+    }
+
+    const source = getNetwork(fromChain).ccip as CCIPConfig;
+    const destinationChainSelector = (getNetwork(toChain).ccip as CCIPConfig).chainSelector;
+
+    const message: CCIPMessage = {
+      receiver: encodeAbiParameters([{ type: "address" }], [recipient]),
+      data: "0x",
+      tokenAmounts: [{ token: tokenAddress, amount }],
+      feeToken: feeToken === "LINK" ? this.getLinkToken(fromChain) : zeroAddress,
+      extraArgs: buildExtraArgs(gasLimit, allowOutOfOrderExecution),
+    };
+
+    const fee = (await this.blockchain.readContract({
+      contractAddress: source.router,
+      abi: CCIP_ROUTER_ABI,
+      functionName: "getFee",
+      args: [destinationChainSelector, message],
+      network: fromChain,
+    })) as bigint;
+
+    return {
+      router: source.router,
+      destinationChainSelector,
+      message,
+      fee,
+    };
+  }
+
+  /**
+   * Send tokens over CCIP: quote, approve the router, and `ccipSend`
+   *
+   * Resolves once the source-chain transaction is confirmed; delivery on the
+   * destination happens asynchronously and can be tracked by `messageId`.
+   */
+  async bridge(options: CCIPBridgeOptions): Promise<CCIPBridgeResult> {
+    const { from, fromChain, tokenAddress, amount, confirmations, idempotencyKey, resume, onSubmit } = options;
+
+    const quote = await this.quote(options);
+    const { router, destinationChainSelector, message, fee } = quote;
+    const payInLink = message.feeToken !== zeroAddress;
+    const feeIsSameToken = payInLink && message.feeToken.toLowerCase() === tokenAddress.toLowerCase();
+
+    // Router pulls the tokens (and LINK fee) with transferFrom; approvals
+    // are skipped when an earlier one still covers the amount
+    await this.blockchain.ensureAllowance({
+      from,
+      spender: router,
+      tokenAddress,
+      amount: feeIsSameToken ? amount + fee : amount,
+      network: fromChain,
+      idempotencyKey: idempotencyKey && deriveIdempotencyKey(idempotencyKey, "approve"),
+      confirmations,
+    });
+
+    if (payInLink && !feeIsSameToken) {
+      await this.blockchain.ensureAllowance({
+        from,
+        spender: router,
+        tokenAddress: message.feeToken,
+        amount: fee,
+        network: fromChain,
+        idempotencyKey: idempotencyKey && deriveIdempotencyKey(idempotencyKey, "approve-fee"),
+        confirmations,
+      });
+    }
+
+    // ccipSend returns the message ID; simulate first so it's known even if
+    // the receipt's OnRamp event can't be decoded. In dry-run mode the
+    // approvals above were only simulated, and a resumed send may already
+    // have spent them, so this call would revert.
+    const value = payInLink ? 0n : fee;
+    const simulatedMessageId = this.blockchain.isDryRun() || resume
+      ? undefined
+      : (
+          await this.blockchain.getPublicClient(fromChain).simulateContract({
+            account: from,
+            address: router,
+            abi: CCIP_ROUTER_ABI,
+            functionName: "ccipSend",
+            args: [destinationChainSelector, message],
+            value,
+          })
+        ).result;
+
+    const data = encodeFunctionData({
+      abi: CCIP_ROUTER_ABI,
+      functionName: "ccipSend",
+      args: [destinationChainSelector, message],
+    });
+
+    const result = await this.blockchain.sendTransaction({
+      from,
+      transaction: {
+        to: router,
+        data,
+        value,
+        gas: resume ? RESUMED_SEND_GAS : undefined,
+      },
+      network: fromChain,
+      idempotencyKey: idempotencyKey && deriveIdempotencyKey(idempotencyKey, "send"),
+      bridgeFee: true,
+      onSubmit,
+    });
+
+    const receipt = await this.blockchain.confirmTransaction({
+      transactionHash: result.transactionHash,
+      network: fromChain,
+      confirmations,
+    });
+
+    return {
+      transactionHash: receipt.transactionHash,
+      messageId: extractMessageId(receipt) ?? simulatedMessageId,
+      fee,
+      feeToken: message.feeToken,
+      receipt,
+    };
+  }
+
+  private getLinkToken(network: NetworkId): Address {
+    const link = getTokenAddress(network, "LINK");
+
+    if (!link) {
+      throw new BlockchainError(
+        "route_unavailable",
+        `No LINK token registered on ${network}; pay the CCIP fee in native currency`,
+        { network }
+      );
+    }
+
+    return link;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Encode `GenericExtraArgsV2` (gasLimit, allowOutOfOrderExecution)
+ */
+export function buildExtraArgs(gasLimit: bigint, allowOutOfOrderExecution: boolean): Hex {
+  return concat([
+    EVM_EXTRA_ARGS_V2_TAG,
+    encodeAbiParameters(
+      [{ type: "uint256" }, { type: "bool" }],
+      [gasLimit, allowOutOfOrderExecution]
+    ),
+  ]);
+}
+
+/**
+ * Read the message ID from the OnRamp event in a `ccipSend` receipt
+ */
+function extractMessageId(receipt: TransactionReceiptResult): Hex | undefined {
+  for (const log of parseEventLogs({ abi: CCIP_ONRAMP_EVENTS_ABI, logs: receipt.logs })) {
+    if (log.eventName === "CCIPSendRequested") {
+      return log.args.message.messageId;
+    }
+    if (log.eventName === "CCIPMessageSent") {
+      return log.args.message.header.messageId;
+    }
+  }
+
+  return undefined;
+}
@@ -4,37 +4,85 @@
  * This module enables autonomous agents to:
  * 1. Intercept x402 payment requests
  * 2. Check if assets exist on the target chain
- * 3. Bridge assets from other chains if needed (LayerZero/CCIP)
+ * 3. Bridge assets from other chains if needed (LayerZero/CCIP), combining
+ *    partial balances from several chains when no single one is enough
  * 4. Complete the x402 payment after bridging
  * 
+ * Each payment is saved as it moves through its states (see payment-store.ts),
+ * so `resumePending()` can finish payments interrupted by a restart.
+ * 
+ * Payments and bridge fees are checked against the BlockchainOperations
+ * spending policy, if one is configured, before anything is sent.
+ * 
+ * `planPayment()` (or the `dryRun` option) simulates a payment end to end
+ * without submitting anything.
+ * 
+ * Failed results carry the typed error (see errors.ts) as `failure`, next
+ * to its message in `error`.
+ * 
+ * Progress (balances checked, routes chosen, bridges sent and polled,
+ * payments confirmed) is reported as events through the BlockchainOperations
+ * instance (see events.ts); subscribe with `onProgress` or `progressEvents`.
+ * 
  * Based on: https://docs.chain.link/ccip
  */
 
-import { encodeFunctionData, parseUnits, formatUnits, type Address, type Hex } from "viem";
+import { parseUnits, formatUnits, type Address, type Hex } from "viem";
 import type { CdpOpenApiClientType } from "@coinbase/cdp-sdk";
-import { BlockchainOperations } from "./blockchain.js";
-import { ERC20_ABI } from "./abis.js";
+import {
+  BlockchainOperations,
+  type AddressOrENSName,
+  type SimulationResult,
+  type TransactionReceiptResult,
+} from "./blockchain.js";
+import { getAssetEquivalents, type AssetVariant } from "./assets.js";
+import { CCIPBridge } from "./ccip.js";
+import {
+  BridgeFailedError,
+  BridgeTimeoutError,
+  InsufficientFundsError,
+  ReceiptTimeoutError,
+  TransactionRevertedError,
+  TransportError,
+  fromRevert,
+  toBlockchainError,
+  type BlockchainError,
+  type BlockchainErrorCode,
+} from "./errors.js";
+import type { Logger, ProgressEvent, ProgressListener } from "./events.js";
+import { deriveIdempotencyKey } from "./idempotency.js";
+import { LayerZeroBridge, type LayerZeroBridgeOptions } from "./layerzero.js";
+import {
+  MemoryPaymentStore,
+  PENDING_PAYMENT_STATUSES,
+  createPaymentRecord,
+  type PaymentRecord,
+  type PaymentStatus,
+  type PaymentStore,
+} from "./payment-store.js";
+import { SpendingPolicyError, type PolicyDenial } from "./policy.js";
+import {
+  BUILTIN_NETWORKS,
+  getNetwork,
+  getTokenAddress,
+  getTokenSymbol,
+  type NetworkId,
+} from "./networks.js";
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export type SupportedChain = 
-  | "ethereum" 
-  | "base" 
-  | "arbitrum" 
-  | "optimism" 
-  | "polygon"
-  | "ethereum-sepolia" 
-  | "base-sepolia";
+/** Any network in the registry (see networks.ts) */
+export type SupportedChain = NetworkId;
 
 export interface X402PaymentRequest {
   /** Amount required */
   maxAmountRequired: string;
   /** API endpoint requesting payment */
   resource: string;
-  /** Payment recipient address */
-  payTo: Address;
+  /** Payment recipient address or ENS name */
+  payTo: AddressOrENSName;
   /** Token contract address */
   asset: Address;
   /** Network where payment is required */
@@ -43,20 +91,173 @@ export interface X402PaymentRequest {
   description?: string;
 }
 
+export interface PaymentResult {
+  success: boolean;
+  /** Id of the saved payment record (see getPayment / resumePending) */
+  paymentId?: string;
+  /** State the payment ended in */
+  status?: PaymentStatus;
+  /** Set when an earlier executePayment for the same request answered this one */
+  duplicate?: boolean;
+  transactionHash?: Hex;
+  /** Recipient the payment was sent to (resolved if payTo was an ENS name) */
+  payTo?: Address;
+  /** Confirmed receipt of the payment transaction */
+  receipt?: TransactionReceiptResult;
+  /** One entry per bridge leg, if assets had to be bridged first */
+  bridges?: BridgeLegResult[];
+  error?: string;
+  /** Typed error behind `error`, when this run hit it */
+  failure?: BlockchainError;
+  /** Set if the spending policy refused the payment */
+  denial?: PolicyDenial;
+  /** In dry-run mode: what the payment would have done */
+  plan?: PaymentPlan;
+}
+
+export interface FundingResult {
+  /** Whether the target chain now holds the required amount */
+  success: boolean;
+  /** Payment amount in the token's smallest unit */
+  requiredAmount?: bigint;
+  /** One entry per bridge leg, if assets had to be bridged */
+  bridges?: BridgeLegResult[];
+  error?: string;
+  /** Typed error behind `error` */
+  failure?: BlockchainError;
+  /** Set if the spending policy refused the payment */
+  denial?: PolicyDenial;
+}
+
+export interface BridgeLegResult {
+  fromChain: SupportedChain;
+  bridgeProtocol: BridgeProtocol;
+  /** Amount sent from the source chain */
+  amount: bigint;
+  /** Amount expected on the target chain */
+  amountReceived: bigint;
+  success: boolean;
+  /** Source-chain bridge transaction */
+  transactionHash?: Hex;
+  /** LayerZero GUID or CCIP message ID */
+  messageId?: Hex;
+  error?: string;
+  errorCode?: BlockchainErrorCode;
+  /** Typed error behind `error`; not saved with the payment */
+  failure?: BlockchainError;
+}
+
 export interface ChainBalance {
   chain: SupportedChain;
   balance: bigint;
   tokenAddress: Address;
   decimals: number;
+  /** Token symbol on this chain (e.g. "USDC.e"), if it's a registered asset */
+  symbol?: string;
+  /** Native or bridged deployment, if it's a registered asset */
+  variant?: AssetVariant;
 }
 
 export interface BridgeRoute {
   fromChain: SupportedChain;
   toChain: SupportedChain;
+  /** Token address on the source chain */
+  tokenAddress: Address;
+  /** Amount sent from the source chain (grossed up to cover protocol fees taken in the token) */
   amount: bigint;
+  /** Amount expected on the destination */
+  amountReceived: bigint;
   estimatedTime: number; // seconds
+  /** Bridge fee in the source chain's native currency */
   estimatedFee: bigint;
-  bridgeProtocol: "layerzero" | "ccip";
+  /** Source-chain gas for the approval (if needed) and send, in native currency */
+  estimatedGasCost: bigint;
+  bridgeProtocol: BridgeProtocol;
+  /** Ranking score under the plan's strategy; lower is better */
+  score: number;
+}
+
+export type BridgeProtocol = "layerzero" | "ccip";
+
+/**
+ * How routes are ranked:
+ * - `cheapest`: lowest bridge fee + source gas (+ token fee when priced)
+ * - `fastest`: lowest estimated delivery time
+ * - `weighted`: weighted sum of cost and time, each normalized to the worst candidate
+ */
+export type RouteStrategy = "cheapest" | "fastest" | "weighted";
+
+export interface RouteWeights {
+  fee: number;
+  time: number;
+}
+
+export interface RoutePlanOptions {
+  /** Ranking strategy (default: config.routeStrategy) */
+  strategy?: RouteStrategy;
+  /** Weights for the "weighted" strategy (default: config.routeWeights) */
+  weights?: RouteWeights;
+  /** Reference prices by currency symbol (default: config.prices) */
+  prices?: Partial<Record<string, number>>;
+}
+
+export interface SkippedRoute {
+  fromChain: SupportedChain;
+  bridgeProtocol?: BridgeProtocol;
+  reason: string;
+}
+
+export interface RoutePlan {
+  paymentRequest: X402PaymentRequest;
+  /** Payment amount in the token's smallest unit */
+  requiredAmount: bigint;
+  /** Balance already on the target chain */
+  targetBalance: bigint;
+  /** Amount that has to arrive on the target chain (0n if no bridge is needed) */
+  shortfall: bigint;
+  strategy: RouteStrategy;
+  /** Single-source routes that each cover the whole shortfall, best first */
+  routes: BridgeRoute[];
+  /**
+   * Legs to execute: the best route, or, when no single chain covers the
+   * shortfall, partial legs from several chains that add up to it (empty if
+   * the combined balances fall short)
+   */
+  legs: BridgeRoute[];
+  /** Candidates that were considered and rejected */
+  skipped: SkippedRoute[];
+}
+
+export interface PlannedBridgeLeg {
+  route: BridgeRoute;
+  /** Simulated source-chain transactions: approvals, then the send */
+  simulations: SimulationResult[];
+  /** Why the leg would fail */
+  error?: string;
+  failure?: BlockchainError;
+}
+
+export interface PaymentPlan {
+  paymentRequest: X402PaymentRequest;
+  /** Whether every step would go through */
+  feasible: boolean;
+  /** Resolved recipient */
+  payTo?: Address;
+  /** Balances, ranked routes and the legs that would be sent */
+  routes?: RoutePlan;
+  /** Each leg that would be sent, simulated */
+  bridges: PlannedBridgeLeg[];
+  /**
+   * Simulated payment transfer; only when the target chain already holds
+   * the amount, since bridged funds can't be simulated arriving
+   */
+  payment?: SimulationResult;
+  /** Most the simulated transactions could cost in network fees, per chain (wei) */
+  maxFees: Partial<Record<SupportedChain, bigint>>;
+  error?: string;
+  failure?: BlockchainError;
+  /** Set if the spending policy would refuse the payment */
+  denial?: PolicyDenial;
 }
 
 export interface CREConfig {
@@ -68,46 +269,122 @@ export interface CREConfig {
   maxBridgeWaitTime: number;
   /** Polling interval (milliseconds) */
   pollInterval: number;
+  /** Confirmations required before a transaction counts as successful */
+  confirmations: number;
+  /** Maximum wait for each transaction receipt (milliseconds) */
+  receiptTimeout: number;
+  /** Bridge protocols to consider */
+  bridgeProtocols: BridgeProtocol[];
+  /** Default route ranking strategy */
+  routeStrategy: RouteStrategy;
+  /** Default weights for the "weighted" strategy */
+  routeWeights: RouteWeights;
+  /**
+   * Reference prices by currency symbol (e.g. { ETH: 3000, POL: 0.5, USDC: 1 })
+   * used to compare costs across chains. Without them, native fees are
+   * compared 1:1 and fees taken in the bridged token are ignored.
+   */
+  prices?: Partial<Record<string, number>>;
+  /** Where payments are saved so they can be resumed (default: in memory) */
+  paymentStore: PaymentStore;
+  /**
+   * How long a paid request keeps answering repeats of itself (seconds);
+   * requests with an explicit idempotency key are matched regardless
+   */
+  duplicatePaymentWindow: number;
+  /** Plan and simulate payments instead of executing them (see planPayment) */
+  dryRun?: boolean;
+  /**
+   * Where log lines go, when no BlockchainOperations instance is passed
+   * (otherwise that instance's logger is used)
+   */
+  logger?: Logger;
+}
+
+export interface ExecutePaymentOptions {
+  /**
+   * Identifies the request (default: derived from the wallet and request);
+   * repeated calls with the same key return the original payment
+   */
+  idempotencyKey?: string;
 }
 
 // ============================================================================
 // LAYERZERO CONTRACT ADDRESSES
 // ============================================================================
 
+/**
+ * @deprecated Use `getNetwork(chain).layerZero` from the network registry
+ */
 export const LAYERZERO_ENDPOINTS = {
-  ethereum: "0x66A71Dcef29A0fFBDBE3c6a460a3B5BC225Cd675",
-  "ethereum-sepolia": "0xae92d5aD7583AD66E49A0c67BAd18F6ba52dDDc1",
-  base: "0xb6319cC6c8c27A8F5dAF0dD3DF91EA35C4720dd7",
-  "base-sepolia": "0x6EDCE65403992e310A62460808c4b910D972f10f",
-  arbitrum: "0x3c2269811836af69497E5F486A85D7316753cf62",
-  optimism: "0x3c2269811836af69497E5F486A85D7316753cf62",
-  polygon: "0x3c2269811836af69497E5F486A85D7316753cf62",
+  ethereum: BUILTIN_NETWORKS.ethereum.layerZero.endpoint,
+  "ethereum-sepolia": BUILTIN_NETWORKS["ethereum-sepolia"].layerZero.endpoint,
+  base: BUILTIN_NETWORKS.base.layerZero.endpoint,
+  "base-sepolia": BUILTIN_NETWORKS["base-sepolia"].layerZero.endpoint,
+  arbitrum: BUILTIN_NETWORKS.arbitrum.layerZero.endpoint,
+  optimism: BUILTIN_NETWORKS.optimism.layerZero.endpoint,
+  polygon: BUILTIN_NETWORKS.polygon.layerZero.endpoint,
 } as const;
 
-// Chainlink CCIP Router addresses
+/**
+ * Chainlink CCIP Router addresses
+ *
+ * @deprecated Use `getNetwork(chain).ccip` from the network registry
+ */
 export const CCIP_ROUTERS = {
-  ethereum: "0x80226fc0Ee2b096224EeAc085Bb9a8cba1146f7D",
-  "ethereum-sepolia": "0x0BF3dE8c5D3e8A2B34D2BEeB17ABfCeBaf363A59",
-  base: "0x881e3A65B4d4a04dD529061dd0071cf975F58bCD",
-  "base-sepolia": "0xD3b06cEbF099CE7DA4AcCf578aaebFDBd6e88a93",
-  arbitrum: "0x141fa059441E0ca23ce184B6A78bafD2A517DdE8",
-  optimism: "0x3206695CaE29952f4b0c22a169725a865bc8Ce0f",
-  polygon: "0x849c5ED5a80F5B408Dd4969b78c2C8fdf0565Bfe",
+  ethereum: BUILTIN_NETWORKS.ethereum.ccip.router,
+  "ethereum-sepolia": BUILTIN_NETWORKS["ethereum-sepolia"].ccip.router,
+  base: BUILTIN_NETWORKS.base.ccip.router,
+  "base-sepolia": BUILTIN_NETWORKS["base-sepolia"].ccip.router,
+  arbitrum: BUILTIN_NETWORKS.arbitrum.ccip.router,
+  optimism: BUILTIN_NETWORKS.optimism.ccip.router,
+  polygon: BUILTIN_NETWORKS.polygon.ccip.router,
 } as const;
 
+// ============================================================================
+// ROUTE PLANNING ESTIMATES
+// ============================================================================
+
+/** Typical delivery time when the registry has no `estimatedTime` (seconds) */
+const DEFAULT_BRIDGE_TIME: Record<BridgeProtocol, number> = {
+  layerzero: 180,
+  ccip: 1200,
+};
+
+/** Gas used by the source-chain send; it can't be estimated before the approval is mined */
+const BRIDGE_SEND_GAS: Record<BridgeProtocol, bigint> = {
+  layerzero: 300_000n,
+  ccip: 350_000n,
+};
+
+const APPROVE_GAS = 60_000n;
+
+/** Gas limit for a payment transfer resent under its original key (see sendPayment) */
+const RESUMED_TRANSFER_GAS = 100_000n;
+
 // ============================================================================
 // MAIN CRE CLASS
 // ============================================================================
 
 export class CrossChainResourceExecution {
   private blockchain: BlockchainOperations;
+  private layerZero: LayerZeroBridge;
+  private ccip: CCIPBridge;
   private config: CREConfig;
+  private logger: Logger;
+  /** Payments being driven by this instance, by idempotency key */
+  private running = new Map<string, Promise<PaymentResult>>();
 
   constructor(
     private client: CdpOpenApiClientType,
-    config: Partial<CREConfig> = {}
+    config: Partial<CREConfig> = {},
+    blockchain?: BlockchainOperations
   ) {
-    this.blockchain = new BlockchainOperations(client);
+    // Pass a preconfigured instance to control RPC endpoints/transports
+    this.blockchain = blockchain ?? new BlockchainOperations(client, { logger: config.logger });
+    this.layerZero = new LayerZeroBridge(this.blockchain);
+    this.ccip = new CCIPBridge(this.blockchain);
+    this.logger = this.blockchain.getLogger();
     
     // Default config
     this.config = {
@@ -122,6 +399,16 @@ export class CrossChainResourceExecution {
       ],
       maxBridgeWaitTime: config.maxBridgeWaitTime || 180, // 3 minutes
       pollInterval: config.pollInterval || 10000, // 10 seconds
+      confirmations: config.confirmations || 1,
+      receiptTimeout: config.receiptTimeout || 120000, // 2 minutes
+      bridgeProtocols: config.bridgeProtocols || ["layerzero", "ccip"],
+      routeStrategy: config.routeStrategy || "cheapest",
+      routeWeights: config.routeWeights || { fee: 0.5, time: 0.5 },
+      prices: config.prices,
+      paymentStore: config.paymentStore || new MemoryPaymentStore(),
+      duplicatePaymentWindow: config.duplicatePaymentWindow ?? 600, // 10 minutes
+      dryRun: config.dryRun,
+      logger: config.logger,
     };
   }
 
@@ -136,29 +423,277 @@ export class CrossChainResourceExecution {
    * ```ts
    * const cre = new CrossChainResourceExecution(cdpClient, {
    *   walletAddress: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e"
-   * });
+   * }, new BlockchainOperations(cdpClient, {
+   *   rpcUrls: { base: "https://base-mainnet.example/rpc" }
+   * }));
    * 
    * // Intercept 402 response from API
    * const paymentRequest = {
    *   maxAmountRequired: "10",
    *   resource: "/api/premium-data",
-   *   payTo: "0xAPI_PROVIDER_ADDRESS",
+   *   payTo: "api-provider.eth", // or a raw address
    *   asset: "0xUSDC_ADDRESS",
    *   network: "base"
    * };
    * 
    * const result = await cre.executePayment(paymentRequest);
    * ```
+   *
+   * Repeating a request returns the original payment instead of paying
+   * twice (`duplicate: true`): while it is still running, or once paid
+   * within `duplicatePaymentWindow`. A pending one is resumed; a failed one
+   * is attempted afresh. Requests are matched by an idempotency key derived
+   * from the wallet and the request; pass your own to pay the same resource
+   * more than once, or to match retries across any time span.
+   *
+   * ```ts
+   * const result = await cre.executePayment(paymentRequest, { idempotencyKey: `order-${orderId}` });
+   * ```
+   *
+   * With `dryRun` set, nothing is saved or sent; the result carries the
+   * plan from {@link planPayment}.
    */
   async executePayment(
-    paymentRequest: X402PaymentRequest
-  ): Promise<{ success: boolean; transactionHash?: Hex; error?: string }> {
-    console.log(`\n🔍 Processing x402 payment request...`);
-    console.log(`   Network: ${paymentRequest.network}`);
-    console.log(`   Amount: ${paymentRequest.maxAmountRequired}`);
-    console.log(`   Token: ${paymentRequest.asset}`);
+    paymentRequest: X402PaymentRequest,
+    options: ExecutePaymentOptions = {}
+  ): Promise<PaymentResult> {
+    this.logger.debug(
+      `Processing x402 payment request: ${paymentRequest.maxAmountRequired} ${paymentRequest.asset} on ${paymentRequest.network}`
+    );
+
+    if (this.config.dryRun) {
+      const plan = await this.planPayment(paymentRequest);
+      const { feasible, payTo, error, failure, denial } = plan;
+      return { success: feasible, payTo, plan, error, failure, denial };
+    }
+
+    const key = options.idempotencyKey ?? this.getPaymentKey(paymentRequest);
+
+    // The same request is already running in this process: share its outcome
+    const running = this.running.get(key);
+    if (running) {
+      this.logger.info(`Same request already in progress, waiting for it`);
+      return { ...(await running), duplicate: true };
+    }
+
+    return this.track(key, async () => {
+      try {
+        const store = this.config.paymentStore;
+        const existing = await store.findByIdempotencyKey(key);
+
+        if (existing && this.isDuplicate(existing, options.idempotencyKey !== undefined)) {
+          if (existing.status === "paid") {
+            this.logger.info(`Already paid in ${existing.transactionHash} (payment ${existing.id})`);
+            return { ...this.toResult(existing), duplicate: true };
+          }
+
+          this.blockchain.report({ type: "payment_resumed", paymentId: existing.id, status: existing.status });
+          return { ...(await this.runPayment(existing)), duplicate: true };
+        }
+
+        const payment = createPaymentRecord(paymentRequest, key);
+        await store.save(payment);
+
+        this.blockchain.report({ type: "payment_started", paymentId: payment.id, request: paymentRequest });
+        return await this.runPayment(payment);
+      } catch (error) {
+        const failure = toBlockchainError(error);
+        return { success: false, error: failure.message, failure };
+      }
+    });
+  }
+
+  /**
+   * Idempotency key executePayment derives for a request: the same wallet,
+   * network, asset, recipient, amount and resource give the same key
+   */
+  getPaymentKey(paymentRequest: X402PaymentRequest): string {
+    const { network, asset, payTo, maxAmountRequired, resource } = paymentRequest;
+
+    return deriveIdempotencyKey(
+      "x402-payment",
+      this.config.walletAddress,
+      network,
+      asset,
+      payTo.toLowerCase(),
+      maxAmountRequired,
+      resource
+    );
+  }
+
+  /**
+   * Resume every payment an earlier run left unfinished, e.g. because the
+   * process exited while a bridge was in flight
+   *
+   * Each payment continues from its last saved state: legs that were sent
+   * aren't bridged again, and a payment whose transaction was sent is only
+   * confirmed. A leg or payment that may have been sent before its hash was
+   * saved is retried with the same CDP idempotency key, so it isn't
+   * duplicated, and with a fixed gas limit, since estimating would revert
+   * once the original has spent the funds. Payments already running in this
+   * process are skipped.
+   *
+   * @example
+   * ```ts
+   * const cre = new CrossChainResourceExecution(cdpClient, {
+   *   walletAddress: account.address,
+   *   paymentStore: new JsonFilePaymentStore("./payments.json"),
+   * });
+   *
+   * for (const result of await cre.resumePending()) {
+   *   console.log(result.paymentId, result.status, result.error ?? result.transactionHash);
+   * }
+   * ```
+   */
+  async resumePending(): Promise<PaymentResult[]> {
+    const pending = await this.config.paymentStore.list(PENDING_PAYMENT_STATUSES);
+    const results: PaymentResult[] = [];
+
+    // One at a time: payments may draw on the same balances
+    for (const payment of pending) {
+      if (this.running.has(payment.idempotencyKey)) {
+        continue;
+      }
+
+      this.blockchain.report({ type: "payment_resumed", paymentId: payment.id, status: payment.status });
+      results.push(await this.track(payment.idempotencyKey, () => this.runPayment(payment)));
+    }
+
+    return results;
+  }
+
+  /**
+   * Saved state of a payment started with {@link executePayment}
+   */
+  async getPayment(id: string): Promise<PaymentRecord | undefined> {
+    return this.config.paymentStore.get(id);
+  }
+
+  /**
+   * Drive a payment from its saved state to `paid` or `failed`, saving each
+   * transition
+   *
+   * Errors before bridging starts fail the payment. Later ones leave it in
+   * its current state (funds may be in flight) for resumePending to retry.
+   */
+  private async runPayment(payment: PaymentRecord): Promise<PaymentResult> {
+    const result = await this.advancePayment(payment);
+
+    if (!result.success) {
+      this.blockchain.report({
+        type: "payment_failed",
+        paymentId: payment.id,
+        network: payment.request.network,
+        status: payment.status,
+        error: result.error ?? "Unknown error",
+        code: result.failure?.code,
+      });
+    }
+
+    return result;
+  }
+
+  private async advancePayment(payment: PaymentRecord): Promise<PaymentResult> {
+    const store = this.config.paymentStore;
 
     try {
+      if (payment.status !== "paying") {
+        // Step 0: Resolve the recipient up front so an unresolvable name never triggers a bridge
+        if (!payment.payTo) {
+          const payTo = await this.blockchain.resolveAddress(
+            payment.request.payTo,
+            payment.request.network
+          );
+          await this.updatePayment(payment, store, { payTo });
+        }
+
+        // Steps 1-5: Make sure the target chain holds enough, bridging if needed
+        const funding = await this.fund(payment, store);
+
+        if (!funding.success) {
+          return {
+            ...this.toResult(payment),
+            error: funding.error,
+            failure: funding.failure,
+            denial: funding.denial,
+          };
+        }
+
+        // Step 6: Pay with the target-chain balance
+        if (payment.legs) {
+          this.logger.info(`Paying with bridged assets`);
+        }
+        await this.updatePayment(payment, store, { status: "paying" });
+      }
+
+      return await this.sendPayment(payment, store);
+
+    } catch (error) {
+      const failure = toBlockchainError(error, { network: payment.request.network });
+      const changes = { error: failure.message, errorCode: failure.code };
+
+      await this.updatePayment(
+        payment,
+        store,
+        payment.status === "requested" ? { status: "failed", ...changes } : changes
+      ).catch(() => undefined);
+
+      return { ...this.toResult(payment), failure };
+    }
+  }
+
+  /**
+   * Whether a saved payment answers a repeated request
+   */
+  private isDuplicate(payment: PaymentRecord, explicitKey: boolean): boolean {
+    if (payment.status === "failed") {
+      return false;
+    }
+    if (payment.status !== "paid" || explicitKey) {
+      return true;
+    }
+    return Date.now() - payment.createdAt < this.config.duplicatePaymentWindow * 1000;
+  }
+
+  /**
+   * Run a payment, letting repeats of the same request wait on it
+   */
+  private track(key: string, run: () => Promise<PaymentResult>): Promise<PaymentResult> {
+    const promise = run().finally(() => this.running.delete(key));
+    this.running.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Make sure the wallet holds a payment's amount on the target chain,
+   * bridging from other chains if needed, without paying
+   *
+   * Use this when the payment itself is made some other way, e.g. by signing
+   * an EIP-3009 authorization that the resource server settles.
+   *
+   * The payment is checked against the spending policy first, so a payment
+   * that would be refused never triggers a bridge.
+   */
+  async ensureFunds(paymentRequest: X402PaymentRequest): Promise<FundingResult> {
+    try {
+      // Not persisted: bridged funds land on the target chain whether or not anyone waits for them
+      return await this.fund(
+        createPaymentRecord(paymentRequest, this.getPaymentKey(paymentRequest)),
+        new MemoryPaymentStore()
+      );
+    } catch (error) {
+      const failure = toBlockchainError(error, { network: paymentRequest.network });
+      return { success: false, error: failure.message, failure };
+    }
+  }
+
+  /**
+   * Steps 1-5 of a payment, picking up from its saved state
+   */
+  private async fund(payment: PaymentRecord, store: PaymentStore): Promise<FundingResult> {
+    const paymentRequest = payment.request;
+
+    if (payment.status === "requested") {
       // Step 1: Check balance on target chain
       const targetBalance = await this.checkBalance(
         paymentRequest.asset,
@@ -170,60 +705,153 @@ export class CrossChainResourceExecution {
         targetBalance.decimals
       );
 
-      console.log(`\n💰 Balance Check:`);
-      console.log(`   Required: ${paymentRequest.maxAmountRequired}`);
-      console.log(`   Available on ${paymentRequest.network}: ${formatUnits(targetBalance.balance, targetBalance.decimals)}`);
+      this.blockchain.report({
+        type: "balance_checked",
+        network: paymentRequest.network,
+        token: paymentRequest.asset,
+        balance: targetBalance.balance,
+        required: requiredAmount,
+        decimals: targetBalance.decimals,
+      });
+
+      // Step 1b: Refuse payments the spending policy wouldn't allow
+      const decision = await this.blockchain.checkSpend({
+        kind: "transfer",
+        network: paymentRequest.network,
+        token: paymentRequest.asset,
+        amount: requiredAmount,
+        to: payment.payTo ?? await this.blockchain.resolveAddress(paymentRequest.payTo, paymentRequest.network),
+        resource: paymentRequest.resource,
+      });
+
+      if (!decision.allowed) {
+        return this.failFunding(payment, store, new SpendingPolicyError(decision.denial), {
+          requiredAmount,
+          denial: decision.denial,
+        });
+      }
 
-      // Step 2: If sufficient balance, proceed with payment
+      // Step 2: If sufficient balance, nothing to bridge
       if (targetBalance.balance >= requiredAmount) {
-        console.log(`✅ Sufficient balance on target chain, proceeding with payment...`);
-        return await this.sendPayment(paymentRequest, requiredAmount);
+        this.logger.info(`Sufficient balance on ${paymentRequest.network}, no bridge needed`);
+        await this.updatePayment(payment, store, { requiredAmount });
+        return { success: true, requiredAmount };
       }
 
-      // Step 3: Insufficient balance - check other chains
-      console.log(`\n❌ Insufficient balance on target chain`);
-      console.log(`🔎 Scanning other chains for assets...`);
+      // Step 3: Insufficient balance - plan routes from other chains
+      this.logger.info(`Insufficient balance on ${paymentRequest.network}, scanning other chains`);
 
-      const allBalances = await this.scanAllChains(paymentRequest.asset);
-      
-      // Filter out target chain and chains with insufficient balance
-      const viableChains = allBalances.filter(
-        (b) => b.chain !== paymentRequest.network && b.balance >= requiredAmount
-      );
+      const plan = await this.planRoutes(paymentRequest);
 
-      if (viableChains.length === 0) {
-        return {
-          success: false,
-          error: `Insufficient balance across all chains. Required: ${paymentRequest.maxAmountRequired}`,
-        };
-      }
+      if (plan.legs.length === 0) {
+        const reasons = plan.skipped
+          .map((skipped) => `${skipped.fromChain}${skipped.bridgeProtocol ? `/${skipped.bridgeProtocol}` : ""}: ${skipped.reason}`)
+          .join("; ");
+        const failure = new InsufficientFundsError(
+          `Insufficient balance across all chains. Required: ${paymentRequest.maxAmountRequired}` +
+            (reasons ? ` (${reasons})` : ""),
+          { token: paymentRequest.asset, required: requiredAmount },
+          { network: paymentRequest.network }
+        );
 
-      // Step 4: Bridge assets from the chain with highest balance
-      const sourceChain = viableChains.sort((a, b) => 
-        Number(b.balance - a.balance)
-      )[0];
+        return this.failFunding(payment, store, failure, { requiredAmount });
+      }
 
-      console.log(`\n🌉 Bridging assets:`);
-      console.log(`   From: ${sourceChain.chain} (Balance: ${formatUnits(sourceChain.balance, sourceChain.decimals)})`);
-      console.log(`   To: ${paymentRequest.network}`);
-      console.log(`   Amount: ${paymentRequest.maxAmountRequired}`);
+      this.blockchain.report({
+        type: "routes_planned",
+        network: paymentRequest.network,
+        legs: plan.legs,
+        skipped: plan.skipped,
+      });
 
-      const bridgeResult = await this.bridgeAssets({
-        fromChain: sourceChain.chain,
-        toChain: paymentRequest.network,
-        tokenAddress: paymentRequest.asset,
-        amount: requiredAmount,
+      // Saved before anything is sent, so a restart knows which legs to look for
+      await this.updatePayment(payment, store, {
+        status: "bridging",
+        requiredAmount,
+        legs: plan.legs.map((route) => ({ route })),
       });
+    }
 
-      if (!bridgeResult.success) {
-        return {
-          success: false,
-          error: `Bridge failed: ${bridgeResult.error}`,
-        };
+    const requiredAmount = payment.requiredAmount!;
+    const legs = payment.legs ?? [];
+
+    // Step 4: Bridge the shortfall, from several chains if no single one covers it
+    if (payment.status === "bridging") {
+      const unsent = legs.filter((leg) => !leg.result?.success);
+      const failures: BlockchainError[] = [];
+
+      this.logger.info(
+        `Bridging to ${paymentRequest.network}: ${unsent.length} leg${unsent.length > 1 ? "s" : ""} to send`
+      );
+
+      // Legs start on different chains, so they can be sent concurrently
+      await Promise.all(
+        legs.map(async (leg, index) => {
+          if (leg.result?.success) {
+            return;
+          }
+          // Same key on every retry of an attempt, so CDP returns the original transaction if the leg was already sent
+          const { failure, ...result } = await this.bridgeAssets(
+            leg.route,
+            deriveIdempotencyKey(payment.id, "leg", index, ...(leg.attempt ? [leg.attempt] : [])),
+            {
+              resume: leg.submitting,
+              onSubmit: async () => {
+                if (!leg.submitting) {
+                  leg.submitting = true;
+                  await this.updatePayment(payment, store);
+                }
+              },
+            }
+          );
+          if (failure) {
+            failures.push(failure);
+            if (this.isSpentAttempt(failure)) {
+              leg.attempt = (leg.attempt ?? 0) + 1;
+              leg.submitting = undefined;
+            }
+          } else {
+            leg.submitting = undefined;
+          }
+          leg.result = result;
+          await this.updatePayment(payment, store);
+        })
+      );
+
+      const bridges = legs.map((leg) => leg.result!);
+      const failed = bridges.filter((leg) => !leg.success);
+
+      if (failed.length > 0) {
+        const sent = bridges.length - failed.length;
+        const failure = new BridgeFailedError(
+          `Bridge failed: ${failed.map((leg) => `${leg.fromChain}: ${leg.error}`).join("; ")}` +
+            (sent > 0 ? ` (${sent} other leg${sent > 1 ? "s" : ""} already sent to ${paymentRequest.network})` : ""),
+          { fromChain: failed[0].fromChain, bridgeProtocol: failed[0].bridgeProtocol },
+          {
+            cause: failures.length === 1 ? failures[0] : new AggregateError(failures),
+            retryable: failures.length > 0 && failures.every((failure) => failure.retryable),
+            network: paymentRequest.network,
+          }
+        );
+
+        // Other legs' funds are in flight, or the failed ones can be retried: stay
+        // `bridging` so resumePending sends just the legs that haven't gone out
+        if (sent > 0 || failure.retryable) {
+          await this.updatePayment(payment, store, { error: failure.message, errorCode: failure.code });
+          return { success: false, requiredAmount, bridges, error: failure.message, failure };
+        }
+
+        return this.failFunding(payment, store, failure, { requiredAmount, bridges });
       }
 
-      // Step 5: Wait and verify balance after bridge
-      console.log(`\n⏳ Waiting for bridge confirmation...`);
+      await this.updatePayment(payment, store, { status: "bridged" });
+    }
+
+    const bridges = legs.map((leg) => leg.result!);
+
+    // Step 5: Wait until every leg has landed and the balance covers the payment
+    if (payment.status === "bridged") {
+      this.logger.info(`Waiting for bridged funds to arrive on ${paymentRequest.network}`);
       const verified = await this.waitForBridgeCompletion(
         paymentRequest.asset,
         paymentRequest.network,
@@ -231,25 +859,486 @@ export class CrossChainResourceExecution {
       );
 
       if (!verified) {
-        return {
-          success: false,
-          error: `Bridge verification timeout after ${this.config.maxBridgeWaitTime}s`,
-        };
+        // Still in flight: stay `bridged` so resumePending waits again
+        const failure = new BridgeTimeoutError(
+          `Bridge verification timeout after ${this.config.maxBridgeWaitTime}s`,
+          { waitedSeconds: this.config.maxBridgeWaitTime },
+          { network: paymentRequest.network }
+        );
+        await this.updatePayment(payment, store, { error: failure.message, errorCode: failure.code });
+        return { success: false, requiredAmount, bridges, error: failure.message, failure };
       }
 
-      console.log(`✅ Bridge completed successfully!`);
+    }
 
-      // Step 6: Retry payment with bridged assets
-      console.log(`\n💳 Retrying payment with bridged assets...`);
-      return await this.sendPayment(paymentRequest, requiredAmount);
+    return { success: true, requiredAmount, bridges };
+  }
 
-    } catch (error) {
-      console.error(`❌ Payment execution failed:`, error);
+  /**
+   * Mark a payment failed during funding
+   */
+  private async failFunding(
+    payment: PaymentRecord,
+    store: PaymentStore,
+    failure: BlockchainError,
+    result: Omit<FundingResult, "success" | "error" | "failure">
+  ): Promise<FundingResult> {
+    await this.updatePayment(payment, store, {
+      status: "failed",
+      requiredAmount: result.requiredAmount,
+      error: failure.message,
+      errorCode: failure.code,
+    });
+    return { ...result, success: false, error: failure.message, failure };
+  }
+
+  // ==========================================================================
+  // 1b. PLAN BRIDGE ROUTES
+  // ==========================================================================
+
+  /**
+   * Enumerate, quote and rank every (source chain, protocol) route that could
+   * cover a payment's shortfall on the target chain, without executing anything
+   *
+   * Each route is quoted on-chain: the protocol fee, the amount received after
+   * fees taken in the token, and source-chain gas for the approval and send.
+   * Delivery times come from the network registry's `estimatedTime`.
+   *
+   * @example
+   * ```ts
+   * const plan = await cre.planRoutes(paymentRequest, {
+   *   strategy: "weighted",
+   *   weights: { fee: 0.7, time: 0.3 },
+   *   prices: { ETH: 3000, USDC: 1 },
+   * });
+   *
+   * for (const route of plan.routes) {
+   *   console.log(route.fromChain, route.bridgeProtocol, route.estimatedFee, route.estimatedTime);
+   * }
+   * ```
+   */
+  async planRoutes(
+    paymentRequest: X402PaymentRequest,
+    options: RoutePlanOptions = {}
+  ): Promise<RoutePlan> {
+    const {
+      strategy = this.config.routeStrategy,
+      weights = this.config.routeWeights,
+      prices = this.config.prices ?? {},
+    } = options;
+    const toChain = paymentRequest.network;
+
+    const targetBalance = await this.checkBalance(paymentRequest.asset, toChain);
+    const requiredAmount = parseUnits(paymentRequest.maxAmountRequired, targetBalance.decimals);
+    const shortfall =
+      targetBalance.balance >= requiredAmount ? 0n : requiredAmount - targetBalance.balance;
+
+    const plan: RoutePlan = {
+      paymentRequest,
+      requiredAmount,
+      targetBalance: targetBalance.balance,
+      shortfall,
+      strategy,
+      routes: [],
+      legs: [],
+      skipped: [],
+    };
+
+    if (shortfall === 0n) {
+      return plan;
+    }
+
+    const balances = await this.scanAllChains(paymentRequest.asset, toChain);
+
+    if (getAssetEquivalents(toChain, paymentRequest.asset).length === 0) {
+      plan.skipped.push({
+        fromChain: toChain,
+        reason: `${paymentRequest.asset} is not a registered asset on ${toChain}; add it with registerAsset() to bridge it`,
+      });
+    }
+
+    const candidates = balances
+      .flatMap((balance) =>
+        this.config.bridgeProtocols.map((protocol) => ({ balance, protocol }))
+      );
+
+    const quoted = await Promise.all(
+      candidates.map(async ({ balance, protocol }) => {
+        try {
+          return await this.quoteRoute(balance, targetBalance, protocol, shortfall);
+        } catch (error) {
+          return {
+            fromChain: balance.chain,
+            bridgeProtocol: protocol,
+            reason: error instanceof Error ? error.message : "Quote failed",
+          };
+        }
+      })
+    );
+
+    for (const result of quoted) {
+      if ("reason" in result) {
+        plan.skipped.push(result);
+      } else {
+        plan.routes.push(result);
+      }
+    }
+
+    const rank = (routes: BridgeRoute[]) =>
+      this.rankRoutes(routes, strategy, weights, prices, targetBalance.decimals);
+
+    plan.routes = rank(plan.routes);
+    plan.legs = plan.routes.length > 0
+      ? [plan.routes[0]]
+      : await this.planLegs(balances, targetBalance, shortfall, rank);
+
+    return plan;
+  }
+
+  /**
+   * Split a shortfall across several source chains
+   *
+   * Each chain is quoted for its whole balance over every protocol and keeps
+   * its best-ranked one. Chains are then drawn from largest deliverable
+   * amount first (fewest legs); the last leg is re-quoted for just the
+   * remainder.
+   */
+  private async planLegs(
+    sources: ChainBalance[],
+    target: ChainBalance,
+    shortfall: bigint,
+    rank: (routes: BridgeRoute[]) => BridgeRoute[]
+  ): Promise<BridgeRoute[]> {
+    const capacities = await Promise.all(
+      sources.flatMap((source) =>
+        this.config.bridgeProtocols.map((protocol) =>
+          this.quoteRoute(source, target, protocol, source.balance, false).catch(() => undefined)
+        )
+      )
+    );
+
+    // A chain may hold several variants; only one leg per chain
+    const best = new Map<SupportedChain, BridgeRoute>();
+    for (const route of rank(capacities.filter((r): r is BridgeRoute => r !== undefined && !("reason" in r)))) {
+      if (!best.has(route.fromChain)) {
+        best.set(route.fromChain, route);
+      }
+    }
+
+    const ordered = [...best.values()].sort((a, b) =>
+      a.amountReceived > b.amountReceived ? -1 : a.amountReceived < b.amountReceived ? 1 : 0
+    );
+
+    const legs: BridgeRoute[] = [];
+    let remaining = shortfall;
+
+    for (const capacity of ordered) {
+      if (remaining === 0n) {
+        break;
+      }
+
+      if (capacity.amountReceived <= remaining) {
+        legs.push(capacity);
+        remaining -= capacity.amountReceived;
+        continue;
+      }
+
+      // Only part of this chain's balance is needed
+      const source = sources.find(
+        (b) => b.chain === capacity.fromChain && b.tokenAddress === capacity.tokenAddress
+      )!;
+      const leg = await this.quoteRoute(source, target, capacity.bridgeProtocol, remaining).catch(() => undefined);
+      legs.push(leg && !("reason" in leg) ? { ...leg, score: capacity.score } : capacity);
+      remaining = 0n;
+    }
+
+    return remaining === 0n ? legs : [];
+  }
+
+  /**
+   * Quote one candidate route for delivering `shortfall` of the target
+   * token, grossing up the amount once (unless `grossUp` is false) if the
+   * protocol takes its fee out of the bridged tokens
+   */
+  private async quoteRoute(
+    source: ChainBalance,
+    target: ChainBalance,
+    protocol: BridgeProtocol,
+    shortfall: bigint,
+    grossUp = true
+  ): Promise<BridgeRoute | SkippedRoute> {
+    const fromChain = source.chain;
+    const toChain = target.chain;
+    const tokenAddress = source.tokenAddress;
+    const from = this.config.walletAddress;
+    const label = source.symbol ? `${source.symbol} (${source.variant})` : tokenAddress;
+
+    const supported =
+      protocol === "ccip"
+        ? this.ccip.supportsRoute(fromChain, toChain, tokenAddress)
+        : this.layerZero.supportsRoute(fromChain, toChain, tokenAddress);
+
+    if (!supported) {
+      return { fromChain, bridgeProtocol: protocol, reason: `No ${protocol} route for ${label} to ${toChain}` };
+    }
+
+    // Both protocols deliver the destination's registry token with the same symbol
+    const symbol = getTokenSymbol(fromChain, tokenAddress);
+    const delivered = symbol ? getTokenAddress(toChain, symbol) : undefined;
+
+    if (delivered?.toLowerCase() !== target.tokenAddress.toLowerCase()) {
       return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
+        fromChain,
+        bridgeProtocol: protocol,
+        reason: `${protocol} delivers ${symbol} ${delivered} on ${toChain}, not the requested ${target.tokenAddress}`,
       };
     }
+
+    let amount = shortfall;
+    let amountReceived: bigint;
+    let estimatedFee: bigint;
+    let spender: Address;
+    let approvalRequired = true;
+    let estimatedTime: number;
+
+    if (protocol === "ccip") {
+      // Tokens arrive 1:1; the fee is paid separately in native currency
+      const quote = await this.ccip.quote({ from, fromChain, toChain, tokenAddress, amount });
+      amountReceived = amount;
+      estimatedFee = quote.fee;
+      spender = quote.router;
+      estimatedTime = getNetwork(fromChain).ccip?.estimatedTime ?? DEFAULT_BRIDGE_TIME.ccip;
+    } else {
+      let quote = await this.layerZero.quote({ from, fromChain, toChain, tokenAddress, amount });
+
+      if (grossUp && quote.amountReceived < shortfall) {
+        amount += shortfall - quote.amountReceived;
+        quote = await this.layerZero.quote({ from, fromChain, toChain, tokenAddress, amount });
+      }
+
+      amountReceived = quote.amountReceived;
+      estimatedFee = quote.nativeFee;
+      spender = quote.oft;
+      approvalRequired = quote.approvalRequired;
+      estimatedTime = getNetwork(fromChain).layerZero?.estimatedTime ?? DEFAULT_BRIDGE_TIME.layerzero;
+    }
+
+    if (source.balance < amount) {
+      return {
+        fromChain,
+        bridgeProtocol: protocol,
+        reason: `Balance ${formatUnits(source.balance, source.decimals)} is below ${formatUnits(amount, source.decimals)}`,
+      };
+    }
+
+    const [gasPrice, allowance] = await Promise.all([
+      this.blockchain.getPublicClient(fromChain).getGasPrice(),
+      approvalRequired
+        ? this.blockchain.checkAllowance({ owner: from, spender, tokenAddress, network: fromChain })
+        : Promise.resolve(amount),
+    ]);
+
+    const gas = BRIDGE_SEND_GAS[protocol] + (allowance < amount ? APPROVE_GAS : 0n);
+
+    // Fees the bridge keeps: the native fee, plus tokens withheld in transit
+    const fees = [
+      { token: "native" as const, amount: estimatedFee },
+      { token: tokenAddress, amount: amount - amountReceived },
+    ];
+
+    for (const fee of fees.filter((f) => f.amount > 0n)) {
+      const decision = await this.blockchain.checkSpend({ kind: "bridge_fee", network: fromChain, to: spender, ...fee });
+
+      if (!decision.allowed) {
+        return { fromChain, bridgeProtocol: protocol, reason: `Spending policy: ${decision.denial.reason}` };
+      }
+    }
+
+    return {
+      fromChain,
+      toChain,
+      tokenAddress,
+      amount,
+      amountReceived,
+      estimatedTime,
+      estimatedFee,
+      estimatedGasCost: gas * gasPrice,
+      bridgeProtocol: protocol,
+      score: 0,
+    };
+  }
+
+  /**
+   * Score and sort routes, best first
+   */
+  private rankRoutes(
+    routes: BridgeRoute[],
+    strategy: RouteStrategy,
+    weights: RouteWeights,
+    prices: Partial<Record<string, number>>,
+    tokenDecimals: number
+  ): BridgeRoute[] {
+    const costOf = (route: BridgeRoute): number => {
+      const native = getNetwork(route.fromChain).nativeCurrency;
+      const nativeCost =
+        Number(formatUnits(route.estimatedFee + route.estimatedGasCost, native.decimals)) *
+        (prices[native.symbol] ?? 1);
+
+      const symbol = getTokenSymbol(route.fromChain, route.tokenAddress);
+      const tokenPrice = symbol ? prices[symbol] : undefined;
+      const tokenCost = tokenPrice
+        ? Number(formatUnits(route.amount - route.amountReceived, tokenDecimals)) * tokenPrice
+        : 0;
+
+      return nativeCost + tokenCost;
+    };
+
+    const costs = new Map(routes.map((route) => [route, costOf(route)]));
+    const maxCost = Math.max(...costs.values(), Number.MIN_VALUE);
+    const maxTime = Math.max(...routes.map((route) => route.estimatedTime), 1);
+
+    for (const route of routes) {
+      const cost = costs.get(route)!;
+      route.score =
+        strategy === "cheapest"
+          ? cost
+          : strategy === "fastest"
+            ? route.estimatedTime
+            : weights.fee * (cost / maxCost) + weights.time * (route.estimatedTime / maxTime);
+    }
+
+    // Ties go to the cheaper route, then the faster one
+    return [...routes].sort(
+      (a, b) =>
+        a.score - b.score ||
+        costs.get(a)! - costs.get(b)! ||
+        a.estimatedTime - b.estimatedTime
+    );
+  }
+
+  // ==========================================================================
+  // 1c. DRY RUN
+  // ==========================================================================
+
+  /**
+   * Work out everything a payment would do, without submitting anything
+   *
+   * Resolves the recipient, plans the bridge routes, checks the spending
+   * policy, and simulates each leg's approvals and send on its source chain
+   * (see `BlockchainOperations.simulateTransaction`). When no bridge is
+   * needed, the payment transfer itself is simulated too.
+   *
+   * @example
+   * ```ts
+   * const plan = await cre.planPayment(paymentRequest);
+   *
+   * if (!plan.feasible) console.log("Would fail:", plan.error);
+   * for (const leg of plan.bridges) {
+   *   console.log(leg.route.fromChain, leg.route.bridgeProtocol, leg.simulations.map((s) => s.gasUsed));
+   * }
+   * console.log(plan.payment?.balanceChanges, plan.maxFees);
+   * ```
+   */
+  async planPayment(paymentRequest: X402PaymentRequest): Promise<PaymentPlan> {
+    const { network, asset, resource } = paymentRequest;
+    const plan: PaymentPlan = { paymentRequest, feasible: false, bridges: [], maxFees: {} };
+
+    // Same wallet and settings, but every transaction is only simulated
+    const dryRun = new CrossChainResourceExecution(this.client, this.config, this.blockchain.withDryRun());
+    const simulate = async (send: () => Promise<unknown>) => {
+      const before = dryRun.blockchain.getSimulations().length;
+      const failure = await send().then(
+        () => undefined,
+        (error) => toBlockchainError(error)
+      );
+      return { simulations: dryRun.blockchain.getSimulations().slice(before), failure, error: failure?.message };
+    };
+
+    this.logger.info(`Dry run: nothing will be sent`);
+
+    try {
+      plan.payTo = await this.blockchain.resolveAddress(paymentRequest.payTo, network);
+      plan.routes = await this.planRoutes(paymentRequest);
+      const { requiredAmount, shortfall, legs } = plan.routes;
+
+      const decision = await this.blockchain.checkSpend({
+        kind: "transfer",
+        network,
+        token: asset,
+        amount: requiredAmount,
+        to: plan.payTo,
+        resource,
+      });
+
+      if (!decision.allowed) {
+        plan.denial = decision.denial;
+        plan.failure = new SpendingPolicyError(decision.denial);
+        plan.error = plan.failure.message;
+        return plan;
+      }
+
+      if (shortfall > 0n && legs.length === 0) {
+        plan.failure = new InsufficientFundsError(
+          `Insufficient balance across all chains. Required: ${paymentRequest.maxAmountRequired}`,
+          { token: asset, required: requiredAmount },
+          { network }
+        );
+        plan.error = plan.failure.message;
+        return plan;
+      }
+
+      for (const route of legs) {
+        const { simulations, error, failure } = await simulate(async () => {
+          const result = await dryRun.bridgeAssets(route);
+          if (!result.success) {
+            throw result.failure;
+          }
+        });
+        plan.bridges.push({ route, simulations, error, failure });
+        this.addMaxFees(plan, simulations);
+      }
+
+      if (shortfall === 0n) {
+        const { simulations, error, failure } = await simulate(() =>
+          dryRun.blockchain.transferERC20({
+            from: this.config.walletAddress,
+            to: plan.payTo!,
+            tokenAddress: asset,
+            amount: requiredAmount,
+            network,
+            resource,
+          })
+        );
+        plan.payment = simulations[simulations.length - 1];
+        plan.error = error;
+        plan.failure = failure;
+        this.addMaxFees(plan, simulations);
+      }
+
+      const failedLeg = plan.bridges.find((leg) => leg.error);
+      if (failedLeg) {
+        plan.failure = new BridgeFailedError(
+          `Bridge from ${failedLeg.route.fromChain} would fail: ${failedLeg.error}`,
+          { fromChain: failedLeg.route.fromChain, bridgeProtocol: failedLeg.route.bridgeProtocol },
+          { cause: failedLeg.failure, network }
+        );
+        plan.error = plan.failure.message;
+      }
+
+      plan.feasible = !plan.error;
+    } catch (error) {
+      plan.failure = toBlockchainError(error, { network });
+      plan.error = plan.failure.message;
+    }
+
+    this.logger.info(plan.feasible ? `Dry run: payment would succeed` : `Dry run: ${plan.error}`);
+    return plan;
+  }
+
+  private addMaxFees(plan: PaymentPlan, simulations: SimulationResult[]): void {
+    for (const simulation of simulations) {
+      plan.maxFees[simulation.network] = (plan.maxFees[simulation.network] ?? 0n) + simulation.maxFee;
+    }
   }
 
   // ==========================================================================
@@ -267,7 +1356,7 @@ export class CrossChainResourceExecution {
     const balance = await this.blockchain.getERC20Balance(
       tokenAddress,
       this.config.walletAddress,
-      chain as any
+      chain
     );
 
     return {
@@ -282,25 +1371,42 @@ export class CrossChainResourceExecution {
   // 3. SCAN ALL CHAINS FOR BALANCES
   // ==========================================================================
 
-  private async scanAllChains(tokenAddress: Address): Promise<ChainBalance[]> {
-    const balancePromises = this.config.supportedChains.map((chain) =>
-      this.checkBalance(tokenAddress, chain).catch((error) => {
-        console.warn(`   ⚠️  Failed to check ${chain}: ${error.message}`);
-        return {
-          chain,
-          balance: 0n,
-          tokenAddress,
-          decimals: 18,
-        };
-      })
+  /**
+   * Balances of every registered equivalent of a target-chain token (native
+   * and bridged variants) on the other supported chains
+   */
+  private async scanAllChains(
+    tokenAddress: Address,
+    targetChain: SupportedChain
+  ): Promise<ChainBalance[]> {
+    const equivalents = getAssetEquivalents(targetChain, tokenAddress).filter((deployment) =>
+      this.config.supportedChains.includes(deployment.network)
+    );
+
+    const balancePromises = equivalents.map((deployment) =>
+      this.checkBalance(deployment.address, deployment.network)
+        .then((balance) => ({ ...balance, symbol: deployment.symbol, variant: deployment.variant }))
+        .catch((error) => {
+          this.logger.warn(`Failed to check ${deployment.symbol} on ${deployment.network}: ${error.message}`, {
+            network: deployment.network,
+            token: deployment.address,
+          });
+          return {
+            chain: deployment.network,
+            balance: 0n,
+            tokenAddress: deployment.address,
+            decimals: 18,
+            symbol: deployment.symbol,
+            variant: deployment.variant,
+          };
+        })
     );
 
     const balances = await Promise.all(balancePromises);
 
-    console.log(`\n📊 Multi-Chain Balance Summary:`);
     for (const balance of balances) {
       if (balance.balance > 0n) {
-        console.log(`   ${balance.chain}: ${formatUnits(balance.balance, balance.decimals)}`);
+        this.logger.debug(`Balance on ${balance.chain}: ${formatUnits(balance.balance, balance.decimals)} ${balance.symbol}`);
       }
     }
 
@@ -308,87 +1414,105 @@ export class CrossChainResourceExecution {
   }
 
   // ==========================================================================
-  // 4. BRIDGE ASSETS (LayerZero)
+  // 4. BRIDGE ASSETS (LayerZero V2 OFT / Chainlink CCIP)
   // ==========================================================================
 
-  private async bridgeAssets(options: {
-    fromChain: SupportedChain;
-    toChain: SupportedChain;
-    tokenAddress: Address;
-    amount: bigint;
-  }): Promise<{ success: boolean; transactionHash?: Hex; error?: string }> {
-    const { fromChain, toChain, tokenAddress, amount } = options;
+  /**
+   * Send one leg; with `resume`, its send may already have gone out under
+   * this key, so the bridge skips the estimates that would revert
+   */
+  private async bridgeAssets(
+    route: BridgeRoute,
+    idempotencyKey?: string,
+    submission: Pick<LayerZeroBridgeOptions, "resume" | "onSubmit"> = {}
+  ): Promise<BridgeLegResult> {
+    const { fromChain, toChain, tokenAddress, amount, amountReceived, bridgeProtocol } = route;
+    const leg = { fromChain, bridgeProtocol, amount, amountReceived };
 
     try {
-      // Get LayerZero endpoint address
-      const lzEndpoint = LAYERZERO_ENDPOINTS[fromChain];
-      
-      if (!lzEndpoint) {
+      if (bridgeProtocol === "ccip") {
+        // Quote the fee, approve the router, and ccipSend (fee paid in native currency)
+        this.logger.debug(`Quoting and sending Chainlink CCIP transfer from ${fromChain}`);
+        const result = await this.ccip.bridge({
+          from: this.config.walletAddress,
+          fromChain,
+          toChain,
+          tokenAddress,
+          amount,
+          confirmations: this.config.confirmations,
+          idempotencyKey,
+          ...submission,
+        });
+
+        this.blockchain.report({
+          type: "bridge_submitted",
+          fromChain,
+          toChain,
+          bridgeProtocol,
+          amount,
+          fee: result.fee,
+          transactionHash: result.transactionHash,
+          messageId: result.messageId,
+        });
+
         return {
-          success: false,
-          error: `LayerZero not supported on ${fromChain}`,
+          ...leg,
+          success: true,
+          transactionHash: result.transactionHash,
+          messageId: result.messageId,
         };
       }
 
-      // Get destination chain ID (LayerZero chain IDs)
-      const destChainId = this.getLayerZeroChainId(toChain);
-
-      // Step 1: Approve LayerZero to spend tokens
-      console.log(`   1️⃣  Approving LayerZero contract...`);
-      await this.blockchain.approveERC20({
+      // Quote the native messaging fee, approve the OFT if needed, and send
+      this.logger.debug(`Quoting and sending LayerZero OFT transfer from ${fromChain}`);
+      const result = await this.layerZero.bridge({
         from: this.config.walletAddress,
-        spender: lzEndpoint as Address,
+        fromChain,
+        toChain,
         tokenAddress,
         amount,
-        network: fromChain as any,
-      });
-
-      // Step 2: Encode bridge transaction
-      // This is a simplified version - real LayerZero integration requires:
-      // - OFT (Omnichain Fungible Token) contract interaction
-      // - Adapter parameters for gas settings
-      // - Proper message encoding
-      
-      const bridgeData = encodeFunctionData({
-        abi: LAYERZERO_BRIDGE_ABI,
-        functionName: "sendFrom",
-        args: [
-          this.config.walletAddress, // from
-          destChainId, // destination chain
-          this.config.walletAddress, // to (on destination)
-          amount, // amount
-          this.config.walletAddress, // refund address
-          "0x0000000000000000000000000000000000000000" as Address, // zro payment address
-          "0x", // adapter params
-        ],
+        confirmations: this.config.confirmations,
+        idempotencyKey,
+        ...submission,
       });
 
-      // Step 3: Send bridge transaction
-      console.log(`   2️⃣  Sending bridge transaction...`);
-      const result = await this.blockchain.sendTransaction({
-        from: this.config.walletAddress,
-        transaction: {
-          to: lzEndpoint as Address,
-          data: bridgeData,
-        },
-        network: fromChain as any,
+      this.blockchain.report({
+        type: "bridge_submitted",
+        fromChain,
+        toChain,
+        bridgeProtocol,
+        amount,
+        fee: result.nativeFee,
+        transactionHash: result.transactionHash,
+        messageId: result.guid,
       });
 
-      console.log(`   ✅ Bridge initiated: ${result.transactionHash}`);
-
       return {
+        ...leg,
         success: true,
         transactionHash: result.transactionHash,
+        messageId: result.guid,
+        amountReceived: result.amountReceived,
       };
 
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Bridge failed",
-      };
+      const failure = toBlockchainError(error, { network: fromChain });
+      return { ...leg, success: false, error: failure.message, errorCode: failure.code, failure };
     }
   }
 
+  /**
+   * Whether a failed leg's or payment's transaction reached the chain (mined
+   * and reverted, or dropped), so resending under the same idempotency key
+   * would only return it again
+   */
+  private isSpentAttempt(failure: BlockchainError): boolean {
+    return (
+      (failure instanceof TransactionRevertedError && !!failure.details.transactionHash && !failure.details.simulated) ||
+      (failure instanceof ReceiptTimeoutError && failure.details.dropped)
+    );
+  }
+
   // ==========================================================================
   // 5. WAIT FOR BRIDGE COMPLETION
   // ==========================================================================
@@ -405,20 +1529,28 @@ export class CrossChainResourceExecution {
 
     while (Date.now() - startTime < maxWaitMs) {
       attempts++;
-      
-      console.log(`   🔄 Verification attempt ${attempts}...`);
 
       try {
-        const balance = await this.checkBalance(tokenAddress, targetChain);
+        const { balance, decimals } = await this.checkBalance(tokenAddress, targetChain);
 
-        if (balance.balance >= requiredAmount) {
-          console.log(`   ✅ Verified! New balance: ${formatUnits(balance.balance, balance.decimals)}`);
+        if (balance >= requiredAmount) {
+          this.blockchain.report({ type: "bridge_completed", network: targetChain, balance, decimals });
           return true;
         }
 
-        console.log(`   ⏳ Not yet... Current balance: ${formatUnits(balance.balance, balance.decimals)}`);
+        this.blockchain.report({
+          type: "bridge_poll",
+          network: targetChain,
+          attempt: attempts,
+          balance,
+          required: requiredAmount,
+          decimals,
+        });
       } catch (error) {
-        console.warn(`   ⚠️  Verification error: ${error}`);
+        this.logger.warn(`Bridge verification attempt ${attempts} on ${targetChain} failed: ${error}`, {
+          network: targetChain,
+          attempt: attempts,
+        });
       }
 
       // Wait before next poll
@@ -432,65 +1564,154 @@ export class CrossChainResourceExecution {
   // 6. SEND PAYMENT
   // ==========================================================================
 
-  private async sendPayment(
-    paymentRequest: X402PaymentRequest,
-    amount: bigint
-  ): Promise<{ success: boolean; transactionHash?: Hex; error?: string }> {
-    try {
-      const result = await this.blockchain.transferERC20({
-        from: this.config.walletAddress,
-        to: paymentRequest.payTo,
-        tokenAddress: paymentRequest.asset,
-        amount,
-        network: paymentRequest.network as any,
-      });
+  private async sendPayment(payment: PaymentRecord, store: PaymentStore): Promise<PaymentResult> {
+    const paymentRequest = payment.request;
 
-      console.log(`✅ Payment successful: ${result.transactionHash}`);
+    if (!payment.transactionHash) {
+      try {
+        const result = await this.blockchain.transferERC20({
+          from: this.config.walletAddress,
+          to: payment.payTo!,
+          tokenAddress: paymentRequest.asset,
+          amount: payment.requiredAmount!,
+          network: paymentRequest.network,
+          resource: paymentRequest.resource,
+          // Same key on a resumed attempt, so CDP never sends a second payment
+          idempotencyKey: deriveIdempotencyKey(payment.id, "pay", ...(payment.payAttempt ? [payment.payAttempt] : [])),
+          // A transfer that already went out has spent the balance, so estimating
+          // gas would revert before CDP could return it
+          gas: payment.submitting ? RESUMED_TRANSFER_GAS : undefined,
+          onSubmit: async () => {
+            if (!payment.submitting) {
+              await this.updatePayment(payment, store, { submitting: true });
+            }
+          },
+        });
+
+        // Saved before waiting, so a restart confirms this transaction instead of paying again
+        await this.updatePayment(payment, store, { transactionHash: result.transactionHash, submitting: undefined });
+        this.blockchain.report({
+          type: "payment_sent",
+          paymentId: payment.id,
+          network: paymentRequest.network,
+          transactionHash: result.transactionHash,
+        });
+      } catch (error) {
+        if (error instanceof SpendingPolicyError) {
+          await this.updatePayment(payment, store, { status: "failed", error: error.message, errorCode: error.code });
+          return { ...this.toResult(payment), failure: error, denial: error.denial };
+        }
+        throw error;
+      }
+    }
 
-      return {
-        success: true,
-        transactionHash: result.transactionHash,
-      };
+    let receipt: TransactionReceiptResult;
+    try {
+      receipt = await this.waitForReceipt(payment.transactionHash!, paymentRequest.network);
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Payment failed",
-      };
+      const failure = toBlockchainError(error, { network: paymentRequest.network });
+      if (this.isSpentAttempt(failure)) {
+        // Dropped: stay `paying` and send again under a new key on the next attempt
+        await this.updatePayment(payment, store, {
+          transactionHash: undefined,
+          payAttempt: (payment.payAttempt ?? 0) + 1,
+        });
+      }
+      throw failure;
+    }
+
+    if (receipt.status === "reverted") {
+      const failure = fromRevert(
+        await this.blockchain.getRevertDetails(receipt, paymentRequest.network),
+        { transactionHash: receipt.transactionHash },
+        { network: paymentRequest.network }
+      );
+      await this.updatePayment(payment, store, { status: "failed", error: failure.message, errorCode: failure.code });
+      return { ...this.toResult(payment), receipt, failure };
     }
+
+    await this.updatePayment(payment, store, {
+      status: "paid",
+      transactionHash: receipt.transactionHash,
+      error: undefined,
+      errorCode: undefined,
+    });
+    this.blockchain.report({
+      type: "payment_confirmed",
+      paymentId: payment.id,
+      network: paymentRequest.network,
+      transactionHash: receipt.transactionHash,
+    });
+
+    return { ...this.toResult(payment), receipt };
   }
 
   // ==========================================================================
   // UTILITY METHODS
   // ==========================================================================
 
+  /**
+   * Wait for the configured confirmations
+   */
+  private async waitForReceipt(
+    transactionHash: Hex,
+    chain: SupportedChain
+  ): Promise<TransactionReceiptResult> {
+    return this.blockchain.waitForReceipt({
+      transactionHash,
+      network: chain,
+      confirmations: this.config.confirmations,
+      timeoutMs: this.config.receiptTimeout,
+    });
+  }
+
+  /**
+   * Decimals of a token; throws a retryable error if they can't be read,
+   * since a guess would misprice the payment saved from them
+   */
   private async getTokenDecimals(
     tokenAddress: Address,
     chain: SupportedChain
   ): Promise<number> {
-    // In production, cache this to avoid repeated calls
     try {
       const info = await this.blockchain.getTokenInfo(
         tokenAddress,
-        chain as any
+        chain
       );
       return info.decimals;
-    } catch {
-      // Default to 18 if fails
-      return 18;
+    } catch (error) {
+      throw new TransportError(
+        `Could not read the decimals of ${tokenAddress} on ${chain}: ${toBlockchainError(error).message}`,
+        { source: "rpc" },
+        { cause: error, network: chain, retryable: true }
+      );
     }
   }
 
-  private getLayerZeroChainId(chain: SupportedChain): number {
-    const chainIds: Record<SupportedChain, number> = {
-      ethereum: 101,
-      "ethereum-sepolia": 10161,
-      base: 184,
-      "base-sepolia": 10160,
-      arbitrum: 110,
-      optimism: 111,
-      polygon: 109,
+  /**
+   * Apply changes to a payment and save it
+   */
+  private async updatePayment(
+    payment: PaymentRecord,
+    store: PaymentStore,
+    changes: Partial<PaymentRecord> = {}
+  ): Promise<void> {
+    Object.assign(payment, changes, { updatedAt: Date.now() });
+    await store.save(payment);
+  }
+
+  private toResult(payment: PaymentRecord): PaymentResult {
+    const bridges = payment.legs?.flatMap((leg) => (leg.result ? [leg.result] : []));
+
+    return {
+      success: payment.status === "paid",
+      paymentId: payment.id,
+      status: payment.status,
+      transactionHash: payment.transactionHash,
+      payTo: payment.payTo,
+      bridges: bridges?.length ? bridges : undefined,
+      error: payment.error,
     };
-    return chainIds[chain] || 0;
   }
 
   private sleep(ms: number): Promise<void> {
@@ -510,42 +1731,26 @@ export class CrossChainResourceExecution {
   getConfig(): CREConfig {
     return { ...this.config };
   }
-}
 
-// ============================================================================
-// LAYERZERO BRIDGE ABI (Simplified)
-// ============================================================================
+  /**
+   * Call `listener` for every progress event (payments, bridges, and the
+   * underlying transactions); returns a function that unsubscribes
+   *
+   * @example
+   * ```ts
+   * cre.onProgress((event) => {
+   *   if (event.type === "bridge_poll") console.log(`Attempt ${event.attempt}: ${event.balance}/${event.required}`);
+   * });
+   * ```
+   */
+  onProgress(listener: ProgressListener): () => void {
+    return this.blockchain.onProgress(listener);
+  }
 
-const LAYERZERO_BRIDGE_ABI = [
-  {
-    inputs: [
-      { name: "_from", type: "address" },
-      { name: "_dstChainId", type: "uint16" },
-      { name: "_toAddress", type: "bytes" },
-      { name: "_amount", type: "uint256" },
-      { name: "_refundAddress", type: "address" },
-      { name: "_zroPaymentAddress", type: "address" },
-      { name: "_adapterParams", type: "bytes" },
-    ],
-    name: "sendFrom",
-    outputs: [],
-    stateMutability: "payable",
-    type: "function",
-  },
-  {
-    inputs: [
-      { name: "_dstChainId", type: "uint16" },
-      { name: "_toAddress", type: "bytes" },
-      { name: "_amount", type: "uint256" },
-      { name: "_useZro", type: "bool" },
-      { name: "_adapterParams", type: "bytes" },
-    ],
-    name: "estimateSendFee",
-    outputs: [
-      { name: "nativeFee", type: "uint256" },
-      { name: "zroFee", type: "uint256" },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
+  /**
+   * Iterate progress events as they happen, until the loop is left or `signal` aborts
+   */
+  progressEvents(options: { signal?: AbortSignal } = {}): AsyncIterableIterator<ProgressEvent> {
+    return this.blockchain.progressEvents(options);
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * EIP-3009 Transfer With Authorization
+ *
+ * Lets a payer sign a transfer off-chain (EIP-712 typed data) that anyone,
+ * e.g. an x402 resource server or facilitator, can submit on-chain with
+ * `transferWithAuthorization`. Supported by USDC and other FiatTokenV2
+ * derivatives.
+ *
+ * Spec: https://eips.ethereum.org/EIPS/eip-3009
+ */
+
+import { zeroAddress, zeroHash, type Address, type Hex, type TypedDataDomain } from "viem";
+import { EIP3009_ABI } from "./abis.js";
+import type { BlockchainOperations } from "./blockchain.js";
+import { getNetwork, type NetworkId } from "./networks.js";
+import { randomNonce } from "./utils.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TransferAuthorization {
+  from: Address;
+  to: Address;
+  value: bigint;
+  /** Unix time (seconds) after which the authorization is valid */
+  validAfter: bigint;
+  /** Unix time (seconds) before which the authorization must be used */
+  validBefore: bigint;
+  /** Random 32-byte nonce; each nonce can be used once per authorizer */
+  nonce: Hex;
+}
+
+export interface SignedTransferAuthorization {
+  authorization: TransferAuthorization;
+  signature: Hex;
+  /** Token contract the authorization is for */
+  tokenAddress: Address;
+  network: NetworkId;
+}
+
+export interface SignTransferAuthorizationOptions {
+  /** Payer (CDP account) */
+  from: Address;
+  /** Recipient */
+  to: Address;
+  /** Token contract */
+  tokenAddress: Address;
+  /** Amount in the token's smallest unit */
+  amount: bigint;
+  /** Network the token is on */
+  network: NetworkId;
+  /** Seconds until the authorization expires (default: 600) */
+  validForSeconds?: number;
+  /** EIP-712 domain name and version; read from the token if omitted */
+  domain?: { name?: string; version?: string };
+  /** x402 resource the authorization pays for, for resource-scoped policy rules */
+  resource?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+} as const;
+
+const DEFAULT_VALID_FOR_SECONDS = 600;
+
+/** Backdate validAfter so a verifier whose clock runs behind still accepts it */
+const CLOCK_SKEW_SECONDS = 600;
+
+// ============================================================================
+// TRANSFER AUTHORIZATIONS
+// ============================================================================
+
+export class TransferAuthorizations {
+  private support = new Map<string, boolean>();
+
+  constructor(private blockchain: BlockchainOperations) {}
+
+  /**
+   * Check whether a token implements EIP-3009 (probes `authorizationState`)
+   */
+  async supportsAuthorization(tokenAddress: Address, network: NetworkId): Promise<boolean> {
+    const key = `${network}:${tokenAddress.toLowerCase()}`;
+    const cached = this.support.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const supported = await this.blockchain
+      .readContract({
+        contractAddress: tokenAddress,
+        abi: EIP3009_ABI,
+        functionName: "authorizationState",
+        args: [zeroAddress, zeroHash],
+        network,
+      })
+      .then(() => true, () => false);
+
+    this.support.set(key, supported);
+    return supported;
+  }
+
+  /**
+   * EIP-712 domain of a token, reading `name()` / `version()` where not given
+   */
+  async getDomain(
+    tokenAddress: Address,
+    network: NetworkId,
+    overrides: { name?: string; version?: string } = {}
+  ): Promise<TypedDataDomain> {
+    const read = (functionName: "name" | "version") =>
+      this.blockchain.readContract({
+        contractAddress: tokenAddress,
+        abi: EIP3009_ABI,
+        functionName,
+        network,
+      }) as Promise<string>;
+
+    const [name, version] = await Promise.all([
+      overrides.name ?? read("name"),
+      overrides.version ?? read("version"),
+    ]);
+
+    return {
+      name,
+      version,
+      chainId: getNetwork(network).chainId,
+      verifyingContract: tokenAddress,
+    };
+  }
+
+  /**
+   * Build and sign a `TransferWithAuthorization` with a random nonce
+   *
+   * A signed authorization can be settled by anyone, so it is checked
+   * against (and counted in) the spending policy like a transfer.
+   *
+   * @example
+   * ```ts
+   * const signed = await authorizations.sign({
+   *   from: account.address,
+   *   to: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
+   *   tokenAddress: getTokenAddress("base", "USDC")!,
+   *   amount: parseUnits("1.5", 6),
+   *   network: "base",
+   *   domain: { name: "USD Coin", version: "2" },
+   * });
+   * ```
+   */
+  async sign(options: SignTransferAuthorizationOptions): Promise<SignedTransferAuthorization> {
+    const {
+      from,
+      to,
+      tokenAddress,
+      amount,
+      network,
+      validForSeconds = DEFAULT_VALID_FOR_SECONDS,
+    } = options;
+
+    const spend = await this.blockchain.authorizeSpend({
+      kind: "transfer",
+      network,
+      token: tokenAddress,
+      amount,
+      to,
+      resource: options.resource,
+    });
+
+    try {
+      const domain = await this.getDomain(tokenAddress, network, options.domain);
+      const now = Math.floor(Date.now() / 1000);
+
+      const authorization: TransferAuthorization = {
+        from,
+        to,
+        value: amount,
+        validAfter: BigInt(now - CLOCK_SKEW_SECONDS),
+        validBefore: BigInt(now + validForSeconds),
+        nonce: randomNonce(),
+      };
+
+      const signature = await this.blockchain.signTypedData({
+        from,
+        domain,
+        types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+        primaryType: "TransferWithAuthorization",
+        message: { ...authorization },
+      });
+
+      return { authorization, signature, tokenAddress, network };
+    } catch (error) {
+      if (spend) {
+        await this.blockchain.getSpendingPolicy()?.release(spend);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,480 @@
+/**
+ * Typed Errors
+ *
+ * Failures from BlockchainOperations, the bridges and the CRE are
+ * `BlockchainError`s carrying:
+ * - `code`: what went wrong, to branch on without parsing messages
+ * - `retryable`: whether the same operation can succeed if tried again
+ *   later (transport failures, timeouts, fee spikes), as opposed to needing
+ *   a change first (more funds, a bigger allowance, another name)
+ * - `cause`: the original error from viem, the CDP client, ...
+ *
+ * `toBlockchainError` classifies anything viem or the CDP client throws;
+ * reverts are decoded (`Error(string)`, panics, and common custom errors).
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError as ViemInsufficientFundsError,
+  NonceTooLowError,
+  RawContractError,
+  RpcRequestError,
+  SocketClosedError,
+  TimeoutError,
+  WebSocketRequestError,
+  decodeErrorResult,
+  type Abi,
+  type Address,
+  type Hex,
+} from "viem";
+import { COMMON_ERRORS_ABI } from "./abis.js";
+import type { NetworkId } from "./networks.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BlockchainErrorCode =
+  | "insufficient_funds"
+  | "allowance_too_low"
+  | "ens_name_unavailable"
+  | "ens_commitment_expired"
+  | "ens_not_resolved"
+  | "route_unavailable"
+  | "bridge_failed"
+  | "bridge_timeout"
+  | "transaction_reverted"
+  | "transaction_dropped"
+  | "receipt_timeout"
+  | "nonce_conflict"
+  | "fee_ceiling_exceeded"
+  | "policy_denied"
+  | "simulation_unsupported"
+  | "transport"
+  | "unknown";
+
+export interface BlockchainErrorOptions {
+  /** The original error */
+  cause?: unknown;
+  /** Whether trying again later can succeed (default: false) */
+  retryable?: boolean;
+  network?: NetworkId;
+}
+
+export interface RevertDetails {
+  /** Readable reason */
+  reason: string;
+  /** Raw revert data ("0x" if the node returned none) */
+  data: Hex;
+  /** "Error", "Panic", or the custom error's name, if decoded */
+  errorName?: string;
+  args?: readonly unknown[];
+  /** Solidity panic code (e.g. 0x11 for arithmetic overflow) */
+  panicCode?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array",
+  0x31: "pop on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized function",
+};
+
+/** CDP API error types worth retrying */
+const RETRYABLE_CDP_ERRORS = new Set([
+  "internal_server_error",
+  "rate_limit_exceeded",
+  "bad_gateway",
+  "service_unavailable",
+  "network_timeout",
+  "network_connection_failed",
+  "network_dns_failure",
+  "unexpected_error",
+]);
+
+/** Node rejections CDP passes through when a nonce is already taken */
+const NONCE_CONFLICT_MESSAGE = /nonce too low|nonce has already been used|replacement transaction underpriced/i;
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export class BlockchainError extends Error {
+  readonly code: BlockchainErrorCode;
+  readonly retryable: boolean;
+  readonly network?: NetworkId;
+
+  constructor(code: BlockchainErrorCode, message: string, options: BlockchainErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "BlockchainError";
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.network = options.network;
+  }
+}
+
+export class InsufficientFundsError extends BlockchainError {
+  constructor(
+    message: string,
+    public readonly details: {
+      /** Token contract, or "native" for gas and value */
+      token?: Address | "native";
+      /** Amounts in the token's smallest unit, when known */
+      required?: bigint;
+      available?: bigint;
+    } = {},
+    options: BlockchainErrorOptions = {}
+  ) {
+    super("insufficient_funds", message, options);
+    this.name = "InsufficientFundsError";
+  }
+}
+
+export class AllowanceTooLowError extends BlockchainError {
+  constructor(
+    message: string,
+    public readonly details: {
+      token?: Address;
+      spender?: Address;
+      required?: bigint;
+      allowance?: bigint;
+    } = {},
+    options: BlockchainErrorOptions = {}
+  ) {
+    super("allowance_too_low", message, options);
+    this.name = "AllowanceTooLowError";
+  }
+}
+
+export class ENSNameUnavailableError extends BlockchainError {
+  constructor(
+    public readonly ensName: string,
+    message = `ENS name ${ensName} is not available`,
+    options: BlockchainErrorOptions = {}
+  ) {
+    super("ens_name_unavailable", message, options);
+    this.name = "ENSNameUnavailableError";
+  }
+}
+
+export class BridgeFailedError extends BlockchainError {
+  constructor(
+    message: string,
+    public readonly details: { fromChain?: NetworkId; bridgeProtocol?: string } = {},
+    options: BlockchainErrorOptions = {}
+  ) {
+    super("bridge_failed", message, options);
+    this.name = "BridgeFailedError";
+  }
+}
+
+/**
+ * Bridged funds haven't arrived yet; they may still be in flight
+ */
+export class BridgeTimeoutError extends BlockchainError {
+  constructor(
+    message: string,
+    public readonly details: { waitedSeconds: number },
+    options: BlockchainErrorOptions = {}
+  ) {
+    super("bridge_timeout", message, { retryable: true, ...options });
+    this.name = "BridgeTimeoutError";
+  }
+}
+
+export class TransactionRevertedError extends BlockchainError {
+  constructor(
+    public readonly revert: RevertDetails,
+    public readonly details: {
+      /** Mined transaction, if it got that far */
+      transactionHash?: Hex;
+      /** The revert was found by simulating, before anything was sent */
+      simulated?: boolean;
+    } = {},
+    options: BlockchainErrorOptions = {}
+  ) {
+    const where = options.network ? ` on ${options.network}` : "";
+    super(
+      "transaction_reverted",
+      details.transactionHash
+        ? `Transaction ${details.transactionHash} reverted${where}: ${revert.reason}`
+        : `Transaction would revert${where}: ${revert.reason}`,
+      options
+    );
+    this.name = "TransactionRevertedError";
+  }
+}
+
+/**
+ * A sent transaction hasn't been mined in time: `dropped` if the node no
+ * longer knows it (safe to send again), otherwise still pending
+ */
+export class ReceiptTimeoutError extends BlockchainError {
+  constructor(
+    message: string,
+    public readonly details: { transactionHash: Hex; dropped: boolean },
+    options: BlockchainErrorOptions = {}
+  ) {
+    super(details.dropped ? "transaction_dropped" : "receipt_timeout", message, {
+      retryable: true,
+      ...options,
+    });
+    this.name = "ReceiptTimeoutError";
+  }
+}
+
+export class FeeCeilingError extends BlockchainError {
+  constructor(
+    message: string,
+    public readonly details: { maxFeePerGas: bigint; ceiling: bigint },
+    options: BlockchainErrorOptions = {}
+  ) {
+    super("fee_ceiling_exceeded", message, { retryable: true, ...options });
+    this.name = "FeeCeilingError";
+  }
+}
+
+/**
+ * The RPC node or the CDP API failed or refused the request; retryable for
+ * network failures, timeouts, rate limits and 5xx responses
+ */
+export class TransportError extends BlockchainError {
+  constructor(
+    message: string,
+    public readonly details: { source: "rpc" | "cdp"; status?: number; errorType?: string },
+    options: BlockchainErrorOptions = {}
+  ) {
+    super("transport", message, options);
+    this.name = "TransportError";
+  }
+}
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/**
+ * Wrap anything thrown by viem, the CDP client or this library in the
+ * matching `BlockchainError`, keeping the original as `cause`
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await blockchain.transferERC20({ ... });
+ * } catch (error) {
+ *   const failure = toBlockchainError(error);
+ *   if (failure instanceof InsufficientFundsError) console.log("Top up first");
+ *   else if (failure.retryable) scheduleRetry();
+ * }
+ * ```
+ */
+export function toBlockchainError(
+  error: unknown,
+  context: { network?: NetworkId } = {}
+): BlockchainError {
+  if (error instanceof BlockchainError) {
+    return error;
+  }
+
+  const options = { cause: error, network: context.network };
+
+  if (isCdpApiError(error)) {
+    const { statusCode, errorType, errorMessage } = error;
+
+    if (errorType === "insufficient_balance") {
+      return new InsufficientFundsError(errorMessage, {}, options);
+    }
+    if (errorType === "insufficient_allowance") {
+      return new AllowanceTooLowError(errorMessage, {}, options);
+    }
+    if (NONCE_CONFLICT_MESSAGE.test(errorMessage)) {
+      return new BlockchainError("nonce_conflict", errorMessage, { ...options, retryable: true });
+    }
+
+    return new TransportError(
+      `CDP API error (${statusCode} ${errorType}): ${errorMessage}`,
+      { source: "cdp", status: statusCode, errorType },
+      { ...options, retryable: RETRYABLE_CDP_ERRORS.has(errorType) || statusCode >= 500 || statusCode === 429 }
+    );
+  }
+
+  if (error instanceof BaseError) {
+    if (error.walk((e) => e instanceof ViemInsufficientFundsError)) {
+      return new InsufficientFundsError(
+        "Insufficient native balance for gas and value",
+        { token: "native" },
+        options
+      );
+    }
+
+    if (error.walk((e) => e instanceof NonceTooLowError)) {
+      return new BlockchainError("nonce_conflict", error.shortMessage, { ...options, retryable: true });
+    }
+
+    const reverted = error.walk(
+      (e) =>
+        e instanceof ExecutionRevertedError ||
+        e instanceof ContractFunctionRevertedError ||
+        e instanceof RawContractError
+    );
+    if (reverted || /revert/i.test(error.message)) {
+      return fromRevert(decodeRevert(revertData(error)), {}, options);
+    }
+
+    const request = error.walk(
+      (e) =>
+        e instanceof HttpRequestError ||
+        e instanceof TimeoutError ||
+        e instanceof WebSocketRequestError ||
+        e instanceof SocketClosedError ||
+        e instanceof RpcRequestError
+    );
+    if (request) {
+      const status = request instanceof HttpRequestError ? request.status : undefined;
+      return new TransportError(
+        error.shortMessage,
+        { source: "rpc", status },
+        // JSON-RPC errors are answers, not transport failures
+        { ...options, retryable: !(request instanceof RpcRequestError) && (status === undefined || status >= 500 || status === 429) }
+      );
+    }
+  }
+
+  return new BlockchainError("unknown", error instanceof Error ? error.message : String(error), options);
+}
+
+/**
+ * Whether an operation that threw this can succeed if tried again later
+ */
+export function isRetryable(error: unknown): boolean {
+  return toBlockchainError(error).retryable;
+}
+
+/**
+ * The typed error for a revert: insufficient balance and allowance reverts
+ * get their own classes (with the revert as `cause`)
+ */
+export function fromRevert(
+  revert: RevertDetails,
+  details: TransactionRevertedError["details"] = {},
+  options: BlockchainErrorOptions = {}
+): BlockchainError {
+  const error = new TransactionRevertedError(revert, details, options);
+  const [, first, needed] = revert.args ?? [];
+
+  if (revert.errorName === "ERC20InsufficientBalance" || /exceeds balance|insufficient balance/i.test(revert.reason)) {
+    return new InsufficientFundsError(
+      error.message,
+      revert.errorName === "ERC20InsufficientBalance"
+        ? { available: first as bigint, required: needed as bigint }
+        : {},
+      { ...options, cause: error }
+    );
+  }
+
+  if (
+    revert.errorName === "ERC20InsufficientAllowance" ||
+    // Permit2
+    revert.errorName === "InsufficientAllowance" ||
+    revert.errorName === "AllowanceExpired" ||
+    /(insufficient|exceeds) allowance/i.test(revert.reason)
+  ) {
+    return new AllowanceTooLowError(
+      error.message,
+      revert.errorName === "ERC20InsufficientAllowance"
+        ? { spender: revert.args![0] as Address, allowance: first as bigint, required: needed as bigint }
+        : {},
+      { ...options, cause: error }
+    );
+  }
+
+  return error;
+}
+
+// ============================================================================
+// REVERT DECODING
+// ============================================================================
+
+/**
+ * Decode revert data: `Error(string)`, `Panic(uint256)`, the custom errors
+ * in `abi` (default: common ERC-20, LayerZero, CCIP and ENS errors), or
+ * else the bare selector
+ *
+ * @example
+ * ```ts
+ * decodeRevert("0x4e487b710000000000000000000000000000000000000000000000000000000000000011");
+ * // { reason: "panic 0x11: arithmetic overflow or underflow", errorName: "Panic", panicCode: 17, ... }
+ * ```
+ */
+export function decodeRevert(data: Hex = "0x", abi: Abi = COMMON_ERRORS_ABI): RevertDetails {
+  if (data === "0x") {
+    return { reason: "execution reverted", data };
+  }
+
+  try {
+    const { errorName, args = [] } = decodeErrorResult({ abi, data });
+
+    if (errorName === "Error") {
+      return { reason: String(args[0]), data, errorName, args };
+    }
+
+    if (errorName === "Panic") {
+      const panicCode = Number(args[0]);
+      const description = PANIC_REASONS[panicCode];
+      return {
+        reason: `panic 0x${panicCode.toString(16)}${description ? `: ${description}` : ""}`,
+        data,
+        errorName,
+        args,
+        panicCode,
+      };
+    }
+
+    return { reason: `${errorName}(${args.map(String).join(", ")})`, data, errorName, args };
+  } catch {
+    return { reason: `custom error ${data.slice(0, 10)}`, data };
+  }
+}
+
+/**
+ * Revert data carried by a failed call, if the node returned any
+ */
+export function revertData(error: BaseError): Hex | undefined {
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError && reverted.raw) {
+    return reverted.raw;
+  }
+
+  const data = (error.walk() as { data?: unknown }).data;
+  const hex = data && typeof data === "object" ? (data as { data?: unknown }).data : data;
+  return typeof hex === "string" && hex.startsWith("0x") ? (hex as Hex) : undefined;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The CDP SDK's `APIError` (not exported by the package)
+ */
+function isCdpApiError(
+  error: unknown
+): error is Error & { statusCode: number; errorType: string; errorMessage: string } {
+  return (
+    error instanceof Error &&
+    typeof (error as { statusCode?: unknown }).statusCode === "number" &&
+    typeof (error as { errorType?: unknown }).errorType === "string"
+  );
+}
@@ -0,0 +1,323 @@
+/**
+ * Progress Events & Logging
+ *
+ * Long-running operations (x402 payments, bridges, ENS registration) report
+ * what they are doing as typed `ProgressEvent`s:
+ * - subscribe with `onProgress(listener)`, or
+ * - iterate them with `for await (const event of progressEvents())`
+ *
+ * Every event is also written to the configured `Logger` at a level that
+ * suits it (polls and individual sends at `debug`, failures at `error`).
+ * The default logger writes `info` and above to the console; pass
+ * `silentLogger` or your own (pino, winston, ...) to run quietly or route
+ * the output elsewhere.
+ */
+
+import { formatUnits, type Address, type Hex } from "viem";
+import type { BridgeProtocol, BridgeRoute, SkippedRoute, X402PaymentRequest } from "./cre-x402.js";
+import type { BlockchainErrorCode } from "./errors.js";
+import type { NetworkId } from "./networks.js";
+import type { PaymentStatus } from "./payment-store.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Structured context passed alongside a log message */
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * What happened, without the fields every event carries
+ */
+export type ProgressEventData =
+  // ENS registration
+  | { type: "ens_committed"; network: NetworkId; name: string; transactionHash: Hex }
+  | { type: "ens_commitment_waiting"; network: NetworkId; name: string; minCommitmentAge: number }
+  | { type: "ens_registered"; network: NetworkId; name: string; transactionHash: Hex; value: bigint }
+  // Transactions
+  | { type: "transaction_sent"; network: NetworkId; from: Address; to?: Address; transactionHash: Hex }
+  | {
+      type: "approval_sent";
+      network: NetworkId;
+      token: Address;
+      spender: Address;
+      amount: bigint;
+      transactionHash: Hex;
+    }
+  | {
+      type: "permit_signed";
+      network: NetworkId;
+      /** EIP-2612 permit, Permit2 allowance, or Permit2 one-time transfer */
+      kind: "eip2612" | "permit2" | "permit2_transfer";
+      token: Address;
+      spender: Address;
+      amount: bigint;
+    }
+  // x402 payments
+  | { type: "payment_started"; paymentId: string; request: X402PaymentRequest }
+  | { type: "payment_resumed"; paymentId: string; status: PaymentStatus }
+  | {
+      type: "balance_checked";
+      network: NetworkId;
+      token: Address;
+      /** Amounts in the token's smallest unit */
+      balance: bigint;
+      required: bigint;
+      decimals: number;
+    }
+  | { type: "routes_planned"; network: NetworkId; legs: BridgeRoute[]; skipped: SkippedRoute[] }
+  | {
+      type: "bridge_submitted";
+      fromChain: NetworkId;
+      toChain: NetworkId;
+      bridgeProtocol: BridgeProtocol;
+      amount: bigint;
+      /** Bridge fee paid in the source chain's native currency */
+      fee: bigint;
+      transactionHash: Hex;
+      /** LayerZero GUID or CCIP message ID */
+      messageId?: Hex;
+    }
+  | { type: "bridge_poll"; network: NetworkId; attempt: number; balance: bigint; required: bigint; decimals: number }
+  | { type: "bridge_completed"; network: NetworkId; balance: bigint; decimals: number }
+  | { type: "payment_sent"; paymentId: string; network: NetworkId; transactionHash: Hex }
+  | { type: "payment_confirmed"; paymentId: string; network: NetworkId; transactionHash: Hex }
+  | {
+      type: "payment_failed";
+      paymentId: string;
+      network: NetworkId;
+      /** `failed`, or the pending state resumePending will pick the payment up from */
+      status: PaymentStatus;
+      error: string;
+      code?: BlockchainErrorCode;
+    };
+
+export type ProgressEvent = ProgressEventData & {
+  /** Unix time (milliseconds) */
+  timestamp: number;
+  /** Set for events from a dry-run instance: nothing was actually sent */
+  dryRun?: boolean;
+};
+
+export type ProgressEventType = ProgressEvent["type"];
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/** Level each event is logged at; anything not listed is `info` */
+const PROGRESS_LOG_LEVELS: Partial<Record<ProgressEventType, LogLevel>> = {
+  transaction_sent: "debug",
+  bridge_poll: "debug",
+  payment_failed: "error",
+};
+
+const PERMIT_LABELS = {
+  eip2612: "EIP-2612 permit",
+  permit2: "Permit2 allowance",
+  permit2_transfer: "Permit2 transfer",
+} as const;
+
+// ============================================================================
+// LOGGERS
+// ============================================================================
+
+/**
+ * Logger that writes messages at `level` and above to the console
+ *
+ * Fields are left out; use a structured logger to keep them.
+ */
+export function createConsoleLogger(level: LogLevel = "info"): Logger {
+  const write = (messageLevel: LogLevel) => (message: string) => {
+    if (LOG_LEVEL_ORDER[messageLevel] >= LOG_LEVEL_ORDER[level]) {
+      console[messageLevel](message);
+    }
+  };
+
+  return { debug: write("debug"), info: write("info"), warn: write("warn"), error: write("error") };
+}
+
+/** Logger that drops everything */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+// ============================================================================
+// EVENT EMITTER
+// ============================================================================
+
+/**
+ * Fans progress events out to listeners and async iterators
+ *
+ * A `BlockchainOperations` instance owns one, shared with the bridges, the
+ * CRE and its dry-run copies; pass your own in the config to collect events
+ * from several instances in one place.
+ */
+export class ProgressEmitter {
+  private listeners = new Set<ProgressListener>();
+
+  /**
+   * Call `listener` for every event; returns a function that unsubscribes
+   */
+  on(listener: ProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: ProgressEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // An observer must never break the operation it observes
+      }
+    }
+  }
+
+  /**
+   * Iterate events from now on, until the loop is left or `signal` aborts
+   *
+   * Events are buffered while the consumer is busy, so none are missed.
+   *
+   * @example
+   * ```ts
+   * for await (const event of blockchain.progressEvents({ signal })) {
+   *   if (event.type === "bridge_poll") progressBar.update(event.balance, event.required);
+   * }
+   * ```
+   */
+  stream(options: { signal?: AbortSignal } = {}): AsyncIterableIterator<ProgressEvent> {
+    const { signal } = options;
+    const buffer: ProgressEvent[] = [];
+    let waiting: ((result: IteratorResult<ProgressEvent>) => void) | undefined;
+    let done = false;
+
+    const finish = (): Promise<IteratorResult<ProgressEvent>> => {
+      done = true;
+      unsubscribe();
+      signal?.removeEventListener("abort", finish);
+      waiting?.({ done: true, value: undefined });
+      waiting = undefined;
+      return Promise.resolve({ done: true, value: undefined });
+    };
+
+    const unsubscribe = this.on((event) => {
+      if (waiting) {
+        waiting({ done: false, value: event });
+        waiting = undefined;
+      } else {
+        buffer.push(event);
+      }
+    });
+    signal?.addEventListener("abort", finish);
+    if (signal?.aborted) {
+      finish();
+    }
+
+    return {
+      next: () => {
+        if (buffer.length > 0) {
+          return Promise.resolve({ done: false, value: buffer.shift()! });
+        }
+        if (done) {
+          return Promise.resolve({ done: true, value: undefined });
+        }
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: finish,
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Level an event is logged at
+ */
+export function getProgressLogLevel(event: ProgressEvent): LogLevel {
+  return PROGRESS_LOG_LEVELS[event.type] ?? "info";
+}
+
+/**
+ * One-line, human-readable description of an event
+ */
+export function describeProgress(event: ProgressEvent): string {
+  const prefix = event.dryRun ? "[dry run] " : "";
+
+  switch (event.type) {
+    case "ens_committed":
+      return `${prefix}ENS commitment for ${event.name}.eth sent on ${event.network}: ${event.transactionHash}`;
+    case "ens_commitment_waiting":
+      return `${prefix}Waiting ${event.minCommitmentAge}s before revealing ${event.name}.eth`;
+    case "ens_registered":
+      return `${prefix}ENS registration for ${event.name}.eth sent on ${event.network}: ${event.transactionHash}`;
+    case "transaction_sent":
+      return `${prefix}Transaction sent on ${event.network}: ${event.transactionHash}`;
+    case "approval_sent":
+      return `${prefix}Approved ${event.spender} to spend ${event.token} on ${event.network}: ${event.transactionHash}`;
+    case "permit_signed":
+      return `${prefix}Signed ${PERMIT_LABELS[event.kind]} for ${event.spender} to spend ${event.token} on ${event.network}`;
+    case "payment_started":
+      return (
+        `${prefix}Payment ${event.paymentId} started: ${event.request.maxAmountRequired} ` +
+        `${event.request.asset} on ${event.request.network} for ${event.request.resource}`
+      );
+    case "payment_resumed":
+      return `${prefix}Resuming payment ${event.paymentId} (${event.status})`;
+    case "balance_checked":
+      return (
+        `${prefix}Balance on ${event.network}: ${formatUnits(event.balance, event.decimals)} ` +
+        `(required ${formatUnits(event.required, event.decimals)})`
+      );
+    case "routes_planned":
+      return (
+        `${prefix}Bridging to ${event.network} in ${event.legs.length} leg${event.legs.length === 1 ? "" : "s"}: ` +
+        event.legs.map((leg) => `${leg.fromChain} via ${leg.bridgeProtocol} (~${leg.estimatedTime}s)`).join(", ")
+      );
+    case "bridge_submitted":
+      return (
+        `${prefix}Bridge from ${event.fromChain} to ${event.toChain} via ${event.bridgeProtocol} sent: ` +
+        `${event.transactionHash}${event.messageId ? ` (message ${event.messageId})` : ""}`
+      );
+    case "bridge_poll":
+      return (
+        `${prefix}Waiting for bridged funds on ${event.network} (attempt ${event.attempt}): ` +
+        `${formatUnits(event.balance, event.decimals)} of ${formatUnits(event.required, event.decimals)}`
+      );
+    case "bridge_completed":
+      return `${prefix}Bridged funds arrived on ${event.network}: balance ${formatUnits(event.balance, event.decimals)}`;
+    case "payment_sent":
+      return `${prefix}Payment ${event.paymentId} sent on ${event.network}: ${event.transactionHash}`;
+    case "payment_confirmed":
+      return `${prefix}Payment ${event.paymentId} confirmed on ${event.network}: ${event.transactionHash}`;
+    case "payment_failed":
+      return event.status === "failed"
+        ? `${prefix}Payment ${event.paymentId} failed: ${event.error}`
+        : `${prefix}Payment ${event.paymentId} interrupted (${event.status}, can be resumed): ${event.error}`;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Idempotency Keys
+ *
+ * CDP deduplicates `sendEvmTransaction` calls that carry the same
+ * idempotency key (a UUID v4), returning the original transaction. Keys
+ * derived from what an operation is (which payment, which leg, which step)
+ * make a retried or resumed operation reuse its key instead of sending again.
+ */
+
+import { createHash } from "node:crypto";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Deterministic UUID v4 from the given parts
+ *
+ * Parts are hashed as JSON, with bigints as decimal strings and hex strings
+ * (addresses, hashes) lowercased, so equal content always gives the same key.
+ *
+ * @example
+ * ```ts
+ * // Same key every time this leg of this payment is sent
+ * const key = deriveIdempotencyKey(paymentId, "leg", 0);
+ *
+ * // Sub-keys for the steps of one operation
+ * const approveKey = deriveIdempotencyKey(key, "approve");
+ * ```
+ */
+export function deriveIdempotencyKey(...parts: unknown[]): string {
+  const json = JSON.stringify(parts, (_key, value) => {
+    if (typeof value === "bigint") {
+      return value.toString();
+    }
+    if (typeof value === "string" && /^0x[0-9a-fA-F]*$/.test(value)) {
+      return value.toLowerCase();
+    }
+    return value;
+  });
+
+  const hash = createHash("sha256").update(json).digest("hex");
+
+  // Set the version (4) and variant (10xx) bits
+  return [
+    hash.slice(0, 8),
+    hash.slice(8, 12),
+    `4${hash.slice(13, 16)}`,
+    ((parseInt(hash[16], 16) & 0x3) | 0x8).toString(16) + hash.slice(17, 20),
+    hash.slice(20, 32),
+  ].join("-");
+}
+
+/**
+ * Use a key as-is if it's already a UUID v4, otherwise map it to one
+ * deterministically (e.g. "order-1234")
+ */
+export function toIdempotencyKey(key: string): string {
+  return UUID_V4.test(key) ? key : deriveIdempotencyKey(key);
+}
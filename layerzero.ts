@@ -0,0 +1,324 @@
+/**
+ * LayerZero V2 OFT Bridge
+ *
+ * Bridges ERC-20 tokens through OFT / OFT adapter contracts (including
+ * Stargate V2 pools, which implement the same IOFT interface):
+ * 1. Resolve the token's OFT on the source chain from the network registry
+ * 2. `quoteOFT` for the amount received and `quoteSend` for the messaging fee
+ * 3. Approve the OFT if it wraps an existing token (adapter)
+ * 4. `send` with a SendParam and the native fee as msg.value
+ *
+ * Docs: https://docs.layerzero.network/v2/developers/evm/oft/quickstart
+ */
+
+import {
+  concat,
+  encodeFunctionData,
+  numberToHex,
+  pad,
+  parseEventLogs,
+  type Address,
+  type Hex,
+} from "viem";
+import { LAYERZERO_OFT_ABI } from "./abis.js";
+import type {
+  BlockchainOperations,
+  TransactionReceiptResult,
+  TransactionResult,
+} from "./blockchain.js";
+import { BlockchainError } from "./errors.js";
+import { deriveIdempotencyKey } from "./idempotency.js";
+import { getNetwork, getTokenSymbol, type NetworkId } from "./networks.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LayerZeroSendParam {
+  dstEid: number;
+  to: Hex;
+  amountLD: bigint;
+  minAmountLD: bigint;
+  extraOptions: Hex;
+  composeMsg: Hex;
+  oftCmd: Hex;
+}
+
+export interface LayerZeroBridgeOptions {
+  /** Sender's address */
+  from: Address;
+  /** Source network */
+  fromChain: NetworkId;
+  /** Destination network */
+  toChain: NetworkId;
+  /** Token contract on the source network */
+  tokenAddress: Address;
+  /** Amount in the token's smallest unit (local decimals) */
+  amount: bigint;
+  /** Recipient on the destination network (default: sender) */
+  recipient?: Address;
+  /** Maximum shortfall vs. the quoted received amount, in basis points (default: 50 = 0.5%) */
+  slippageBps?: number;
+  /** Executor gas for lzReceive on the destination; omit to rely on the OFT's enforced options */
+  lzReceiveGas?: bigint;
+  /** Confirmations to wait for on source-chain transactions (default: 1) */
+  confirmations?: number;
+  /** Optional idempotency key; each step's transaction gets a key derived from it */
+  idempotencyKey?: string;
+  /**
+   * The send may already have gone out under `idempotencyKey` (e.g. the
+   * process exited before its result was saved). It is sent with a fixed gas
+   * limit instead of being estimated, which would revert once the original has
+   * pulled the tokens, so CDP can return the original transaction.
+   */
+  resume?: boolean;
+  /** Called right before the send transaction is handed to CDP (see SendTransactionOptions.onSubmit) */
+  onSubmit?: () => void | Promise<void>;
+}
+
+export interface LayerZeroQuote {
+  /** OFT contract the transfer is sent through */
+  oft: Address;
+  sendParam: LayerZeroSendParam;
+  /** Messaging fee in the source chain's native currency */
+  nativeFee: bigint;
+  /** Amount expected on the destination after OFT fees */
+  amountReceived: bigint;
+  /** Whether the OFT pulls tokens via transferFrom (adapter / pool) */
+  approvalRequired: boolean;
+}
+
+export interface LayerZeroBridgeResult extends TransactionResult {
+  /** LayerZero message GUID (track on layerzeroscan.com) */
+  guid?: Hex;
+  nativeFee: bigint;
+  amountReceived: bigint;
+  receipt: TransactionReceiptResult;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_SLIPPAGE_BPS = 50;
+
+/** Gas limit for a resumed send, which can't be estimated once the original has spent the allowance */
+const RESUMED_SEND_GAS = 600_000n;
+
+const EXECUTOR_WORKER_ID = 1;
+const OPTION_TYPE_LZRECEIVE = 1;
+
+// ============================================================================
+// LAYERZERO BRIDGE
+// ============================================================================
+
+export class LayerZeroBridge {
+  constructor(private blockchain: BlockchainOperations) {}
+
+  /**
+   * OFT contract registered for a token on a network, if any
+   */
+  getOFT(network: NetworkId, tokenAddress: Address): Address | undefined {
+    const symbol = getTokenSymbol(network, tokenAddress);
+    return symbol ? getNetwork(network).layerZero?.ofts?.[symbol] : undefined;
+  }
+
+  /**
+   * Check whether a token can be bridged between two networks
+   */
+  supportsRoute(fromChain: NetworkId, toChain: NetworkId, tokenAddress: Address): boolean {
+    const symbol = getTokenSymbol(fromChain, tokenAddress);
+
+    return Boolean(
+      symbol &&
+      this.getOFT(fromChain, tokenAddress) &&
+      getNetwork(toChain).layerZero?.ofts?.[symbol]
+    );
+  }
+
+  /**
+   * Quote a transfer: amount received and native messaging fee
+   *
+   * @example
+   * ```ts
+   * const quote = await layerZero.quote({
+   *   from: wallet,
+   *   fromChain: "arbitrum",
+   *   toChain: "base",
+   *   tokenAddress: getTokenAddress("arbitrum", "USDC")!,
+   *   amount: parseUnits("10", 6),
+   * });
+   * console.log(`Fee: ${formatEther(quote.nativeFee)} ETH`);
+   * ```
+   */
+  async quote(options: LayerZeroBridgeOptions): Promise<LayerZeroQuote> {
+    const {
+      from,
+      fromChain,
+      toChain,
+      tokenAddress,
+      amount,
+      recipient = from,
+      slippageBps = DEFAULT_SLIPPAGE_BPS,
+      lzReceiveGas,
+    } = options;
+
+    const oft = this.getOFT(fromChain, tokenAddress);
+    if (!oft) {
+      throw new BlockchainError(
+        "route_unavailable",
+        `No LayerZero OFT registered for ${tokenAddress} on ${fromChain}`,
+        { network: fromChain }
+      );
+    }
+    if (!this.supportsRoute(fromChain, toChain, tokenAddress)) {
+      throw new BlockchainError("route_unavailable", `No LayerZero OFT peer for ${tokenAddress} on ${toChain}`, {
+        network: fromChain,
+      });
+    }
+
+    const dstEid = getNetwork(toChain).layerZero!.eid;
+
+    const sendParam: LayerZeroSendParam = {
+      dstEid,
+      to: addressToBytes32(recipient),
+      amountLD: amount,
+      minAmountLD: 0n,
+      extraOptions: lzReceiveGas !== undefined ? buildExecutorOptions(lzReceiveGas) : "0x",
+      composeMsg: "0x",
+      oftCmd: "0x",
+    };
+
+    const [, , oftReceipt] = (await this.blockchain.readContract({
+      contractAddress: oft,
+      abi: LAYERZERO_OFT_ABI,
+      functionName: "quoteOFT",
+      args: [sendParam],
+      network: fromChain,
+    })) as [unknown, unknown, { amountSentLD: bigint; amountReceivedLD: bigint }];
+
+    sendParam.minAmountLD =
+      (oftReceipt.amountReceivedLD * BigInt(10_000 - slippageBps)) / 10_000n;
+
+    const [fee, approvalRequired] = await Promise.all([
+      this.blockchain.readContract({
+        contractAddress: oft,
+        abi: LAYERZERO_OFT_ABI,
+        functionName: "quoteSend",
+        args: [sendParam, false],
+        network: fromChain,
+      }) as Promise<{ nativeFee: bigint; lzTokenFee: bigint }>,
+      this.blockchain.readContract({
+        contractAddress: oft,
+        abi: LAYERZERO_OFT_ABI,
+        functionName: "approvalRequired",
+        network: fromChain,
+      }) as Promise<boolean>,
+    ]);
+
+    return {
+      oft,
+      sendParam,
+      nativeFee: fee.nativeFee,
+      amountReceived: oftReceipt.amountReceivedLD,
+      approvalRequired,
+    };
+  }
+
+  /**
+   * Bridge tokens: quote, approve if needed, and send
+   *
+   * Resolves once the source-chain `send` transaction is confirmed; delivery
+   * on the destination happens asynchronously and can be tracked by `guid`.
+   */
+  async bridge(options: LayerZeroBridgeOptions): Promise<LayerZeroBridgeResult> {
+    const { from, fromChain, tokenAddress, amount, confirmations, idempotencyKey, resume, onSubmit } = options;
+
+    const quote = await this.quote(options);
+
+    if (quote.approvalRequired) {
+      // `send` is gas-estimated against the allowance, so it must be mined first
+      await this.blockchain.ensureAllowance({
+        from,
+        spender: quote.oft,
+        tokenAddress,
+        amount,
+        network: fromChain,
+        idempotencyKey: idempotencyKey && deriveIdempotencyKey(idempotencyKey, "approve"),
+        confirmations,
+      });
+    }
+
+    const data = encodeFunctionData({
+      abi: LAYERZERO_OFT_ABI,
+      functionName: "send",
+      args: [quote.sendParam, { nativeFee: quote.nativeFee, lzTokenFee: 0n }, from],
+    });
+
+    const result = await this.blockchain.sendTransaction({
+      from,
+      transaction: {
+        to: quote.oft,
+        data,
+        value: quote.nativeFee,
+        gas: resume ? RESUMED_SEND_GAS : undefined,
+      },
+      network: fromChain,
+      idempotencyKey: idempotencyKey && deriveIdempotencyKey(idempotencyKey, "send"),
+      bridgeFee: true,
+      onSubmit,
+    });
+
+    const receipt = await this.blockchain.confirmTransaction({
+      transactionHash: result.transactionHash,
+      network: fromChain,
+      confirmations,
+    });
+
+    const [sent] = parseEventLogs({
+      abi: LAYERZERO_OFT_ABI,
+      eventName: "OFTSent",
+      logs: receipt.logs,
+    });
+
+    return {
+      transactionHash: receipt.transactionHash,
+      guid: sent?.args.guid,
+      nativeFee: quote.nativeFee,
+      amountReceived: quote.amountReceived,
+      receipt,
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Left-pad an EVM address to the bytes32 format used by LayerZero
+ */
+export function addressToBytes32(address: Address): Hex {
+  return pad(address, { size: 32 });
+}
+
+/**
+ * Build type-3 executor options requesting `lzReceiveGas` on the destination
+ * (and optionally `nativeDrop` wei of msg.value for lzReceive)
+ *
+ * Layout: uint16 type (3) | uint8 workerId | uint16 size | uint8 optionType | uint128 gas [| uint128 value]
+ */
+export function buildExecutorOptions(lzReceiveGas: bigint, nativeDrop = 0n): Hex {
+  const option = nativeDrop > 0n
+    ? concat([numberToHex(lzReceiveGas, { size: 16 }), numberToHex(nativeDrop, { size: 16 })])
+    : numberToHex(lzReceiveGas, { size: 16 });
+  const optionSize = (option.length - 2) / 2 + 1; // + optionType byte
+
+  return concat([
+    numberToHex(3, { size: 2 }),
+    numberToHex(EXECUTOR_WORKER_ID, { size: 1 }),
+    numberToHex(optionSize, { size: 2 }),
+    numberToHex(OPTION_TYPE_LZRECEIVE, { size: 1 }),
+    option,
+  ]);
+}
@@ -0,0 +1,473 @@
+/**
+ * Network Registry
+ *
+ * Single source of truth for every network this library can operate on:
+ * chain ID, CDP network name, native currency, RPC, explorer, and the
+ * ENS / LayerZero / CCIP / Permit2 / token addresses deployed on it.
+ *
+ * Built-in networks are registered at load time; custom networks can be
+ * added (or built-ins overridden) at runtime with `registerNetwork`.
+ */
+
+import { defineChain, type Address, type Chain } from "viem";
+import {
+  arbitrum,
+  base,
+  baseSepolia,
+  mainnet,
+  optimism,
+  polygon,
+  sepolia,
+} from "viem/chains";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BuiltinNetworkId =
+  | "ethereum"
+  | "ethereum-sepolia"
+  | "base"
+  | "base-sepolia"
+  | "arbitrum"
+  | "optimism"
+  | "polygon";
+
+/** Built-in network name, or the id of a network added with `registerNetwork` */
+export type NetworkId = BuiltinNetworkId | (string & {});
+
+/** Contract that may hold token allowances from the wallet */
+export interface KnownSpender {
+  address: Address;
+  /** What it is, e.g. "CCIP router" */
+  label: string;
+}
+
+export interface ENSContracts {
+  registry: Address;
+  publicResolver: Address;
+  ethRegistrarController: Address;
+  nameWrapper: Address;
+}
+
+export interface LayerZeroConfig {
+  /** LayerZero V2 endpoint contract */
+  endpoint: Address;
+  /** LayerZero V2 endpoint ID (eid) */
+  eid: number;
+  /** OFT (or OFT adapter) contract per token symbol, e.g. { USDC: "0x..." } */
+  ofts?: Partial<Record<string, Address>>;
+  /** Typical seconds until a transfer sent from this network is delivered */
+  estimatedTime?: number;
+}
+
+export interface CCIPConfig {
+  /** Chainlink CCIP router contract */
+  router: Address;
+  /** CCIP chain selector identifying this network as a destination */
+  chainSelector: bigint;
+  /** Symbols of tokens transferable over CCIP from/to this network (e.g. ["USDC"]) */
+  tokens?: readonly string[];
+  /** Typical seconds until a message sent from this network is executed (source finality + DON) */
+  estimatedTime?: number;
+}
+
+export interface NetworkConfig {
+  /** Identifier used throughout this library (e.g. "base") */
+  id: NetworkId;
+  /** Display name */
+  name: string;
+  /** EVM chain ID */
+  chainId: number;
+  /** Network name accepted by the CDP API; omit for read-only networks */
+  cdpNetwork?: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  /** Default RPC URL (overridable per BlockchainOperations instance) */
+  rpcUrl: string;
+  /** Block explorer base URL */
+  explorerUrl?: string;
+  testnet: boolean;
+  /** Network whose ENS deployment resolves names for this network (default: itself) */
+  ensNetwork?: NetworkId;
+  /** ENS contracts, if ENS is deployed on this network */
+  ens?: ENSContracts;
+  layerZero?: LayerZeroConfig;
+  ccip?: CCIPConfig;
+  /** Uniswap Permit2 contract, if deployed on this network */
+  permit2?: Address;
+  /** Well-known token addresses by symbol */
+  tokens: Partial<Record<string, Address>>;
+  /** viem chain definition; derived from the fields above when omitted */
+  chain?: Chain;
+}
+
+// ============================================================================
+// BUILT-IN NETWORKS
+// ============================================================================
+
+const ETHER = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+/** Uniswap Permit2, deployed at the same address on every supported chain */
+const PERMIT2: Address = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+export const BUILTIN_NETWORKS = {
+  ethereum: {
+    id: "ethereum",
+    name: "Ethereum",
+    chainId: mainnet.id,
+    cdpNetwork: "ethereum",
+    nativeCurrency: ETHER,
+    rpcUrl: mainnet.rpcUrls.default.http[0],
+    explorerUrl: "https://etherscan.io",
+    testnet: false,
+    ens: {
+      registry: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e",
+      publicResolver: "0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63",
+      ethRegistrarController: "0x253553366Da8546fC250F225fe3d25d0C782303b",
+      nameWrapper: "0xD4416b13d2b3a9aBae7AcD5D6C2BbDBE25686401",
+    },
+    layerZero: {
+      endpoint: "0x1a44076050125825900e736c501f859c50fE728c",
+      eid: 30101,
+      ofts: { USDC: "0xc026395860Db2d07ee33e05fE50ed7bD583189C7" }, // Stargate V2 USDC pool
+      estimatedTime: 180,
+    },
+    ccip: {
+      router: "0x80226fc0Ee2b096224EeAc085Bb9a8cba1146f7D",
+      chainSelector: 5009297550715157269n,
+      tokens: ["USDC"],
+      estimatedTime: 1080,
+    },
+    permit2: PERMIT2,
+    tokens: {
+      USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      WETH: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+      LINK: "0x514910771AF9Ca656af840dff83E8264EcF986CA",
+    },
+    chain: mainnet,
+  },
+  "ethereum-sepolia": {
+    id: "ethereum-sepolia",
+    name: "Ethereum Sepolia",
+    chainId: sepolia.id,
+    cdpNetwork: "ethereum-sepolia",
+    nativeCurrency: ETHER,
+    rpcUrl: sepolia.rpcUrls.default.http[0],
+    explorerUrl: "https://sepolia.etherscan.io",
+    testnet: true,
+    ens: {
+      registry: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e",
+      publicResolver: "0x8FADE66B79cC9f707aB26799354482EB93a5B7dD",
+      ethRegistrarController: "0xFED6a969AaA60E4961FCD3EBF1A2e8913ac65B72",
+      nameWrapper: "0x0635513f179D50A207757E05759CbD106d7dFcE8",
+    },
+    layerZero: { endpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f", eid: 40161 },
+    ccip: {
+      router: "0x0BF3dE8c5D3e8A2B34D2BEeB17ABfCeBaf363A59",
+      chainSelector: 16015286601757825753n,
+    },
+    permit2: PERMIT2,
+    tokens: {
+      USDC: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+      WETH: "0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9",
+      LINK: "0x779877A7B0D9E8603169DdbD7836e478b4624789",
+    },
+    chain: sepolia,
+  },
+  base: {
+    id: "base",
+    name: "Base",
+    chainId: base.id,
+    cdpNetwork: "base",
+    nativeCurrency: ETHER,
+    rpcUrl: base.rpcUrls.default.http[0],
+    explorerUrl: "https://basescan.org",
+    testnet: false,
+    ensNetwork: "ethereum",
+    layerZero: {
+      endpoint: "0x1a44076050125825900e736c501f859c50fE728c",
+      eid: 30184,
+      ofts: { USDC: "0x27a16dc786820B16E5c9028b75B99F6f604b5d26" }, // Stargate V2 USDC pool
+      estimatedTime: 60,
+    },
+    ccip: {
+      router: "0x881e3A65B4d4a04dD529061dd0071cf975F58bCD",
+      chainSelector: 15971525489660198786n,
+      tokens: ["USDC"],
+      estimatedTime: 1500,
+    },
+    permit2: PERMIT2,
+    tokens: {
+      USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      WETH: "0x4200000000000000000000000000000000000006",
+      LINK: "0x88Fb150BDc53A65fe94Dea0c9BA0a6dAf8C6e196",
+    },
+    chain: base,
+  },
+  "base-sepolia": {
+    id: "base-sepolia",
+    name: "Base Sepolia",
+    chainId: baseSepolia.id,
+    cdpNetwork: "base-sepolia",
+    nativeCurrency: ETHER,
+    rpcUrl: baseSepolia.rpcUrls.default.http[0],
+    explorerUrl: "https://sepolia.basescan.org",
+    testnet: true,
+    ensNetwork: "ethereum-sepolia",
+    layerZero: { endpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f", eid: 40245 },
+    ccip: {
+      router: "0xD3b06cEbF099CE7DA4AcCf578aaebFDBd6e88a93",
+      chainSelector: 10344971235874465080n,
+    },
+    permit2: PERMIT2,
+    tokens: {
+      USDC: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      WETH: "0x4200000000000000000000000000000000000006",
+      LINK: "0xE4aB69C077896252FAFBD49EFD26B5D171A32410",
+    },
+    chain: baseSepolia,
+  },
+  arbitrum: {
+    id: "arbitrum",
+    name: "Arbitrum One",
+    chainId: arbitrum.id,
+    cdpNetwork: "arbitrum",
+    nativeCurrency: ETHER,
+    rpcUrl: arbitrum.rpcUrls.default.http[0],
+    explorerUrl: "https://arbiscan.io",
+    testnet: false,
+    ensNetwork: "ethereum",
+    layerZero: {
+      endpoint: "0x1a44076050125825900e736c501f859c50fE728c",
+      eid: 30110,
+      ofts: { USDC: "0xe8CDF27AcD73a434D661C84887215F7598e7d0d3" }, // Stargate V2 USDC pool
+      estimatedTime: 60,
+    },
+    ccip: {
+      router: "0x141fa059441E0ca23ce184B6A78bafD2A517DdE8",
+      chainSelector: 4949039107694359620n,
+      tokens: ["USDC"],
+      estimatedTime: 1200,
+    },
+    permit2: PERMIT2,
+    tokens: {
+      USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+      LINK: "0xf97f4df75117a78c1A5a0DBb814Af92458539FB4",
+    },
+    chain: arbitrum,
+  },
+  optimism: {
+    id: "optimism",
+    name: "OP Mainnet",
+    chainId: optimism.id,
+    cdpNetwork: "optimism",
+    nativeCurrency: ETHER,
+    rpcUrl: optimism.rpcUrls.default.http[0],
+    explorerUrl: "https://optimistic.etherscan.io",
+    testnet: false,
+    ensNetwork: "ethereum",
+    layerZero: {
+      endpoint: "0x1a44076050125825900e736c501f859c50fE728c",
+      eid: 30111,
+      ofts: { USDC: "0xcE8CcA271Ebc0533920C83d39F417ED6A0abB7D0" }, // Stargate V2 USDC pool
+      estimatedTime: 60,
+    },
+    ccip: {
+      router: "0x3206695CaE29952f4b0c22a169725a865bc8Ce0f",
+      chainSelector: 3734403246176062136n,
+      tokens: ["USDC"],
+      estimatedTime: 1500,
+    },
+    permit2: PERMIT2,
+    tokens: {
+      USDC: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+      WETH: "0x4200000000000000000000000000000000000006",
+      LINK: "0x350a791Bfc2C21F9Ed5d10980Dad2e2638ffa7f6",
+    },
+    chain: optimism,
+  },
+  polygon: {
+    id: "polygon",
+    name: "Polygon",
+    chainId: polygon.id,
+    cdpNetwork: "polygon",
+    nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    rpcUrl: polygon.rpcUrls.default.http[0],
+    explorerUrl: "https://polygonscan.com",
+    testnet: false,
+    ensNetwork: "ethereum",
+    layerZero: {
+      endpoint: "0x1a44076050125825900e736c501f859c50fE728c",
+      eid: 30109,
+      ofts: { USDC: "0x9Aa02D4Fae7F58b8E8f34c66E756cC734DAc7fe4" }, // Stargate V2 USDC pool
+      estimatedTime: 600,
+    },
+    ccip: {
+      router: "0x849c5ED5a80F5B408Dd4969b78c2C8fdf0565Bfe",
+      chainSelector: 4051577828743386545n,
+    },
+    permit2: PERMIT2,
+    tokens: {
+      USDC: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+      WETH: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619",
+      LINK: "0xb0897686c545045aFc77CF20eC7A532E3120E0F1",
+    },
+    chain: polygon,
+  },
+} as const satisfies Record<BuiltinNetworkId, NetworkConfig>;
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const registry = new Map<string, NetworkConfig>(
+  Object.values(BUILTIN_NETWORKS).map((network) => [network.id, network])
+);
+
+/**
+ * Register a custom network, or replace an existing entry
+ *
+ * @example
+ * ```ts
+ * registerNetwork({
+ *   id: "arbitrum-sepolia",
+ *   name: "Arbitrum Sepolia",
+ *   chainId: 421614,
+ *   cdpNetwork: "arbitrum-sepolia",
+ *   nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+ *   rpcUrl: "https://sepolia-rollup.arbitrum.io/rpc",
+ *   testnet: true,
+ *   ensNetwork: "ethereum-sepolia",
+ *   tokens: { USDC: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d" },
+ * });
+ * ```
+ */
+export function registerNetwork(config: NetworkConfig): void {
+  if (!config.id) {
+    throw new Error("Network id is required");
+  }
+  if (!Number.isInteger(config.chainId) || config.chainId <= 0) {
+    throw new Error(`Invalid chain ID for network "${config.id}": ${config.chainId}`);
+  }
+
+  registry.set(config.id, config);
+}
+
+/**
+ * Look up a network, throwing if it isn't registered
+ */
+export function getNetwork(id: NetworkId): NetworkConfig {
+  const network = registry.get(id);
+
+  if (!network) {
+    throw new Error(
+      `Unknown network "${id}". Registered networks: ${[...registry.keys()].join(", ")}`
+    );
+  }
+
+  return network;
+}
+
+/**
+ * Check whether a network is registered
+ */
+export function hasNetwork(id: string): id is NetworkId {
+  return registry.has(id);
+}
+
+/**
+ * All registered networks
+ */
+export function listNetworks(): NetworkConfig[] {
+  return [...registry.values()];
+}
+
+/**
+ * viem chain for a network (the configured one, or derived from the registry entry)
+ */
+export function getNetworkChain(id: NetworkId): Chain {
+  const network = getNetwork(id);
+
+  return (
+    network.chain ??
+    defineChain({
+      id: network.chainId,
+      name: network.name,
+      nativeCurrency: network.nativeCurrency,
+      rpcUrls: { default: { http: [network.rpcUrl] } },
+      blockExplorers: network.explorerUrl
+        ? { default: { name: network.name, url: network.explorerUrl } }
+        : undefined,
+      testnet: network.testnet,
+    })
+  );
+}
+
+/**
+ * Network name to pass to the CDP API, throwing for read-only networks
+ */
+export function getCdpNetwork(id: NetworkId): string {
+  const network = getNetwork(id);
+
+  if (!network.cdpNetwork) {
+    throw new Error(`Network "${id}" is not supported by the CDP API (no cdpNetwork configured)`);
+  }
+
+  return network.cdpNetwork;
+}
+
+/**
+ * ENS deployment used to resolve names for a network
+ *
+ * Names are resolved on L1: e.g. "base" resolves against "ethereum".
+ */
+export function getENSDeployment(id: NetworkId): { network: NetworkId; contracts: ENSContracts } {
+  const ensNetworkId = getNetwork(id).ensNetwork ?? id;
+  const contracts = getNetwork(ensNetworkId).ens;
+
+  if (!contracts) {
+    throw new Error(`ENS is not available for network "${id}"`);
+  }
+
+  return { network: ensNetworkId, contracts };
+}
+
+/**
+ * Address of a well-known token (e.g. "USDC") on a network
+ */
+export function getTokenAddress(id: NetworkId, symbol: string): Address | undefined {
+  return getNetwork(id).tokens[symbol];
+}
+
+/**
+ * Symbol under which a token address is registered on a network
+ */
+export function getTokenSymbol(id: NetworkId, address: Address): string | undefined {
+  const tokens = getNetwork(id).tokens;
+
+  return Object.keys(tokens).find(
+    (symbol) => tokens[symbol]?.toLowerCase() === address.toLowerCase()
+  );
+}
+
+/**
+ * Contracts this library approves to spend tokens on a network: LayerZero
+ * OFTs (adapters and pools pull tokens with transferFrom), the CCIP router
+ * and Permit2
+ */
+export function getKnownSpenders(id: NetworkId): KnownSpender[] {
+  const { layerZero, ccip, permit2 } = getNetwork(id);
+  const spenders: KnownSpender[] = Object.entries(layerZero?.ofts ?? {}).flatMap(([symbol, address]) =>
+    address ? [{ address, label: `LayerZero OFT (${symbol})` }] : []
+  );
+
+  if (ccip) {
+    spenders.push({ address: ccip.router, label: "CCIP router" });
+  }
+  if (permit2) {
+    spenders.push({ address: permit2, label: "Permit2" });
+  }
+
+  return spenders;
+}
@@ -0,0 +1,158 @@
+/**
+ * Nonce Manager
+ *
+ * Hands out nonces per (account, network) so concurrent sends from one
+ * account don't collide. A send leases the next nonce and holds it until the
+ * transaction is submitted; other sends from the same account on the same
+ * network wait their turn, while other accounts and networks are unaffected.
+ *
+ * - The next nonce is the higher of the chain's pending count and the one
+ *   after the last nonce handed out here, so transactions the RPC hasn't
+ *   seen yet and ones sent from elsewhere are both accounted for
+ * - A nonce whose submission failed is handed out again, leaving no gap
+ * - A nonce conflict or a dropped transaction resets just that account, and
+ *   its next lease starts from the chain's pending count
+ */
+
+import type { Address } from "viem";
+import type { NetworkId } from "./networks.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface NonceLease {
+  nonce: number;
+  /**
+   * The transaction was submitted; pass the nonce it actually used if that
+   * differs (e.g. an idempotent send returned an earlier transaction)
+   */
+  commit(usedNonce?: number): void;
+  /**
+   * The transaction wasn't submitted; `resync` discards the local count
+   * (after a nonce conflict, or when the nonce a submission used is unknown)
+   * instead of reusing the nonce
+   */
+  release(options?: { resync?: boolean }): void;
+}
+
+interface AccountNonces {
+  /** Next nonce to hand out; undefined until read from the chain */
+  next?: number;
+  /** Settles when the current lease ends */
+  queue: Promise<void>;
+}
+
+// ============================================================================
+// NONCE MANAGER
+// ============================================================================
+
+/**
+ * Sequential nonces per account and network
+ *
+ * Every `BlockchainOperations` instance has one; pass the same instance in
+ * the config of several to coordinate them (e.g. a CRE and a batch payout
+ * sharing an account).
+ *
+ * @example
+ * ```ts
+ * const lease = await nonces.acquire(account.address, "base", () =>
+ *   publicClient.getTransactionCount({ address: account.address, blockTag: "pending" })
+ * );
+ * try {
+ *   await submit({ ...transaction, nonce: lease.nonce });
+ *   lease.commit();
+ * } catch (error) {
+ *   lease.release();
+ *   throw error;
+ * }
+ * ```
+ */
+export class NonceManager {
+  private accounts = new Map<string, AccountNonces>();
+
+  /**
+   * Wait for the account's previous lease to end, then lease the next nonce
+   *
+   * Every lease must be committed or released, or later sends from the
+   * account wait forever.
+   */
+  async acquire(
+    address: Address,
+    network: NetworkId,
+    getPendingNonce: () => Promise<number>
+  ): Promise<NonceLease> {
+    const account = this.getAccount(address, network);
+
+    let unlock!: () => void;
+    const previous = account.queue;
+    account.queue = new Promise<void>((resolve) => {
+      unlock = resolve;
+    });
+    await previous;
+
+    let nonce: number;
+    try {
+      const pending = await getPendingNonce();
+      nonce = Math.max(pending, account.next ?? 0);
+    } catch (error) {
+      unlock();
+      throw error;
+    }
+
+    let ended = false;
+    const end = (next: number | undefined) => {
+      if (!ended) {
+        ended = true;
+        account.next = next;
+        unlock();
+      }
+    };
+
+    return {
+      nonce,
+      commit: (usedNonce = nonce) => end(usedNonce >= nonce ? usedNonce + 1 : nonce),
+      release: (options = {}) => end(options.resync ? undefined : nonce),
+    };
+  }
+
+  /**
+   * Record a nonce used outside a lease (e.g. set explicitly on a transaction)
+   */
+  observe(address: Address, network: NetworkId, nonce: number): void {
+    const account = this.getAccount(address, network);
+    if (account.next !== undefined && nonce >= account.next) {
+      account.next = nonce + 1;
+    }
+  }
+
+  /**
+   * Forget local counts so the next lease reads the chain; for one account,
+   * or every account on the network
+   */
+  reset(network: NetworkId, address?: Address): void {
+    for (const [key, account] of this.accounts) {
+      if (key === accountKey(address ?? "", network) || (!address && key.startsWith(`${network}:`))) {
+        account.next = undefined;
+      }
+    }
+  }
+
+  private getAccount(address: Address, network: NetworkId): AccountNonces {
+    const key = accountKey(address, network);
+    let account = this.accounts.get(key);
+    if (!account) {
+      account = { queue: Promise.resolve() };
+      this.accounts.set(key, account);
+    }
+    return account;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function accountKey(address: string, network: NetworkId): string {
+  return `${network}:${address.toLowerCase()}`;
+}
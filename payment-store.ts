@@ -0,0 +1,337 @@
+/**
+ * Payment Store
+ *
+ * Persists CRE payments as a state machine so an interrupted payment can be
+ * resumed without bridging or paying twice:
+ *
+ *   requested → bridging → bridged → paying → paid
+ *        └──────────────────────────┘      (no bridge needed)
+ *   any state → failed
+ *
+ * - `bridging`: legs are planned; each leg's result is saved once it is sent,
+ *   and the payment stays here after a leg fails if it can still be retried
+ * - `bridged`: every leg was sent; waiting for the funds to arrive
+ * - `paying`: the payment transaction is being (or has been) sent; its hash
+ *   is saved before waiting for the receipt
+ *
+ * A leg or payment is marked `submitting` right before its transaction is
+ * handed to CDP. If no hash was saved after that, a resumed attempt reuses
+ * the idempotency key with a fixed gas limit: estimating gas would revert
+ * once the original transaction has spent the tokens, before CDP could
+ * return it.
+ *
+ * Each record carries the idempotency key of the request that started it,
+ * so a repeated request can be matched to the original payment.
+ *
+ * Adapters: in-memory (default), JSON file, and SQLite.
+ */
+
+import { randomUUID } from "node:crypto";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import type { Address, Hex } from "viem";
+import type { BridgeLegResult, BridgeRoute, X402PaymentRequest } from "./cre-x402.js";
+import type { BlockchainErrorCode } from "./errors.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PaymentStatus = "requested" | "bridging" | "bridged" | "paying" | "paid" | "failed";
+
+export interface PaymentLeg {
+  route: BridgeRoute;
+  /** Set once the leg has been sent (or its last attempt has failed) */
+  result?: BridgeLegResult;
+  /**
+   * Bumped when an attempt's transaction reverted or was dropped, so the
+   * retry gets a new idempotency key instead of the failed transaction back
+   */
+  attempt?: number;
+  /** The current attempt's send was handed to CDP, but no result was saved */
+  submitting?: boolean;
+}
+
+export interface PaymentRecord {
+  id: string;
+  /** Identifies the request; repeated requests with the same key share this record */
+  idempotencyKey: string;
+  status: PaymentStatus;
+  request: X402PaymentRequest;
+  /** Resolved recipient */
+  payTo?: Address;
+  /** Payment amount in the token's smallest unit */
+  requiredAmount?: bigint;
+  /** Planned bridge legs, if the target chain was short */
+  legs?: PaymentLeg[];
+  /** Payment transaction, saved as soon as it is sent */
+  transactionHash?: Hex;
+  /** The payment transaction was handed to CDP, but no hash was saved */
+  submitting?: boolean;
+  /**
+   * Bumped when the payment transaction was dropped, so the resend gets a
+   * new idempotency key instead of the dropped transaction back
+   */
+  payAttempt?: number;
+  /** Last error; set on failure, or on a retryable error in a pending state */
+  error?: string;
+  /** Code of the typed error behind `error` (see errors.ts) */
+  errorCode?: BlockchainErrorCode;
+  /** Unix time (milliseconds) */
+  createdAt: number;
+  /** Unix time (milliseconds) */
+  updatedAt: number;
+}
+
+export interface PaymentStore {
+  get(id: string): Promise<PaymentRecord | undefined>;
+  /** Most recent record with this idempotency key */
+  findByIdempotencyKey(key: string): Promise<PaymentRecord | undefined>;
+  save(record: PaymentRecord): Promise<void>;
+  /** Records in the given states (default: all) */
+  list(statuses?: PaymentStatus[]): Promise<PaymentRecord[]>;
+}
+
+/**
+ * Minimal synchronous SQLite handle; satisfied by `better-sqlite3`'s
+ * `Database` and `node:sqlite`'s `DatabaseSync`
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+/** States a payment can still move on from */
+export const PENDING_PAYMENT_STATUSES: PaymentStatus[] = ["requested", "bridging", "bridged", "paying"];
+
+// ============================================================================
+// RECORDS
+// ============================================================================
+
+/**
+ * Start a new payment record in the `requested` state
+ */
+export function createPaymentRecord(request: X402PaymentRequest, idempotencyKey: string): PaymentRecord {
+  const now = Date.now();
+  return { id: randomUUID(), idempotencyKey, status: "requested", request, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Encode a record as JSON (bigints are tagged so they survive a round trip)
+ */
+export function serializePaymentRecord(record: PaymentRecord): string {
+  return JSON.stringify(record, (_key, value) =>
+    typeof value === "bigint" ? { $bigint: value.toString() } : value
+  );
+}
+
+export function deserializePaymentRecord(json: string): PaymentRecord {
+  return JSON.parse(json, (_key, value) =>
+    value && typeof value === "object" && typeof value.$bigint === "string" ? BigInt(value.$bigint) : value
+  );
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+/**
+ * Keeps records for the life of the process (the default)
+ */
+export class MemoryPaymentStore implements PaymentStore {
+  private records = new Map<string, string>();
+
+  async get(id: string): Promise<PaymentRecord | undefined> {
+    const json = this.records.get(id);
+    return json ? deserializePaymentRecord(json) : undefined;
+  }
+
+  async findByIdempotencyKey(key: string): Promise<PaymentRecord | undefined> {
+    return latest((await this.list()).filter((record) => record.idempotencyKey === key));
+  }
+
+  async save(record: PaymentRecord): Promise<void> {
+    this.records.set(record.id, serializePaymentRecord(record));
+  }
+
+  async list(statuses?: PaymentStatus[]): Promise<PaymentRecord[]> {
+    return [...this.records.values()]
+      .map(deserializePaymentRecord)
+      .filter((record) => !statuses || statuses.includes(record.status));
+  }
+}
+
+// ============================================================================
+// JSON FILE STORE
+// ============================================================================
+
+/**
+ * Keeps every record in one JSON file, rewritten atomically on each save
+ *
+ * Meant for a single process; use the SQLite store when several share the data.
+ *
+ * @example
+ * ```ts
+ * const cre = new CrossChainResourceExecution(cdpClient, {
+ *   walletAddress: account.address,
+ *   paymentStore: new JsonFilePaymentStore("./payments.json"),
+ * });
+ * ```
+ */
+export class JsonFilePaymentStore implements PaymentStore {
+  /** Serializes writes so concurrent saves don't drop each other's changes */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async get(id: string): Promise<PaymentRecord | undefined> {
+    await this.queue;
+    return (await this.read()).get(id);
+  }
+
+  async findByIdempotencyKey(key: string): Promise<PaymentRecord | undefined> {
+    return latest((await this.list()).filter((record) => record.idempotencyKey === key));
+  }
+
+  async save(record: PaymentRecord): Promise<void> {
+    const write = this.queue.then(async () => {
+      const records = await this.read();
+      records.set(record.id, record);
+
+      const json = `[\n${[...records.values()].map(serializePaymentRecord).join(",\n")}\n]\n`;
+      const temp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temp, json);
+      await rename(temp, this.path);
+    });
+
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  async list(statuses?: PaymentStatus[]): Promise<PaymentRecord[]> {
+    await this.queue;
+    return [...(await this.read()).values()].filter(
+      (record) => !statuses || statuses.includes(record.status)
+    );
+  }
+
+  private async read(): Promise<Map<string, PaymentRecord>> {
+    let json: string;
+    try {
+      json = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new Map();
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(json) as unknown[];
+    const records = parsed.map((entry) => deserializePaymentRecord(JSON.stringify(entry)));
+    return new Map(records.map((record) => [record.id, record]));
+  }
+}
+
+// ============================================================================
+// SQLITE STORE
+// ============================================================================
+
+/**
+ * Keeps records in a SQLite table (created if missing)
+ *
+ * Takes an open database handle, so no driver is bundled.
+ *
+ * @example
+ * ```ts
+ * import Database from "better-sqlite3";   // or: import { DatabaseSync } from "node:sqlite";
+ *
+ * const store = new SqlitePaymentStore(new Database("payments.db"));
+ * ```
+ */
+export class SqlitePaymentStore implements PaymentStore {
+  constructor(
+    private db: SqliteDatabase,
+    private table = "x402_payments"
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid table name: ${table}`);
+    }
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id TEXT PRIMARY KEY,
+        idempotency_key TEXT NOT NULL,
+        status TEXT NOT NULL,
+        record TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${table}_status ON ${table} (status);
+      CREATE INDEX IF NOT EXISTS ${table}_idempotency_key ON ${table} (idempotency_key);
+    `);
+  }
+
+  async get(id: string): Promise<PaymentRecord | undefined> {
+    const row = this.db.prepare(`SELECT record FROM ${this.table} WHERE id = ?`).get(id) as
+      | { record: string }
+      | undefined;
+    return row ? deserializePaymentRecord(row.record) : undefined;
+  }
+
+  async findByIdempotencyKey(key: string): Promise<PaymentRecord | undefined> {
+    const row = this.db
+      .prepare(
+        `SELECT record FROM ${this.table} WHERE idempotency_key = ? ORDER BY created_at DESC LIMIT 1`
+      )
+      .get(key) as { record: string } | undefined;
+    return row ? deserializePaymentRecord(row.record) : undefined;
+  }
+
+  async save(record: PaymentRecord): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO ${this.table} (id, idempotency_key, status, record, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET status = excluded.status, record = excluded.record, updated_at = excluded.updated_at`
+      )
+      .run(
+        record.id,
+        record.idempotencyKey,
+        record.status,
+        serializePaymentRecord(record),
+        record.createdAt,
+        record.updatedAt
+      );
+  }
+
+  async list(statuses?: PaymentStatus[]): Promise<PaymentRecord[]> {
+    if (statuses?.length === 0) {
+      return [];
+    }
+
+    const rows = (
+      statuses
+        ? this.db
+            .prepare(
+              `SELECT record FROM ${this.table} WHERE status IN (${statuses.map(() => "?").join(", ")}) ORDER BY created_at`
+            )
+            .all(...statuses)
+        : this.db.prepare(`SELECT record FROM ${this.table} ORDER BY created_at`).all()
+    ) as { record: string }[];
+
+    return rows.map((row) => deserializePaymentRecord(row.record));
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function latest(records: PaymentRecord[]): PaymentRecord | undefined {
+  return records.reduce<PaymentRecord | undefined>(
+    (newest, record) => (!newest || record.createdAt > newest.createdAt ? record : newest),
+    undefined
+  );
+}
@@ -0,0 +1,553 @@
+/**
+ * Batch Payouts
+ *
+ * Pays many recipients from one CDP account. Rows come from CSV or JSON
+ * (recipient, token, amount, network, memo) and are all validated before
+ * anything is sent: recipients resolve, tokens are known, amounts parse, and
+ * the wallet holds the total of each token on each network.
+ *
+ * Transfers on a network are sent in row order, each taking the next nonce
+ * from the instance's nonce manager, so they don't wait for each other to be
+ * mined; networks run in parallel. The result is a per-row report (status, hash, error).
+ * Passing the report to `retry` sends only the rows that didn't confirm;
+ * each row keeps its idempotency key, so a row that was sent after all is
+ * never paid twice.
+ */
+
+import { readFile } from "node:fs/promises";
+import {
+  encodeFunctionData,
+  formatUnits,
+  isAddress,
+  parseUnits,
+  type Address,
+  type Hex,
+  type TransactionRequestEIP1559,
+} from "viem";
+import { ERC20_ABI } from "./abis.js";
+import type { AddressOrENSName, BlockchainOperations } from "./blockchain.js";
+import { InsufficientFundsError, toBlockchainError, type BlockchainErrorCode } from "./errors.js";
+import { deriveIdempotencyKey } from "./idempotency.js";
+import { getNetwork, getTokenAddress, type NetworkId } from "./networks.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PayoutRow {
+  /** Address or ENS name */
+  recipient: string;
+  /** "native", the network's native symbol (e.g. "ETH"), a registered token symbol (e.g. "USDC"), or a token address */
+  token: string;
+  /** Human-readable amount, e.g. "12.5" */
+  amount: string;
+  network: NetworkId;
+  /** Free-form reference kept in the report (not sent on-chain) */
+  memo?: string;
+}
+
+/**
+ * - `pending`: not sent yet
+ * - `sent`: sent; not waited for (or the wait timed out)
+ * - `confirmed`: mined successfully
+ * - `failed`: not sent, reverted or dropped; `error` says why
+ */
+export type PayoutStatus = "pending" | "sent" | "confirmed" | "failed";
+
+export interface PayoutRowResult {
+  /** Position of the row in the input (0-based) */
+  index: number;
+  row: PayoutRow;
+  status: PayoutStatus;
+  transactionHash?: Hex;
+  error?: string;
+  errorCode?: BlockchainErrorCode;
+  /** Incremented when a mined transaction failed and the row is sent again */
+  attempt: number;
+}
+
+/**
+ * JSON-serializable, so it can be saved and passed to `retry` later
+ */
+export interface PayoutReport {
+  /** Identifies the batch; row idempotency keys derive from it */
+  batchId: string;
+  from: Address;
+  rows: PayoutRowResult[];
+  /** Unix time (milliseconds) */
+  createdAt: number;
+  /** Unix time (milliseconds) */
+  updatedAt: number;
+}
+
+export interface PayoutIssue {
+  index: number;
+  message: string;
+}
+
+export interface PreparedPayout {
+  index: number;
+  row: PayoutRow;
+  to: Address;
+  /** Token contract, or "native" */
+  token: Address | "native";
+  /** Amount in the token's smallest unit */
+  amount: bigint;
+  decimals: number;
+}
+
+export interface PayoutValidation {
+  payouts: PreparedPayout[];
+  issues: PayoutIssue[];
+}
+
+export interface ExecutePayoutsOptions {
+  /** Paying account (CDP account) */
+  from: Address;
+  /**
+   * Batch identifier; rows' idempotency keys derive from it (default: a new
+   * UUID per call, so running the same rows again pays them again). Pass a
+   * stable id (e.g. "payroll-2024-06") to make a re-run of the batch resume
+   * it instead.
+   */
+  batchId?: string;
+  /** Wait for each transfer to be mined (default: true) */
+  waitForReceipts?: boolean;
+  /** Confirmations to wait for (default: 1) */
+  confirmations?: number;
+}
+
+export type RetryPayoutsOptions = Omit<ExecutePayoutsOptions, "from" | "batchId">;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PAYOUT_COLUMNS = ["recipient", "token", "amount", "network", "memo"] as const;
+
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+// ============================================================================
+// BATCH PAYOUTS
+// ============================================================================
+
+export class BatchPayouts {
+  constructor(private blockchain: BlockchainOperations) {}
+
+  /**
+   * Resolve and check every row without sending anything
+   *
+   * Each row's recipient, token, amount and network is checked; problems are
+   * returned per row rather than thrown. Balances are checked by `execute`.
+   */
+  async validate(rows: PayoutRow[]): Promise<PayoutValidation> {
+    const decimals = new Map<string, Promise<number>>();
+    const results = await Promise.all(rows.map((row, index) => this.prepareRow(row, index, decimals)));
+
+    return {
+      payouts: results.filter((result): result is PreparedPayout => "to" in result),
+      issues: results.filter((result): result is PayoutIssue => "message" in result),
+    };
+  }
+
+  /**
+   * Validate and pay every row
+   *
+   * Throws, before sending anything, if a row is invalid or the wallet holds
+   * less than the batch needs of some token. Failures while sending are
+   * recorded per row instead.
+   *
+   * @example
+   * ```ts
+   * const payouts = new BatchPayouts(blockchain);
+   * const report = await payouts.execute(await readPayoutFile("./payroll.csv"), { from: account.address });
+   *
+   * await writeFile("./payroll-report.json", JSON.stringify(report, null, 2));
+   * console.log(report.rows.filter((r) => r.status === "failed"));
+   * ```
+   */
+  async execute(rows: PayoutRow[], options: ExecutePayoutsOptions): Promise<PayoutReport> {
+    const { from } = options;
+    const now = Date.now();
+
+    const report: PayoutReport = {
+      batchId: options.batchId ?? crypto.randomUUID(),
+      from,
+      rows: rows.map((row, index) => ({ index, row, status: "pending", attempt: 0 })),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.run(report, options);
+  }
+
+  /**
+   * Send the rows of a report that aren't confirmed yet
+   *
+   * Rows still `sent` are waited for again. Rows that failed before a
+   * transaction hash came back keep their idempotency key, so one that
+   * actually went through is not paid again; rows whose transaction failed
+   * on-chain are sent as a new transaction.
+   *
+   * @example
+   * ```ts
+   * const previous = JSON.parse(await readFile("./payroll-report.json", "utf8")) as PayoutReport;
+   * const report = await payouts.retry(previous);
+   * ```
+   */
+  async retry(report: PayoutReport, options: RetryPayoutsOptions = {}): Promise<PayoutReport> {
+    return this.run(
+      {
+        ...report,
+        rows: report.rows.map((result) =>
+          result.status === "confirmed" || result.status === "sent"
+            ? { ...result }
+            : {
+                ...result,
+                status: "pending",
+                error: undefined,
+                errorCode: undefined,
+                transactionHash: undefined,
+                // A mined (reverted) or dropped transaction can't be resent under its key
+                attempt: result.transactionHash ? result.attempt + 1 : result.attempt,
+              }
+        ),
+      },
+      { ...options, from: report.from }
+    );
+  }
+
+  private async run(report: PayoutReport, options: ExecutePayoutsOptions): Promise<PayoutReport> {
+    const { from, waitForReceipts = true, confirmations = 1 } = options;
+    const open = report.rows.filter((result) => result.status !== "confirmed");
+
+    const { payouts, issues } = await this.validate(open.map((result) => result.row));
+    if (issues.length > 0) {
+      throw new Error(
+        `Invalid payout rows:\n${issues.map((issue) => `  row ${open[issue.index].index}: ${issue.message}`).join("\n")}`
+      );
+    }
+
+    // `validate` numbered the open rows from 0; map back to the report's rows
+    const pending = payouts
+      .map((payout) => ({ payout, result: open[payout.index] }))
+      .filter(({ result }) => result.status === "pending" || result.status === "sent");
+
+    await this.checkBalances(
+      from,
+      pending.filter(({ result }) => !result.transactionHash).map(({ payout }) => payout)
+    );
+
+    const byNetwork = new Map<NetworkId, typeof pending>();
+    for (const entry of pending) {
+      byNetwork.set(entry.payout.row.network, [...(byNetwork.get(entry.payout.row.network) ?? []), entry]);
+    }
+
+    await Promise.all(
+      [...byNetwork].map(([network, entries]) =>
+        this.payNetwork(report, network, entries, { from, waitForReceipts, confirmations })
+      )
+    );
+
+    report.updatedAt = Date.now();
+    return report;
+  }
+
+  /**
+   * Send one network's rows in order, then wait for them together
+   */
+  private async payNetwork(
+    report: PayoutReport,
+    network: NetworkId,
+    entries: { payout: PreparedPayout; result: PayoutRowResult }[],
+    options: Required<Omit<ExecutePayoutsOptions, "batchId">>
+  ): Promise<void> {
+    const { from, waitForReceipts, confirmations } = options;
+
+    for (const { payout, result } of entries) {
+      if (result.transactionHash) {
+        continue;
+      }
+
+      try {
+        const { transactionHash } = await this.blockchain.sendTransaction({
+          from,
+          transaction: transferRequest(payout),
+          network,
+          idempotencyKey: deriveIdempotencyKey(report.batchId, result.index, result.row, result.attempt),
+        });
+
+        result.status = "sent";
+        result.transactionHash = transactionHash;
+      } catch (error) {
+        setFailed(result, error, network);
+      }
+    }
+
+    if (!waitForReceipts) {
+      return;
+    }
+
+    await Promise.all(
+      entries
+        .filter(({ result }) => result.status === "sent")
+        .map(async ({ result }) => {
+          try {
+            await this.blockchain.confirmTransaction({
+              transactionHash: result.transactionHash!,
+              network,
+              confirmations,
+            });
+            result.status = "confirmed";
+          } catch (error) {
+            const failure = toBlockchainError(error, { network });
+            // Still pending after the timeout: leave it `sent` for a later retry
+            if (failure.code !== "receipt_timeout") {
+              setFailed(result, failure, network);
+            }
+          }
+        })
+    );
+  }
+
+  /**
+   * Throw if the wallet holds less of a token on a network than the rows need
+   *
+   * Native totals don't include gas.
+   */
+  private async checkBalances(from: Address, payouts: PreparedPayout[]): Promise<void> {
+    const totals = new Map<string, { network: NetworkId; token: Address | "native"; amount: bigint; decimals: number }>();
+
+    for (const { row, token, amount, decimals } of payouts) {
+      const key = `${row.network}:${token.toLowerCase()}`;
+      const total = totals.get(key) ?? { network: row.network, token, amount: 0n, decimals };
+      total.amount += amount;
+      totals.set(key, total);
+    }
+
+    const shortfalls = await Promise.all(
+      [...totals.values()].map(async (total) => {
+        const balance =
+          total.token === "native"
+            ? await this.blockchain.getPublicClient(total.network).getBalance({ address: from })
+            : await this.blockchain.getERC20Balance(total.token, from, total.network);
+
+        return balance < total.amount ? { ...total, balance } : undefined;
+      })
+    );
+
+    const short = shortfalls.find((shortfall) => shortfall !== undefined);
+    if (short) {
+      throw new InsufficientFundsError(
+        `Payouts need ${formatUnits(short.amount, short.decimals)} of ${short.token} on ${short.network}, ` +
+          `but ${from} holds ${formatUnits(short.balance, short.decimals)}`,
+        { token: short.token, required: short.amount, available: short.balance },
+        { network: short.network }
+      );
+    }
+  }
+
+  private async prepareRow(
+    row: PayoutRow,
+    index: number,
+    decimalsCache: Map<string, Promise<number>>
+  ): Promise<PreparedPayout | PayoutIssue> {
+    const issue = (message: string): PayoutIssue => ({ index, message });
+
+    let nativeCurrency: { symbol: string; decimals: number };
+    try {
+      nativeCurrency = getNetwork(row.network).nativeCurrency;
+    } catch {
+      return issue(`unknown network "${row.network}"`);
+    }
+
+    const isNative = row.token.toLowerCase() === "native" || row.token.toUpperCase() === nativeCurrency.symbol;
+    const token = isNative
+      ? "native"
+      : isAddress(row.token)
+        ? row.token
+        : getTokenAddress(row.network, row.token.toUpperCase());
+    if (!token) {
+      return issue(`unknown token "${row.token}" on ${row.network}`);
+    }
+
+    if (!isAddress(row.recipient) && !row.recipient.includes(".")) {
+      return issue(`recipient "${row.recipient}" is neither an address nor an ENS name`);
+    }
+
+    if (!AMOUNT_PATTERN.test(row.amount) || /^[0.]+$/.test(row.amount)) {
+      return issue(`invalid amount "${row.amount}"`);
+    }
+
+    const key = `${row.network}:${token.toLowerCase()}`;
+    if (!decimalsCache.has(key)) {
+      decimalsCache.set(
+        key,
+        token === "native"
+          ? Promise.resolve(nativeCurrency.decimals)
+          : this.blockchain
+              .readContract({ contractAddress: token, abi: ERC20_ABI, functionName: "decimals", network: row.network })
+              .then((decimals) => decimals as number)
+      );
+    }
+
+    try {
+      const [to, decimals] = await Promise.all([
+        this.blockchain.resolveAddress(row.recipient as AddressOrENSName, row.network),
+        decimalsCache.get(key)!,
+      ]);
+
+      const fraction = row.amount.split(".")[1] ?? "";
+      if (fraction.length > decimals) {
+        return issue(`amount "${row.amount}" has more than ${decimals} decimals`);
+      }
+
+      return { index, row, to, token, amount: parseUnits(row.amount, decimals), decimals };
+    } catch (error) {
+      return issue(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+// ============================================================================
+// FILE FORMATS
+// ============================================================================
+
+/**
+ * Parse payout rows from CSV with a header line
+ *
+ * Columns (any order, case-insensitive): recipient, token, amount, network,
+ * and optionally memo. Fields may be double-quoted.
+ *
+ * @example
+ * ```ts
+ * const rows = parsePayoutCsv(`recipient,token,amount,network,memo
+ * alice.eth,USDC,250,base,March invoice
+ * 0x742d35Cc6634C0532925a3b844Bc454e4438f44e,ETH,0.05,arbitrum,`);
+ * ```
+ */
+export function parsePayoutCsv(csv: string): PayoutRow[] {
+  const [header, ...lines] = parseCsvRecords(csv);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  for (const required of PAYOUT_COLUMNS.filter((column) => column !== "memo")) {
+    if (!columns.includes(required)) {
+      throw new Error(`Payout CSV is missing the "${required}" column`);
+    }
+  }
+
+  return lines.map((fields) => {
+    const value = (column: (typeof PAYOUT_COLUMNS)[number]) => fields[columns.indexOf(column)]?.trim() ?? "";
+    const memo = value("memo");
+
+    return {
+      recipient: value("recipient"),
+      token: value("token"),
+      amount: value("amount"),
+      network: value("network"),
+      ...(memo ? { memo } : {}),
+    };
+  });
+}
+
+/**
+ * Parse payout rows from a JSON array of objects
+ *
+ * Amounts may be numbers or strings; strings avoid floating-point rounding.
+ */
+export function parsePayoutJson(json: string): PayoutRow[] {
+  const parsed = JSON.parse(json) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error("Payout JSON must be an array of rows");
+  }
+
+  return parsed.map((entry: Record<string, unknown>) => ({
+    recipient: String(entry.recipient ?? ""),
+    token: String(entry.token ?? ""),
+    amount: String(entry.amount ?? ""),
+    network: String(entry.network ?? ""),
+    ...(entry.memo !== undefined ? { memo: String(entry.memo) } : {}),
+  }));
+}
+
+/**
+ * Read payout rows from a `.csv` or `.json` file
+ */
+export async function readPayoutFile(path: string): Promise<PayoutRow[]> {
+  const contents = await readFile(path, "utf8");
+  return path.toLowerCase().endsWith(".json") ? parsePayoutJson(contents) : parsePayoutCsv(contents);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function transferRequest(payout: PreparedPayout): TransactionRequestEIP1559 {
+  if (payout.token === "native") {
+    return { to: payout.to, value: payout.amount };
+  }
+
+  return {
+    to: payout.token,
+    data: encodeFunctionData({ abi: ERC20_ABI, functionName: "transfer", args: [payout.to, payout.amount] }),
+  };
+}
+
+function setFailed(result: PayoutRowResult, error: unknown, network: NetworkId): void {
+  const failure = toBlockchainError(error, { network });
+  result.status = "failed";
+  result.error = failure.message;
+  result.errorCode = failure.code;
+}
+
+/**
+ * Split CSV into records of fields (RFC 4180 quoting; blank lines skipped)
+ */
+function parseCsvRecords(csv: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") {
+        i++;
+      }
+      record.push(field);
+      if (record.some((value) => value.trim() !== "")) {
+        records.push(record);
+      }
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  record.push(field);
+  if (record.some((value) => value.trim() !== "")) {
+    records.push(record);
+  }
+
+  return records;
+}
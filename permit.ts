@@ -0,0 +1,550 @@
+/**
+ * Gasless Approvals: EIP-2612 Permit and Uniswap Permit2
+ *
+ * An `approve` is a transaction of its own. A permit is an EIP-712 signature
+ * instead, which the spender submits in the same transaction that spends the
+ * tokens:
+ * - EIP-2612 `permit`: for tokens that implement it (USDC, DAI, most newer
+ *   tokens); the spender calls `token.permit(...)` first
+ * - Permit2 `PermitSingle`: a time-limited allowance held by the Permit2
+ *   contract, for any ERC-20 once the token is approved to Permit2
+ * - Permit2 `PermitTransferFrom`: a one-time transfer, with no allowance left
+ *   behind
+ *
+ * Only contracts built to accept them can use permits. The LayerZero OFTs
+ * and the CCIP router are not, so bridging is out of scope: the bridges
+ * still approve on-chain (see `ensureAllowance`), and `ensureAllowance`
+ * never signs a permit.
+ *
+ * Each signature is checked against the spending policy as an approval of
+ * the permitted amount to the spender: capped per transaction and checked
+ * against the recipient rules, but not counted in budgets, since the tokens
+ * only move once the spender pulls them. Callers that know where the tokens
+ * end up (e.g. the x402 client's "transfer" scheme) authorize that transfer
+ * themselves.
+ *
+ * Specs: https://eips.ethereum.org/EIPS/eip-2612, https://docs.uniswap.org/contracts/permit2/overview
+ */
+
+import {
+  encodeFunctionData,
+  hexToBigInt,
+  maxUint160,
+  parseSignature,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type TypedDataDomain,
+} from "viem";
+import { EIP2612_ABI, PERMIT2_ABI } from "./abis.js";
+import type { BlockchainOperations, EnsureAllowanceOptions, AllowanceResult } from "./blockchain.js";
+import { getNetwork, type NetworkId } from "./networks.js";
+import { randomNonce } from "./utils.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Permit {
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  /** The owner's current `nonces(owner)`; each permit uses the next one */
+  nonce: bigint;
+  /** Unix time (seconds) after which the permit can't be used */
+  deadline: bigint;
+}
+
+export interface SignedPermit {
+  permit: Permit;
+  signature: Hex;
+  /** Signature split the way `permit(owner, spender, value, deadline, v, r, s)` takes it */
+  v: number;
+  r: Hex;
+  s: Hex;
+  /** Token contract the permit is for */
+  tokenAddress: Address;
+  network: NetworkId;
+}
+
+export interface SignPermitOptions {
+  /** Owner (CDP account) */
+  from: Address;
+  /** Contract allowed to spend */
+  spender: Address;
+  /** Token contract */
+  tokenAddress: Address;
+  /** Amount in the token's smallest unit */
+  amount: bigint;
+  /** Network the token is on */
+  network: NetworkId;
+  /** Seconds until the signature expires (default: 600) */
+  validForSeconds?: number;
+  /** EIP-712 domain name and version; read from the token if omitted */
+  domain?: { name?: string; version?: string };
+}
+
+export interface PermitDetails {
+  token: Address;
+  /** Allowance in the token's smallest unit (at most uint160) */
+  amount: bigint;
+  /** Unix time (seconds) the allowance expires */
+  expiration: number;
+  /** Permit2's nonce for this owner, token and spender */
+  nonce: number;
+}
+
+export interface PermitSingle {
+  details: PermitDetails;
+  spender: Address;
+  /** Unix time (seconds) after which the signature can't be used */
+  sigDeadline: bigint;
+}
+
+export interface SignedPermitSingle {
+  owner: Address;
+  permit: PermitSingle;
+  signature: Hex;
+  network: NetworkId;
+}
+
+export interface SignPermitSingleOptions extends Omit<SignPermitOptions, "domain"> {
+  /** Seconds the allowance lasts once submitted (default: 30 days) */
+  expiresInSeconds?: number;
+}
+
+export interface PermitTransferFrom {
+  permitted: { token: Address; amount: bigint };
+  /** Only this address may use the signature */
+  spender: Address;
+  /** Unordered nonce; any unused value works */
+  nonce: bigint;
+  /** Unix time (seconds) after which the signature can't be used */
+  deadline: bigint;
+}
+
+export interface SignedPermitTransferFrom {
+  owner: Address;
+  permit: PermitTransferFrom;
+  signature: Hex;
+  network: NetworkId;
+}
+
+export interface SignPermitTransferFromOptions extends Omit<SignPermitOptions, "domain"> {
+  /** Nonce to use (default: random) */
+  nonce?: bigint;
+}
+
+export interface Permit2Allowance {
+  amount: bigint;
+  /** Unix time (seconds); 0 if never set */
+  expiration: number;
+  nonce: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+export const PERMIT_SINGLE_TYPES = {
+  PermitSingle: [
+    { name: "details", type: "PermitDetails" },
+    { name: "spender", type: "address" },
+    { name: "sigDeadline", type: "uint256" },
+  ],
+  PermitDetails: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint160" },
+    { name: "expiration", type: "uint48" },
+    { name: "nonce", type: "uint48" },
+  ],
+} as const;
+
+export const PERMIT_TRANSFER_FROM_TYPES = {
+  PermitTransferFrom: [
+    { name: "permitted", type: "TokenPermissions" },
+    { name: "spender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  TokenPermissions: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+} as const;
+
+const DEFAULT_VALID_FOR_SECONDS = 600;
+
+const DEFAULT_PERMIT2_EXPIRATION_SECONDS = 30 * 24 * 60 * 60;
+
+// ============================================================================
+// PERMITS
+// ============================================================================
+
+/**
+ * Signs EIP-2612 and Permit2 permits with a CDP account
+ *
+ * The spender's transaction that pulls the tokens isn't sent by this wallet,
+ * so signing is the last point the spending policy sees the spend; each
+ * permit is authorized there as an approval for the spender.
+ *
+ * @example
+ * ```ts
+ * const permits = new Permits(blockchain);
+ *
+ * if (await permits.supportsPermit(usdc, "base")) {
+ *   const signed = await permits.signPermit({ from: account.address, spender: router, tokenAddress: usdc, amount, network: "base" });
+ *   // router.multicall([encodePermit(signed), swapCalldata])
+ * }
+ * ```
+ */
+export class Permits {
+  private support = new Map<string, boolean>();
+
+  constructor(private blockchain: BlockchainOperations) {}
+
+  /**
+   * Check whether a token implements EIP-2612 (probes `nonces` and `DOMAIN_SEPARATOR`)
+   */
+  async supportsPermit(tokenAddress: Address, network: NetworkId): Promise<boolean> {
+    const key = `${network}:${tokenAddress.toLowerCase()}`;
+    const cached = this.support.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const read = (functionName: "nonces" | "DOMAIN_SEPARATOR", args?: unknown[]) =>
+      this.blockchain.readContract({ contractAddress: tokenAddress, abi: EIP2612_ABI, functionName, args, network });
+
+    const supported = await Promise.all([read("nonces", [zeroAddress]), read("DOMAIN_SEPARATOR")]).then(
+      () => true,
+      () => false
+    );
+
+    this.support.set(key, supported);
+    return supported;
+  }
+
+  /**
+   * EIP-712 domain of a token
+   *
+   * Read with EIP-5267 `eip712Domain()` where the token has it, otherwise
+   * from `name()` and `version()` (version "1" if the token has none).
+   */
+  async getDomain(
+    tokenAddress: Address,
+    network: NetworkId,
+    overrides: { name?: string; version?: string } = {}
+  ): Promise<TypedDataDomain> {
+    const read = (functionName: "eip712Domain" | "name" | "version") =>
+      this.blockchain.readContract({ contractAddress: tokenAddress, abi: EIP2612_ABI, functionName, network });
+
+    const eip5267 = (await read("eip712Domain").catch(() => undefined)) as readonly unknown[] | undefined;
+    const [name, version] = await Promise.all([
+      overrides.name ?? (eip5267?.[1] as string | undefined) ?? (read("name") as Promise<string>),
+      overrides.version ??
+        (eip5267?.[2] as string | undefined) ??
+        (read("version") as Promise<string>).catch(() => "1"),
+    ]);
+
+    return {
+      name,
+      version,
+      chainId: getNetwork(network).chainId,
+      verifyingContract: tokenAddress,
+    };
+  }
+
+  /**
+   * Sign an EIP-2612 `Permit` for the owner's next nonce
+   *
+   * @example
+   * ```ts
+   * const signed = await permits.signPermit({
+   *   from: account.address,
+   *   spender: "0x...",
+   *   tokenAddress: getTokenAddress("base", "USDC")!,
+   *   amount: parseUnits("100", 6),
+   *   network: "base",
+   * });
+   * const data = encodePermit(signed); // token.permit(...) calldata
+   * ```
+   */
+  async signPermit(options: SignPermitOptions): Promise<SignedPermit> {
+    const { from, spender, tokenAddress, amount, network, validForSeconds = DEFAULT_VALID_FOR_SECONDS } = options;
+
+    return this.withSpend(options, async () => {
+      const [domain, nonce] = await Promise.all([
+        this.getDomain(tokenAddress, network, options.domain),
+        this.blockchain.readContract({
+          contractAddress: tokenAddress,
+          abi: EIP2612_ABI,
+          functionName: "nonces",
+          args: [from],
+          network,
+        }) as Promise<bigint>,
+      ]);
+
+      const permit: Permit = { owner: from, spender, value: amount, nonce, deadline: deadlineIn(validForSeconds) };
+      const signature = await this.blockchain.signTypedData({
+        from,
+        domain,
+        types: PERMIT_TYPES,
+        primaryType: "Permit",
+        message: { ...permit },
+      });
+
+      this.blockchain.report({ type: "permit_signed", network, kind: "eip2612", token: tokenAddress, spender, amount });
+
+      const { v, yParity, r, s } = parseSignature(signature);
+      return { permit, signature, v: Number(v ?? BigInt(yParity + 27)), r, s, tokenAddress, network };
+    });
+  }
+
+  /**
+   * Permit2 contract on a network
+   */
+  getPermit2Address(network: NetworkId): Address {
+    const permit2 = getNetwork(network).permit2;
+    if (!permit2) {
+      throw new Error(`Permit2 is not configured for network ${network}`);
+    }
+    return permit2;
+  }
+
+  /**
+   * Approve Permit2 to spend a token (once per token), skipping the
+   * transaction if its allowance already covers `amount`
+   */
+  async ensurePermit2Approval(options: Omit<EnsureAllowanceOptions, "spender">): Promise<AllowanceResult> {
+    return this.blockchain.ensureAllowance({ ...options, spender: this.getPermit2Address(options.network) });
+  }
+
+  /**
+   * Allowance Permit2 holds for a spender: amount, expiration and next nonce
+   */
+  async getPermit2Allowance(options: {
+    owner: Address;
+    spender: Address;
+    tokenAddress: Address;
+    network: NetworkId;
+  }): Promise<Permit2Allowance> {
+    const { owner, spender, tokenAddress, network } = options;
+
+    const [amount, expiration, nonce] = (await this.blockchain.readContract({
+      contractAddress: this.getPermit2Address(network),
+      abi: PERMIT2_ABI,
+      functionName: "allowance",
+      args: [owner, tokenAddress, spender],
+      network,
+    })) as readonly [bigint, number, number];
+
+    return { amount, expiration, nonce };
+  }
+
+  /**
+   * Sign a Permit2 `PermitSingle`: an allowance for `spender`, set when the
+   * spender submits it with `permit(owner, permitSingle, signature)`
+   *
+   * The token must be approved to Permit2 first (see `ensurePermit2Approval`).
+   *
+   * @example
+   * ```ts
+   * await permits.ensurePermit2Approval({ from, tokenAddress: usdc, amount: parseUnits("1000", 6), network: "base" });
+   * const signed = await permits.signPermitSingle({ from, spender: universalRouter, tokenAddress: usdc, amount, network: "base" });
+   * ```
+   */
+  async signPermitSingle(options: SignPermitSingleOptions): Promise<SignedPermitSingle> {
+    const {
+      from,
+      spender,
+      tokenAddress,
+      amount,
+      network,
+      validForSeconds = DEFAULT_VALID_FOR_SECONDS,
+      expiresInSeconds = DEFAULT_PERMIT2_EXPIRATION_SECONDS,
+    } = options;
+
+    if (amount > maxUint160) {
+      throw new Error(`Permit2 allowances are at most uint160; got ${amount}`);
+    }
+
+    return this.withSpend(options, async () => {
+      const { nonce } = await this.getPermit2Allowance({ owner: from, spender, tokenAddress, network });
+      const permit: PermitSingle = {
+        details: {
+          token: tokenAddress,
+          amount,
+          expiration: Math.floor(Date.now() / 1000) + expiresInSeconds,
+          nonce,
+        },
+        spender,
+        sigDeadline: deadlineIn(validForSeconds),
+      };
+
+      const signature = await this.blockchain.signTypedData({
+        from,
+        domain: this.getPermit2Domain(network),
+        types: PERMIT_SINGLE_TYPES,
+        primaryType: "PermitSingle",
+        message: { ...permit, details: { ...permit.details } },
+      });
+
+      this.blockchain.report({ type: "permit_signed", network, kind: "permit2", token: tokenAddress, spender, amount });
+      return { owner: from, permit, signature, network };
+    });
+  }
+
+  /**
+   * Sign a Permit2 `PermitTransferFrom`: `spender` may move up to `amount`
+   * once, to any recipient, with `permitTransferFrom`
+   *
+   * The token must be approved to Permit2 first (see `ensurePermit2Approval`).
+   */
+  async signPermitTransferFrom(options: SignPermitTransferFromOptions): Promise<SignedPermitTransferFrom> {
+    const { from, spender, tokenAddress, amount, network, validForSeconds = DEFAULT_VALID_FOR_SECONDS } = options;
+
+    return this.withSpend(options, async () => {
+      const permit: PermitTransferFrom = {
+        permitted: { token: tokenAddress, amount },
+        spender,
+        nonce: options.nonce ?? hexToBigInt(randomNonce()),
+        deadline: deadlineIn(validForSeconds),
+      };
+
+      const signature = await this.blockchain.signTypedData({
+        from,
+        domain: this.getPermit2Domain(network),
+        types: PERMIT_TRANSFER_FROM_TYPES,
+        primaryType: "PermitTransferFrom",
+        message: { ...permit, permitted: { ...permit.permitted } },
+      });
+
+      this.blockchain.report({
+        type: "permit_signed",
+        network,
+        kind: "permit2_transfer",
+        token: tokenAddress,
+        spender,
+        amount,
+      });
+      return { owner: from, permit, signature, network };
+    });
+  }
+
+  /**
+   * Whether a Permit2 unordered nonce has been used (or invalidated) by `owner`
+   */
+  async isPermit2NonceUsed(owner: Address, nonce: bigint, network: NetworkId): Promise<boolean> {
+    const bitmap = (await this.blockchain.readContract({
+      contractAddress: this.getPermit2Address(network),
+      abi: PERMIT2_ABI,
+      functionName: "nonceBitmap",
+      args: [owner, nonce >> 8n],
+      network,
+    })) as bigint;
+
+    return ((bitmap >> (nonce & 0xffn)) & 1n) === 1n;
+  }
+
+  /**
+   * EIP-712 domain Permit2 signatures are made against
+   */
+  getPermit2Domain(network: NetworkId): TypedDataDomain {
+    return {
+      name: "Permit2",
+      chainId: getNetwork(network).chainId,
+      verifyingContract: this.getPermit2Address(network),
+    };
+  }
+
+  /**
+   * Authorize a permit with the spending policy as an approval, then sign
+   * it; the spend is released if signing fails
+   */
+  private async withSpend<T>(
+    options: Pick<SignPermitOptions, "spender" | "tokenAddress" | "amount" | "network">,
+    sign: () => Promise<T>
+  ): Promise<T> {
+    const spend = await this.blockchain.authorizeSpend({
+      kind: "approval",
+      network: options.network,
+      token: options.tokenAddress,
+      amount: options.amount,
+      to: options.spender,
+    });
+
+    try {
+      return await sign();
+    } catch (error) {
+      if (spend) {
+        await this.blockchain.getSpendingPolicy()?.release(spend);
+      }
+      throw error;
+    }
+  }
+}
+
+// ============================================================================
+// CALLDATA
+// ============================================================================
+
+/**
+ * Calldata for `token.permit(owner, spender, value, deadline, v, r, s)`
+ */
+export function encodePermit(signed: SignedPermit): Hex {
+  const { owner, spender, value, deadline } = signed.permit;
+
+  return encodeFunctionData({
+    abi: EIP2612_ABI,
+    functionName: "permit",
+    args: [owner, spender, value, deadline, signed.v, signed.r, signed.s],
+  });
+}
+
+/**
+ * Calldata for `Permit2.permit(owner, permitSingle, signature)`
+ */
+export function encodePermitSingle(signed: SignedPermitSingle): Hex {
+  return encodeFunctionData({
+    abi: PERMIT2_ABI,
+    functionName: "permit",
+    args: [signed.owner, signed.permit, signed.signature],
+  });
+}
+
+/**
+ * Calldata for `Permit2.permitTransferFrom(permit, transferDetails, owner, signature)`,
+ * sent by the permit's spender
+ */
+export function encodePermitTransferFrom(
+  signed: SignedPermitTransferFrom,
+  to: Address,
+  amount: bigint = signed.permit.permitted.amount
+): Hex {
+  const { permitted, nonce, deadline } = signed.permit;
+
+  return encodeFunctionData({
+    abi: PERMIT2_ABI,
+    functionName: "permitTransferFrom",
+    args: [{ permitted, nonce, deadline }, { to, requestedAmount: amount }, signed.owner, signed.signature],
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function deadlineIn(seconds: number): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) + seconds);
+}
@@ -0,0 +1,431 @@
+/**
+ * Spending Policy Engine
+ *
+ * Declarative limits checked before anything is submitted:
+ * - Per-transaction caps, overall and per network
+ * - Rolling daily / weekly budgets per token, optionally per resource or network
+ * - Recipient and resource allowlists / denylists
+ * - Network allowlists / denylists
+ * - A ceiling on the fees paid for each bridge leg
+ *
+ * Tokens are named by canonical asset id ("USDC", covering every deployment
+ * and bridged variant), native currency symbol ("ETH", "POL") or address.
+ * Amounts are decimal strings in the token's units ("25.5").
+ *
+ * Denials carry the rule that fired and a readable reason. Spends are
+ * recorded in a `SpendLedger` when authorized, and released if the
+ * transaction is never sent.
+ */
+
+import { formatUnits, parseUnits, type Address } from "viem";
+import { BlockchainError } from "./errors.js";
+import { getKnownSpenders, type NetworkId } from "./networks.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * - `transfer`: value sent to a recipient (native send, ERC-20 `transfer` or
+ *   `transferFrom`, or a signed authorization or permit, to its spender)
+ * - `approval`: allowance granted on-chain (ERC-20 `approve` / `increaseAllowance`);
+ *   capped and recipient-checked, but not counted in budgets since the tokens
+ *   only move when the spender pulls them
+ * - `call`: any other transaction; only its native value counts as spend
+ * - `bridge_fee`: fee for one bridge leg (native fee or tokens kept by the bridge)
+ */
+export type SpendKind = "transfer" | "approval" | "call" | "bridge_fee";
+
+export interface SpendIntent {
+  kind: SpendKind;
+  network: NetworkId;
+  /** Token contract, or "native" for the network's native currency */
+  token: Address | "native";
+  /** Amount in the token's smallest unit */
+  amount: bigint;
+  /** Recipient (transfer), spender (approval) or contract called */
+  to: Address;
+  /** x402 resource the spend pays for */
+  resource?: string;
+  /**
+   * Idempotency key of the transaction; a repeat with the same key within
+   * CDP's 24-hour window returns the original transaction, so it isn't
+   * counted against budgets again
+   */
+  idempotencyKey?: string;
+}
+
+export interface Spend extends SpendIntent {
+  /** Canonical asset id or native currency symbol, if known */
+  asset?: string;
+  decimals: number;
+}
+
+export interface SpendRecord extends Spend {
+  id: string;
+  /** Unix time (milliseconds) the spend was authorized */
+  timestamp: number;
+}
+
+export interface TokenAmount {
+  /** Asset id ("USDC"), native currency symbol ("ETH") or token address */
+  token: string;
+  /** Decimal amount in the token's units */
+  amount: string;
+}
+
+export type BudgetPeriod = "daily" | "weekly";
+
+export interface Budget extends TokenAmount {
+  /** Rolling window: the last 24 hours or 7 days */
+  period: BudgetPeriod;
+  /** Only count spends for this resource (exact URL, or ending in `*` for a prefix) */
+  resource?: string;
+  /** Only count spends on this network */
+  network?: NetworkId;
+}
+
+export interface ListRule<T> {
+  /** If set, only these are allowed */
+  allow?: T[];
+  /** Always refused; takes precedence over `allow` */
+  deny?: T[];
+}
+
+export interface SpendingPolicyConfig {
+  /** Largest single transfer or call value per token */
+  maxPerTransaction?: TokenAmount[];
+  /** Rolling budgets */
+  budgets?: Budget[];
+  /**
+   * Transfer recipients and approval spenders; `allow` doesn't apply to
+   * approvals of the bridge and Permit2 contracts this library uses
+   * (see `getKnownSpenders`), only `deny` does
+   */
+  recipients?: ListRule<Address>;
+  /** x402 resources (exact URL, or ending in `*` for a prefix) */
+  resources?: ListRule<string>;
+  /** Networks transactions may be sent on, plus per-network transaction caps */
+  networks?: ListRule<NetworkId> & { limits?: Partial<Record<NetworkId, TokenAmount[]>> };
+  /** Largest fee per bridge leg, per fee currency (e.g. { token: "ETH", amount: "0.005" }) */
+  maxBridgeFee?: TokenAmount[];
+}
+
+export type PolicyRule =
+  | "network_denied"
+  | "recipient_denied"
+  | "resource_denied"
+  | "max_per_transaction"
+  | "network_limit"
+  | "budget_exceeded"
+  | "bridge_fee_exceeded";
+
+export interface PolicyDenial {
+  rule: PolicyRule;
+  reason: string;
+  spend: Spend;
+  /** The limit that was hit, if the rule has one */
+  limit?: TokenAmount | Budget;
+  /** Amount already spent in the budget window */
+  spent?: string;
+}
+
+export type PolicyDecision = { allowed: true } | { allowed: false; denial: PolicyDenial };
+
+/**
+ * Where authorized spends are kept for budget accounting
+ */
+export interface SpendLedger {
+  add(record: SpendRecord): void | Promise<void>;
+  remove(id: string): void | Promise<void>;
+  /** Records authorized at or after `since` (Unix milliseconds) */
+  list(since: number): SpendRecord[] | Promise<SpendRecord[]>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const BUDGET_PERIOD_MS: Record<BudgetPeriod, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** How long CDP answers a repeated idempotency key with the original transaction */
+const CDP_IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export class SpendingPolicyError extends BlockchainError {
+  constructor(public readonly denial: PolicyDenial) {
+    super(
+      "policy_denied",
+      `Spending policy denied ${denial.spend.kind} on ${denial.spend.network}: ${denial.reason}`,
+      { network: denial.spend.network }
+    );
+    this.name = "SpendingPolicyError";
+  }
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * In-memory ledger; budgets reset when the process restarts
+ */
+export class MemorySpendLedger implements SpendLedger {
+  private records: SpendRecord[] = [];
+
+  add(record: SpendRecord): void {
+    this.records.push(record);
+  }
+
+  remove(id: string): void {
+    this.records = this.records.filter((record) => record.id !== id);
+  }
+
+  list(since: number): SpendRecord[] {
+    // Nothing older than the longest window is ever needed
+    const horizon = Date.now() - BUDGET_PERIOD_MS.weekly;
+    this.records = this.records.filter((record) => record.timestamp >= horizon);
+    return this.records.filter((record) => record.timestamp >= since);
+  }
+}
+
+// ============================================================================
+// SPENDING POLICY
+// ============================================================================
+
+export class SpendingPolicy {
+  /** Serializes authorizations so concurrent spends can't both fit the same budget */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private config: SpendingPolicyConfig,
+    private ledger: SpendLedger = new MemorySpendLedger()
+  ) {}
+
+  /**
+   * Check a spend against every rule without recording it
+   *
+   * @example
+   * ```ts
+   * const decision = await policy.evaluate({
+   *   kind: "transfer",
+   *   network: "base",
+   *   token: usdcAddress,
+   *   asset: "USDC",
+   *   decimals: 6,
+   *   amount: parseUnits("20", 6),
+   *   to: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
+   * });
+   * if (!decision.allowed) console.log(decision.denial.rule, decision.denial.reason);
+   * ```
+   */
+  async evaluate(spend: Spend): Promise<PolicyDecision> {
+    const denial = this.checkStatic(spend) ?? (await this.checkBudgets(spend));
+    return denial ? { allowed: false, denial } : { allowed: true };
+  }
+
+  /**
+   * Check a spend and, if allowed, record it against the budgets
+   *
+   * Throws `SpendingPolicyError` if denied. Call `release` with the returned
+   * record if the transaction is never sent. If a spend with the same
+   * `idempotencyKey` was recorded within CDP's idempotency window, the repeat
+   * spends nothing new: only the rules that don't depend on spending history
+   * are checked, and undefined is returned without recording anything.
+   */
+  async authorize(spend: Spend): Promise<SpendRecord | undefined> {
+    const run = this.queue.then(async () => {
+      if (spend.idempotencyKey && (await this.isRecorded(spend.idempotencyKey))) {
+        const denial = this.checkStatic(spend);
+        if (denial) {
+          throw new SpendingPolicyError(denial);
+        }
+        return undefined;
+      }
+
+      const decision = await this.evaluate(spend);
+      if (!decision.allowed) {
+        throw new SpendingPolicyError(decision.denial);
+      }
+
+      const record: SpendRecord = { ...spend, id: crypto.randomUUID(), timestamp: Date.now() };
+      await this.ledger.add(record);
+      return record;
+    });
+
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Remove an authorized spend from the budgets (e.g. the send failed)
+   */
+  async release(record: SpendRecord): Promise<void> {
+    await this.ledger.remove(record.id);
+  }
+
+  /**
+   * Amount spent in a budget's current window, in the token's smallest unit
+   */
+  async getSpent(budget: Budget, now = Date.now()): Promise<bigint> {
+    const records = await this.ledger.list(now - BUDGET_PERIOD_MS[budget.period]);
+
+    return records
+      .filter((record) => countsInBudgets(record) && this.inBudget(budget, record))
+      .reduce((sum, record) => sum + record.amount, 0n);
+  }
+
+  getConfig(): SpendingPolicyConfig {
+    return this.config;
+  }
+
+  private async isRecorded(idempotencyKey: string): Promise<boolean> {
+    const records = await this.ledger.list(Date.now() - CDP_IDEMPOTENCY_WINDOW_MS);
+    return records.some((record) => record.idempotencyKey === idempotencyKey);
+  }
+
+  /**
+   * Rules that don't depend on spending history
+   */
+  private checkStatic(spend: Spend): PolicyDenial | undefined {
+    const { recipients, resources, networks, maxPerTransaction, maxBridgeFee } = this.config;
+    const deny = (rule: PolicyRule, reason: string, limit?: TokenAmount): PolicyDenial => ({
+      rule,
+      reason,
+      spend,
+      limit,
+    });
+
+    if (networks && !isListed(networks, spend.network, (a, b) => a === b)) {
+      return deny("network_denied", `Network ${spend.network} is not allowed`);
+    }
+
+    if (spend.resource && resources && !isListed(resources, spend.resource, matchesResource)) {
+      return deny("resource_denied", `Resource ${spend.resource} is not allowed`);
+    }
+
+    if (spend.kind === "bridge_fee") {
+      const limit = maxBridgeFee?.find((l) => matchesToken(l.token, spend));
+      return limit && exceeds(spend, limit)
+        ? deny("bridge_fee_exceeded", `Bridge fee ${describe(spend)} exceeds the ${limit.amount} ceiling`, limit)
+        : undefined;
+    }
+
+    // Revoking (approving zero) is always allowed, whoever the spender, and
+    // the bridges' own spenders are only subject to the denylist
+    const hasRecipient = spend.kind === "transfer" || (spend.kind === "approval" && spend.amount > 0n);
+    const rule =
+      spend.kind === "approval" && recipients && isKnownSpender(spend) ? { deny: recipients.deny } : recipients;
+    if (hasRecipient && rule && !isListed(rule, spend.to, sameAddress)) {
+      return deny(
+        "recipient_denied",
+        `${spend.kind === "approval" ? "Spender" : "Recipient"} ${spend.to} is not allowed`
+      );
+    }
+
+    const cap = maxPerTransaction?.find((l) => matchesToken(l.token, spend));
+    if (cap && exceeds(spend, cap)) {
+      return deny("max_per_transaction", `${describe(spend)} exceeds the ${cap.amount} per-transaction cap`, cap);
+    }
+
+    const networkCap = networks?.limits?.[spend.network]?.find((l) => matchesToken(l.token, spend));
+    if (networkCap && exceeds(spend, networkCap)) {
+      return deny(
+        "network_limit",
+        `${describe(spend)} exceeds the ${networkCap.amount} per-transaction cap on ${spend.network}`,
+        networkCap
+      );
+    }
+
+    return undefined;
+  }
+
+  private async checkBudgets(spend: Spend): Promise<PolicyDenial | undefined> {
+    if (!countsInBudgets(spend) || spend.amount === 0n) {
+      return undefined;
+    }
+
+    for (const budget of this.config.budgets ?? []) {
+      if (!this.inBudget(budget, spend)) {
+        continue;
+      }
+
+      const limit = parseUnits(budget.amount, spend.decimals);
+      const spent = await this.getSpent(budget);
+
+      if (spent + spend.amount > limit) {
+        const scope = [budget.resource && `for ${budget.resource}`, budget.network && `on ${budget.network}`]
+          .filter(Boolean)
+          .join(" ");
+
+        return {
+          rule: "budget_exceeded",
+          reason:
+            `${describe(spend)} would exceed the ${budget.period} ${budget.token} budget` +
+            `${scope ? ` ${scope}` : ""} (${formatUnits(spent, spend.decimals)} of ${budget.amount} spent)`,
+          spend,
+          limit: budget,
+          spent: formatUnits(spent, spend.decimals),
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  private inBudget(budget: Budget, spend: Spend): boolean {
+    return (
+      matchesToken(budget.token, spend) &&
+      (!budget.network || budget.network === spend.network) &&
+      (!budget.resource || (spend.resource !== undefined && matchesResource(budget.resource, spend.resource)))
+    );
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function countsInBudgets(spend: Spend): boolean {
+  return spend.kind !== "bridge_fee" && spend.kind !== "approval";
+}
+
+function matchesToken(selector: string, spend: Spend): boolean {
+  return (
+    selector === spend.asset ||
+    (spend.token !== "native" && selector.toLowerCase() === spend.token.toLowerCase())
+  );
+}
+
+function matchesResource(pattern: string, resource: string): boolean {
+  return pattern.endsWith("*") ? resource.startsWith(pattern.slice(0, -1)) : resource === pattern;
+}
+
+function isKnownSpender(spend: Spend): boolean {
+  return getKnownSpenders(spend.network).some((known) => sameAddress(known.address, spend.to));
+}
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function isListed<T>(rule: ListRule<T>, value: T, matches: (pattern: T, value: T) => boolean): boolean {
+  if (rule.deny?.some((pattern) => matches(pattern, value))) {
+    return false;
+  }
+  return !rule.allow || rule.allow.some((pattern) => matches(pattern, value));
+}
+
+function exceeds(spend: Spend, limit: TokenAmount): boolean {
+  return spend.amount > parseUnits(limit.amount, spend.decimals);
+}
+
+function describe(spend: Spend): string {
+  return `${formatUnits(spend.amount, spend.decimals)} ${spend.asset ?? spend.token}`;
+}
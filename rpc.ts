@@ -0,0 +1,107 @@
+/**
+ * RPC Read Provider
+ *
+ * The CDP API signs and submits transactions but has no read path, so every
+ * view call (balances, allowances, ENS lookups, ...) goes through a viem
+ * public client for the target network.
+ *
+ * Each network gets its own client, built from (in order of precedence):
+ * 1. An injected viem transport (e.g. a fake transport or custom HTTP setup)
+ * 2. A configured RPC URL (e.g. an Alchemy/Infura endpoint or a local node)
+ * 3. The network registry's default RPC URL
+ */
+
+import { createPublicClient, http } from "viem";
+import type { Abi, BlockTag, PublicClient, ReadContractParameters, Transport } from "viem";
+import { getNetwork, getNetworkChain, type NetworkId } from "./networks.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RpcConfig {
+  /** RPC URL per network (e.g. { base: "https://base-mainnet.g.alchemy.com/v2/KEY" }) */
+  rpcUrls?: Partial<Record<string, string>>;
+  /** viem transport per network; takes precedence over rpcUrls */
+  transports?: Partial<Record<string, Transport>>;
+}
+
+export interface ReadCallOptions {
+  /** Contract address */
+  address: `0x${string}`;
+  /** ABI used to encode the call and decode the result */
+  abi: Abi | readonly unknown[];
+  /** Function name */
+  functionName: string;
+  /** Function arguments */
+  args?: readonly unknown[];
+  /** Block tag to read at (default: "latest") */
+  blockTag?: BlockTag;
+  /** Block number to read at; takes precedence over blockTag */
+  blockNumber?: bigint;
+}
+
+// ============================================================================
+// RPC PROVIDER
+// ============================================================================
+
+export class RpcProvider {
+  private clients = new Map<string, PublicClient>();
+
+  constructor(private config: RpcConfig = {}) {}
+
+  /**
+   * Get (or lazily create) the public client for a network
+   *
+   * @example
+   * ```ts
+   * const provider = new RpcProvider({
+   *   rpcUrls: { "base-sepolia": "http://127.0.0.1:8545" },
+   * });
+   * const blockNumber = await provider.getPublicClient("base-sepolia").getBlockNumber();
+   * ```
+   */
+  getPublicClient(network: NetworkId): PublicClient {
+    const cached = this.clients.get(network);
+    if (cached) {
+      return cached;
+    }
+
+    const chain = getNetworkChain(network);
+    const transport =
+      this.config.transports?.[network] ??
+      http(this.config.rpcUrls?.[network] ?? getNetwork(network).rpcUrl);
+
+    const client = createPublicClient({ chain, transport }) as PublicClient;
+    this.clients.set(network, client);
+    return client;
+  }
+
+  /**
+   * Perform an `eth_call` against a view/pure function and decode the result
+   */
+  async readContract(network: NetworkId, options: ReadCallOptions): Promise<unknown> {
+    const { address, abi, functionName, args = [], blockTag, blockNumber } = options;
+
+    const client = this.getPublicClient(network);
+
+    // The ABI is only known at runtime, so the call is typed against the generic
+    // Abi rather than a narrowed function signature.
+    const parameters: ReadContractParameters<Abi, string, readonly unknown[]> = {
+      address,
+      abi: abi as Abi,
+      functionName,
+      args,
+      ...(blockNumber !== undefined ? { blockNumber } : { blockTag }),
+    };
+
+    return client.readContract(parameters);
+  }
+
+  /**
+   * Drop cached clients (e.g. after changing RPC configuration)
+   */
+  reset(): void {
+    this.clients.clear();
+  }
+}
@@ -0,0 +1,334 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Address, Hex } from "viem";
+import type { BlockchainOperations, SendTransactionOptions, TransferERC20Options } from "../blockchain.js";
+import { CrossChainResourceExecution, type BridgeRoute, type X402PaymentRequest } from "../cre-x402.js";
+import { AllowanceTooLowError, InsufficientFundsError, ReceiptTimeoutError } from "../errors.js";
+import { silentLogger } from "../events.js";
+import { getNetwork } from "../networks.js";
+import { createPaymentRecord, MemoryPaymentStore, type PaymentRecord, type PaymentStore } from "../payment-store.js";
+
+const WALLET: Address = "0x1111111111111111111111111111111111111111";
+const PAYEE: Address = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+const BASE_USDC = getNetwork("base").tokens.USDC!;
+const ARBITRUM_USDC = getNetwork("arbitrum").tokens.USDC!;
+
+const REQUEST: X402PaymentRequest = {
+  maxAmountRequired: "5",
+  resource: "https://api.example.com/data",
+  payTo: PAYEE,
+  asset: BASE_USDC,
+  network: "base",
+};
+
+class ProcessExit extends Error {}
+
+/**
+ * Stands in for CDP and the chains: sends are deduplicated by idempotency
+ * key, and gas estimation reverts when the sender can't cover the transfer
+ */
+class FakeChain {
+  balances = new Map<string, bigint>();
+  sends: { idempotencyKey?: string; gas?: bigint }[] = [];
+  /** Hash CDP returned per idempotency key */
+  sent = new Map<string, Hex>();
+  /** The process exits right after the next send reaches CDP */
+  exitAfterSend = false;
+  dropNextReceipt = false;
+  failDecimals = false;
+
+  balance(network: string, token: Address): bigint {
+    return this.balances.get(`${network}:${token.toLowerCase()}`) ?? 0n;
+  }
+
+  debit(network: string, token: Address, amount: bigint): void {
+    this.balances.set(`${network}:${token.toLowerCase()}`, this.balance(network, token) - amount);
+  }
+
+  async send(
+    options: { idempotencyKey?: string; gas?: bigint; onSubmit?: () => void | Promise<void> },
+    estimate: () => void,
+    execute: () => void
+  ): Promise<Hex> {
+    this.sends.push({ idempotencyKey: options.idempotencyKey, gas: options.gas });
+
+    if (options.gas === undefined) {
+      estimate();
+    }
+    await options.onSubmit?.();
+
+    const key = options.idempotencyKey ?? crypto.randomUUID();
+    let hash = this.sent.get(key);
+    if (!hash) {
+      execute();
+      hash = `0x${(this.sent.size + 1).toString(16).padStart(64, "0")}`;
+      this.sent.set(key, hash);
+    }
+
+    if (this.exitAfterSend) {
+      this.exitAfterSend = false;
+      throw new ProcessExit("process exited before the hash was saved");
+    }
+    return hash;
+  }
+
+  blockchain(): BlockchainOperations {
+    const fake = {
+      getLogger: () => silentLogger,
+      report: () => {},
+      resolveAddress: async (address: Address) => address,
+      checkSpend: async () => ({ allowed: true }),
+      getTokenInfo: async () => {
+        if (this.failDecimals) {
+          throw new Error("RPC unavailable");
+        }
+        return { decimals: 6 };
+      },
+      getERC20Balance: async (token: Address, _owner: Address, network: string) => this.balance(network, token),
+      transferERC20: async (options: TransferERC20Options) => {
+        const transactionHash = await this.send(
+          options,
+          () => {
+            if (this.balance(options.network, options.tokenAddress) < options.amount) {
+              throw new InsufficientFundsError("ERC20: transfer amount exceeds balance");
+            }
+          },
+          () => this.debit(options.network, options.tokenAddress, options.amount)
+        );
+        return { transactionHash, to: options.to };
+      },
+      waitForReceipt: async ({ transactionHash }: { transactionHash: Hex }) => {
+        if (this.dropNextReceipt) {
+          this.dropNextReceipt = false;
+          throw new ReceiptTimeoutError("Transaction dropped", { transactionHash, dropped: true });
+        }
+        return { transactionHash, status: "success", logs: [] };
+      },
+      // LayerZero bridge
+      readContract: async ({ functionName, args }: { functionName: string; args?: readonly unknown[] }) => {
+        const sendParam = args?.[0] as { amountLD: bigint } | undefined;
+        switch (functionName) {
+          case "quoteOFT":
+            return [{}, [], { amountSentLD: sendParam!.amountLD, amountReceivedLD: sendParam!.amountLD }];
+          case "quoteSend":
+            return { nativeFee: 1000n, lzTokenFee: 0n };
+          case "approvalRequired":
+            return false;
+        }
+        throw new Error(`Unexpected read: ${functionName}`);
+      },
+      sendTransaction: async (options: SendTransactionOptions) => {
+        const amount = 3_000_000n;
+        const transactionHash = await this.send(
+          { ...options, gas: options.transaction.gas },
+          () => {
+            if (this.balance(options.network, ARBITRUM_USDC) < amount) {
+              throw new AllowanceTooLowError("ERC20: insufficient allowance");
+            }
+          },
+          () => {
+            this.debit(options.network, ARBITRUM_USDC, amount);
+            this.debit("base", BASE_USDC, -amount);
+          }
+        );
+        return { transactionHash };
+      },
+      confirmTransaction: async ({ transactionHash }: { transactionHash: Hex }) => ({ transactionHash, logs: [] }),
+    };
+
+    return fake as unknown as BlockchainOperations;
+  }
+}
+
+/** Stops saving once the process has "exited", like a store behind a killed process */
+class ExitingStore extends MemoryPaymentStore {
+  exited = false;
+
+  async save(record: PaymentRecord): Promise<void> {
+    if (!this.exited) {
+      await super.save(record);
+    }
+  }
+}
+
+function createCre(chain: FakeChain, paymentStore: PaymentStore): CrossChainResourceExecution {
+  return new CrossChainResourceExecution(
+    {} as ConstructorParameters<typeof CrossChainResourceExecution>[0],
+    {
+      walletAddress: WALLET,
+      paymentStore,
+      supportedChains: ["base", "arbitrum"],
+      pollInterval: 1,
+      maxBridgeWaitTime: 1,
+    },
+    chain.blockchain()
+  );
+}
+
+/** Run the CRE until the fake process exits, then return what was saved */
+async function runUntilExit(
+  chain: FakeChain,
+  store: ExitingStore,
+  run: (cre: CrossChainResourceExecution) => Promise<unknown>
+): Promise<void> {
+  const cre = createCre(chain, store);
+  const original = chain.send.bind(chain);
+  chain.send = async (...args) => {
+    try {
+      return await original(...args);
+    } catch (error) {
+      if (error instanceof ProcessExit) {
+        store.exited = true;
+      }
+      throw error;
+    }
+  };
+
+  await run(cre);
+  chain.send = original;
+  store.exited = false;
+}
+
+describe("CrossChainResourceExecution", () => {
+  it("pays from the target chain: requested → paying → paid", async () => {
+    const chain = new FakeChain();
+    chain.balances.set(`base:${BASE_USDC.toLowerCase()}`, 10_000_000n);
+    const store = new MemoryPaymentStore();
+
+    const result = await createCre(chain, store).executePayment(REQUEST);
+
+    assert.equal(result.success, true);
+    assert.equal(result.status, "paid");
+    assert.equal(chain.balance("base", BASE_USDC), 5_000_000n);
+    const [record] = await store.list();
+    assert.equal(record!.status, "paid");
+    assert.equal(record!.requiredAmount, 5_000_000n);
+  });
+
+  it("fails a payment no chain can fund", async () => {
+    const chain = new FakeChain();
+    const result = await createCre(chain, new MemoryPaymentStore()).executePayment(REQUEST);
+
+    assert.equal(result.success, false);
+    assert.equal(result.status, "failed");
+    assert.equal(result.failure?.code, "insufficient_funds");
+    assert.equal(chain.sends.length, 0);
+  });
+
+  it("returns the original payment for a repeated request", async () => {
+    const chain = new FakeChain();
+    chain.balances.set(`base:${BASE_USDC.toLowerCase()}`, 10_000_000n);
+    const cre = createCre(chain, new MemoryPaymentStore());
+
+    const first = await cre.executePayment(REQUEST);
+    const second = await cre.executePayment(REQUEST);
+
+    assert.equal(second.duplicate, true);
+    assert.equal(second.transactionHash, first.transactionHash);
+    assert.equal(chain.sends.length, 1);
+  });
+
+  it("doesn't guess decimals it can't read", async () => {
+    const chain = new FakeChain();
+    chain.failDecimals = true;
+
+    const result = await createCre(chain, new MemoryPaymentStore()).executePayment(REQUEST);
+
+    assert.equal(result.success, false);
+    assert.equal(result.failure?.code, "transport");
+    assert.equal(result.failure?.retryable, true);
+    assert.equal(chain.sends.length, 0);
+  });
+
+  it("resumes a payment whose transfer went out before its hash was saved", async () => {
+    const chain = new FakeChain();
+    chain.balances.set(`base:${BASE_USDC.toLowerCase()}`, 5_000_000n);
+    const store = new ExitingStore();
+
+    chain.exitAfterSend = true;
+    await runUntilExit(chain, store, (cre) => cre.executePayment(REQUEST));
+
+    const [saved] = await store.list();
+    assert.equal(saved!.status, "paying");
+    assert.equal(saved!.submitting, true);
+    assert.equal(saved!.transactionHash, undefined);
+
+    // The balance is spent, so estimating gas again would revert
+    const [result] = await createCre(chain, store).resumePending();
+
+    assert.equal(result!.success, true);
+    assert.equal(result!.transactionHash, chain.sent.values().next().value);
+    assert.equal(chain.sent.size, 1);
+    assert.equal(chain.sends[1]!.idempotencyKey, chain.sends[0]!.idempotencyKey);
+    assert.notEqual(chain.sends[1]!.gas, undefined);
+  });
+
+  it("resends a dropped payment under a new key", async () => {
+    const chain = new FakeChain();
+    chain.balances.set(`base:${BASE_USDC.toLowerCase()}`, 10_000_000n);
+    const store = new MemoryPaymentStore();
+    const cre = createCre(chain, store);
+
+    chain.dropNextReceipt = true;
+    const dropped = await cre.executePayment(REQUEST);
+
+    assert.equal(dropped.success, false);
+    assert.equal(dropped.status, "paying");
+    const [saved] = await store.list();
+    assert.equal(saved!.transactionHash, undefined);
+    assert.equal(saved!.payAttempt, 1);
+
+    const [resumed] = await cre.resumePending();
+
+    assert.equal(resumed!.success, true);
+    assert.equal(chain.sends.length, 2);
+    assert.notEqual(chain.sends[1]!.idempotencyKey, chain.sends[0]!.idempotencyKey);
+    assert.equal(chain.sends[1]!.gas, undefined);
+  });
+
+  it("resumes a bridge leg whose send went out before its result was saved", async () => {
+    const chain = new FakeChain();
+    chain.balances.set(`arbitrum:${ARBITRUM_USDC.toLowerCase()}`, 3_000_000n);
+    chain.balances.set(`base:${BASE_USDC.toLowerCase()}`, 2_000_000n);
+    const store = new ExitingStore();
+
+    const route: BridgeRoute = {
+      fromChain: "arbitrum",
+      toChain: "base",
+      tokenAddress: ARBITRUM_USDC,
+      amount: 3_000_000n,
+      amountReceived: 3_000_000n,
+      estimatedTime: 60,
+      estimatedFee: 1000n,
+      estimatedGasCost: 0n,
+      bridgeProtocol: "layerzero",
+      score: 0,
+    };
+    const payment: PaymentRecord = {
+      ...createPaymentRecord(REQUEST, "bridged-payment"),
+      status: "bridging",
+      payTo: PAYEE,
+      requiredAmount: 5_000_000n,
+      legs: [{ route }],
+    };
+    await store.save(payment);
+
+    chain.exitAfterSend = true;
+    await runUntilExit(chain, store, (cre) => cre.resumePending());
+
+    const [saved] = await store.list();
+    assert.equal(saved!.status, "bridging");
+    assert.equal(saved!.legs![0]!.submitting, true);
+    assert.equal(saved!.legs![0]!.result, undefined);
+
+    // The leg already pulled the tokens, so estimating its send again would revert
+    const [result] = await createCre(chain, store).resumePending();
+
+    assert.equal(result!.success, true, result!.error);
+    assert.equal(result!.status, "paid");
+    assert.equal(chain.balance("arbitrum", ARBITRUM_USDC), 0n);
+    assert.equal(chain.sends[1]!.idempotencyKey, chain.sends[0]!.idempotencyKey);
+    assert.notEqual(chain.sends[1]!.gas, undefined);
+    assert.equal((await store.list())[0]!.legs![0]!.submitting, undefined);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  encodeErrorResult,
+  HttpRequestError,
+  InsufficientFundsError as ViemInsufficientFundsError,
+  NonceTooLowError,
+  RawContractError,
+  RpcRequestError,
+  type Address,
+} from "viem";
+import { COMMON_ERRORS_ABI } from "../abis.js";
+import {
+  AllowanceTooLowError,
+  BlockchainError,
+  decodeRevert,
+  fromRevert,
+  InsufficientFundsError,
+  isRetryable,
+  toBlockchainError,
+  TransactionRevertedError,
+  TransportError,
+} from "../errors.js";
+
+const SPENDER: Address = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+
+const ERROR_STRING_ABI = [{ type: "error", name: "Error", inputs: [{ name: "message", type: "string" }] }] as const;
+
+function cdpApiError(statusCode: number, errorType: string, errorMessage: string): Error {
+  return Object.assign(new Error(errorMessage), { statusCode, errorType, errorMessage });
+}
+
+describe("decodeRevert", () => {
+  it("decodes Error(string)", () => {
+    const data = encodeErrorResult({
+      abi: ERROR_STRING_ABI,
+      errorName: "Error",
+      args: ["ERC20: transfer amount exceeds balance"],
+    });
+
+    assert.deepEqual(decodeRevert(data), {
+      reason: "ERC20: transfer amount exceeds balance",
+      data,
+      errorName: "Error",
+      args: ["ERC20: transfer amount exceeds balance"],
+    });
+  });
+
+  it("decodes panics with their description", () => {
+    const revert = decodeRevert("0x4e487b710000000000000000000000000000000000000000000000000000000000000011");
+
+    assert.equal(revert.reason, "panic 0x11: arithmetic overflow or underflow");
+    assert.equal(revert.panicCode, 0x11);
+  });
+
+  it("decodes known custom errors", () => {
+    const data = encodeErrorResult({
+      abi: COMMON_ERRORS_ABI,
+      errorName: "ERC20InsufficientAllowance",
+      args: [SPENDER, 1n, 5n],
+    });
+    const revert = decodeRevert(data);
+
+    assert.equal(revert.errorName, "ERC20InsufficientAllowance");
+    assert.equal(revert.reason, `ERC20InsufficientAllowance(${SPENDER}, 1, 5)`);
+  });
+
+  it("falls back to the selector or a bare revert", () => {
+    assert.equal(decodeRevert("0xdeadbeef00").reason, "custom error 0xdeadbeef");
+    assert.equal(decodeRevert().reason, "execution reverted");
+  });
+});
+
+describe("fromRevert", () => {
+  it("maps balance and allowance reverts to their own classes", () => {
+    const balance = fromRevert({ reason: "ERC20: transfer amount exceeds balance", data: "0x" });
+    assert.ok(balance instanceof InsufficientFundsError);
+    assert.ok(balance.cause instanceof TransactionRevertedError);
+
+    const allowance = fromRevert({
+      reason: "ERC20InsufficientAllowance",
+      data: "0x",
+      errorName: "ERC20InsufficientAllowance",
+      args: [SPENDER, 1n, 5n],
+    });
+    assert.ok(allowance instanceof AllowanceTooLowError);
+    assert.deepEqual(allowance.details, { spender: SPENDER, allowance: 1n, required: 5n });
+  });
+
+  it("keeps other reverts as TransactionRevertedError", () => {
+    const error = fromRevert({ reason: "NoPeer(30110)", data: "0x", errorName: "NoPeer" }, { transactionHash: "0x01" });
+
+    assert.ok(error instanceof TransactionRevertedError);
+    assert.equal(error.code, "transaction_reverted");
+    assert.equal(error.retryable, false);
+  });
+});
+
+describe("toBlockchainError", () => {
+  it("returns library errors as they are", () => {
+    const error = new BlockchainError("route_unavailable", "No route");
+    assert.equal(toBlockchainError(error), error);
+  });
+
+  it("classifies CDP API errors", () => {
+    assert.ok(toBlockchainError(cdpApiError(400, "insufficient_balance", "Short")) instanceof InsufficientFundsError);
+    assert.ok(toBlockchainError(cdpApiError(400, "insufficient_allowance", "Approve")) instanceof AllowanceTooLowError);
+
+    const conflict = toBlockchainError(cdpApiError(400, "invalid_request", "nonce too low"));
+    assert.equal(conflict.code, "nonce_conflict");
+    assert.equal(conflict.retryable, true);
+
+    const unavailable = toBlockchainError(cdpApiError(503, "service_unavailable", "Try later"));
+    assert.ok(unavailable instanceof TransportError);
+    assert.equal(unavailable.retryable, true);
+
+    assert.equal(isRetryable(cdpApiError(429, "rate_limit_exceeded", "Slow down")), true);
+    assert.equal(isRetryable(cdpApiError(400, "invalid_request", "Bad address")), false);
+  });
+
+  it("classifies viem errors", () => {
+    assert.ok(toBlockchainError(new ViemInsufficientFundsError()) instanceof InsufficientFundsError);
+    assert.equal(toBlockchainError(new NonceTooLowError()).code, "nonce_conflict");
+
+    const data = encodeErrorResult({
+      abi: COMMON_ERRORS_ABI,
+      errorName: "ERC20InsufficientBalance",
+      args: [SPENDER, 1n, 5n],
+    });
+    const balance = toBlockchainError(new RawContractError({ data }), { network: "base" });
+    assert.ok(balance instanceof InsufficientFundsError);
+    assert.deepEqual(balance.details, { available: 1n, required: 5n });
+    assert.equal(balance.network, "base");
+  });
+
+  it("retries transport failures but not JSON-RPC answers or client errors", () => {
+    assert.equal(isRetryable(new HttpRequestError({ url: "https://rpc.example", status: 502 })), true);
+    assert.equal(isRetryable(new HttpRequestError({ url: "https://rpc.example", status: 401 })), false);
+
+    const rpc = new RpcRequestError({
+      body: {},
+      error: { code: -32602, message: "invalid params" },
+      url: "https://rpc.example",
+    });
+    assert.equal(toBlockchainError(rpc).code, "transport");
+    assert.equal(isRetryable(rpc), false);
+  });
+
+  it("wraps anything else as unknown", () => {
+    const error = toBlockchainError("boom");
+
+    assert.equal(error.code, "unknown");
+    assert.equal(error.message, "boom");
+  });
+});
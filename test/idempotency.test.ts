@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { deriveIdempotencyKey, toIdempotencyKey } from "../idempotency.js";
+
+const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe("deriveIdempotencyKey", () => {
+  it("returns the same UUID v4 for the same parts", () => {
+    const key = deriveIdempotencyKey("payment-1", "leg", 0, 10n);
+
+    assert.match(key, UUID_V4);
+    assert.equal(deriveIdempotencyKey("payment-1", "leg", 0, 10n), key);
+  });
+
+  it("gives different keys for different parts or order", () => {
+    const key = deriveIdempotencyKey("payment-1", "leg", 0);
+
+    assert.notEqual(deriveIdempotencyKey("payment-1", "leg", 1), key);
+    assert.notEqual(deriveIdempotencyKey("payment-1", 0, "leg"), key);
+    assert.notEqual(deriveIdempotencyKey(key, "approve"), deriveIdempotencyKey(key, "send"));
+  });
+
+  it("ignores the case of hex strings", () => {
+    assert.equal(
+      deriveIdempotencyKey("0x742d35Cc6634C0532925a3b844Bc454e4438f44e"),
+      deriveIdempotencyKey("0x742d35cc6634c0532925a3b844bc454e4438f44e")
+    );
+  });
+
+  it("hashes bigints as decimal strings", () => {
+    assert.equal(deriveIdempotencyKey(10n), deriveIdempotencyKey("10"));
+    assert.notEqual(deriveIdempotencyKey(10n), deriveIdempotencyKey(10));
+  });
+});
+
+describe("toIdempotencyKey", () => {
+  it("keeps a UUID v4 as-is", () => {
+    const key = crypto.randomUUID();
+    assert.equal(toIdempotencyKey(key), key);
+  });
+
+  it("maps other strings to a stable UUID v4", () => {
+    assert.match(toIdempotencyKey("order-1234"), UUID_V4);
+    assert.equal(toIdempotencyKey("order-1234"), toIdempotencyKey("order-1234"));
+    assert.notEqual(toIdempotencyKey("order-1234"), toIdempotencyKey("order-1235"));
+  });
+});
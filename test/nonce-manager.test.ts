@@ -0,0 +1,131 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Address } from "viem";
+import { NonceManager } from "../nonce-manager.js";
+
+const ALICE: Address = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+const BOB: Address = "0x1234567890123456789012345678901234567890";
+
+const pending = (count: number) => async () => count;
+
+describe("NonceManager", () => {
+  it("hands out consecutive nonces ahead of the chain's pending count", async () => {
+    const nonces = new NonceManager();
+
+    const first = await nonces.acquire(ALICE, "base", pending(5));
+    first.commit();
+    const second = await nonces.acquire(ALICE, "base", pending(5));
+    second.commit();
+
+    assert.deepEqual([first.nonce, second.nonce], [5, 6]);
+  });
+
+  it("follows the chain when it is ahead of the local count", async () => {
+    const nonces = new NonceManager();
+
+    (await nonces.acquire(ALICE, "base", pending(5))).commit();
+    const lease = await nonces.acquire(ALICE, "base", pending(9));
+
+    assert.equal(lease.nonce, 9);
+  });
+
+  it("makes a second send from the account wait for the first lease to end", async () => {
+    const nonces = new NonceManager();
+    const first = await nonces.acquire(ALICE, "base", pending(0));
+
+    let acquired = false;
+    const second = nonces.acquire(ALICE, "base", pending(0)).then((lease) => {
+      acquired = true;
+      return lease;
+    });
+
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(acquired, false);
+
+    first.commit();
+    assert.equal((await second).nonce, 1);
+  });
+
+  it("doesn't hold up other accounts or networks", async () => {
+    const nonces = new NonceManager();
+    await nonces.acquire(ALICE, "base", pending(3));
+
+    assert.equal((await nonces.acquire(BOB, "base", pending(7))).nonce, 7);
+    assert.equal((await nonces.acquire(ALICE, "arbitrum", pending(2))).nonce, 2);
+  });
+
+  it("hands a released nonce out again", async () => {
+    const nonces = new NonceManager();
+
+    (await nonces.acquire(ALICE, "base", pending(4))).commit();
+    (await nonces.acquire(ALICE, "base", pending(4))).release();
+
+    assert.equal((await nonces.acquire(ALICE, "base", pending(4))).nonce, 5);
+  });
+
+  it("reads the chain again after a resync", async () => {
+    const nonces = new NonceManager();
+
+    (await nonces.acquire(ALICE, "base", pending(4))).commit();
+    (await nonces.acquire(ALICE, "base", pending(4))).release({ resync: true });
+
+    assert.equal((await nonces.acquire(ALICE, "base", pending(4))).nonce, 4);
+  });
+
+  it("keeps the leased nonce free when an earlier transaction was returned", async () => {
+    const nonces = new NonceManager();
+
+    (await nonces.acquire(ALICE, "base", pending(0))).commit();
+    (await nonces.acquire(ALICE, "base", pending(0))).commit(0);
+
+    assert.equal((await nonces.acquire(ALICE, "base", pending(0))).nonce, 1);
+  });
+
+  it("ignores a second commit or release of the same lease", async () => {
+    const nonces = new NonceManager();
+
+    const lease = await nonces.acquire(ALICE, "base", pending(0));
+    lease.commit();
+    lease.release({ resync: true });
+
+    assert.equal((await nonces.acquire(ALICE, "base", pending(0))).nonce, 1);
+  });
+
+  it("unlocks the account when the pending nonce can't be read", async () => {
+    const nonces = new NonceManager();
+
+    await assert.rejects(
+      nonces.acquire(ALICE, "base", async () => {
+        throw new Error("RPC down");
+      }),
+      /RPC down/
+    );
+    assert.equal((await nonces.acquire(ALICE, "base", pending(2))).nonce, 2);
+  });
+
+  it("counts nonces used outside a lease", async () => {
+    const nonces = new NonceManager();
+
+    (await nonces.acquire(ALICE, "base", pending(0))).commit();
+    nonces.observe(ALICE, "base", 3);
+
+    assert.equal((await nonces.acquire(ALICE, "base", pending(0))).nonce, 4);
+  });
+
+  it("resets one account or a whole network", async () => {
+    const nonces = new NonceManager();
+
+    for (const address of [ALICE, BOB]) {
+      (await nonces.acquire(address, "base", pending(0))).commit();
+    }
+
+    nonces.reset("base", ALICE);
+    assert.equal((await nonces.acquire(ALICE, "base", pending(0))).nonce, 0);
+    const bob = await nonces.acquire(BOB, "base", pending(0));
+    assert.equal(bob.nonce, 1);
+    bob.commit();
+
+    nonces.reset("base");
+    assert.equal((await nonces.acquire(BOB, "base", pending(0))).nonce, 0);
+  });
+});
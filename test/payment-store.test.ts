@@ -0,0 +1,126 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createPaymentRecord,
+  deserializePaymentRecord,
+  JsonFilePaymentStore,
+  MemoryPaymentStore,
+  serializePaymentRecord,
+  SqlitePaymentStore,
+  type PaymentRecord,
+  type PaymentStore,
+  type SqliteDatabase,
+} from "../payment-store.js";
+import type { X402PaymentRequest } from "../cre-x402.js";
+
+const REQUEST: X402PaymentRequest = {
+  maxAmountRequired: "5",
+  resource: "https://api.example.com/data",
+  payTo: "api-provider.eth",
+  asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  network: "base",
+};
+
+// node:sqlite ships with Node 22.5+; elsewhere the SQLite adapter's suite is skipped
+const sqliteModule = "node:sqlite";
+const sqlite = (await import(sqliteModule).catch(() => undefined)) as
+  | { DatabaseSync: new (path: string) => SqliteDatabase }
+  | undefined;
+
+const directory = mkdtempSync(join(tmpdir(), "payment-store-"));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+function record(key: string, overrides: Partial<PaymentRecord> = {}): PaymentRecord {
+  return { ...createPaymentRecord(REQUEST, key), ...overrides };
+}
+
+describe("payment records", () => {
+  it("round-trip bigints through JSON", () => {
+    const original = record("key", {
+      requiredAmount: 5_000_000n,
+      legs: [
+        {
+          route: {
+            fromChain: "arbitrum",
+            toChain: "base",
+            tokenAddress: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+            amount: 3_000_000n,
+            amountReceived: 2_990_000n,
+            estimatedTime: 60,
+            estimatedFee: 10n ** 15n,
+            estimatedGasCost: 0n,
+            bridgeProtocol: "layerzero",
+            score: 0,
+          },
+          attempt: 1,
+        },
+      ],
+    });
+
+    assert.deepEqual(deserializePaymentRecord(serializePaymentRecord(original)), original);
+  });
+
+  it("start in the requested state", () => {
+    const created = record("key");
+
+    assert.equal(created.status, "requested");
+    assert.equal(created.idempotencyKey, "key");
+    assert.notEqual(created.id, record("key").id);
+  });
+});
+
+const adapters: [string, () => PaymentStore, boolean?][] = [
+  ["MemoryPaymentStore", () => new MemoryPaymentStore()],
+  ["JsonFilePaymentStore", () => new JsonFilePaymentStore(join(directory, `${crypto.randomUUID()}.json`))],
+  ["SqlitePaymentStore", () => new SqlitePaymentStore(new sqlite!.DatabaseSync(":memory:")), !sqlite],
+];
+
+for (const [name, createStore, skip] of adapters) {
+  describe(name, { skip }, () => {
+    it("saves, updates and reads back records", async () => {
+      const store = createStore();
+      const payment = record("key", { requiredAmount: 5_000_000n });
+
+      await store.save(payment);
+      await store.save({ ...payment, status: "paying", submitting: true });
+
+      assert.deepEqual(await store.get(payment.id), { ...payment, status: "paying", submitting: true });
+      assert.equal(await store.get("missing"), undefined);
+    });
+
+    it("finds the most recent record for an idempotency key", async () => {
+      const store = createStore();
+      const older = record("key", { status: "failed", createdAt: 1 });
+      const newer = record("key", { createdAt: 2 });
+
+      await store.save(newer);
+      await store.save(older);
+      await store.save(record("other"));
+
+      assert.equal((await store.findByIdempotencyKey("key"))?.id, newer.id);
+      assert.equal(await store.findByIdempotencyKey("unknown"), undefined);
+    });
+
+    it("lists records by status", async () => {
+      const store = createStore();
+      await store.save(record("a", { status: "bridging" }));
+      await store.save(record("b", { status: "paid" }));
+      await store.save(record("c", { status: "paying" }));
+
+      const pending = await store.list(["bridging", "paying"]);
+      assert.deepEqual(pending.map((payment) => payment.idempotencyKey).sort(), ["a", "c"]);
+      assert.equal((await store.list()).length, 3);
+      assert.deepEqual(await store.list([]), []);
+    });
+
+    it("keeps every concurrent save", async () => {
+      const store = createStore();
+      await Promise.all(["a", "b", "c", "d"].map((key) => store.save(record(key))));
+
+      assert.equal((await store.list()).length, 4);
+    });
+  });
+}
@@ -0,0 +1,125 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseEther, type Address, type Hex } from "viem";
+import type { BlockchainOperations, SendTransactionOptions } from "../blockchain.js";
+import { TransactionRevertedError } from "../errors.js";
+import { BatchPayouts, parsePayoutCsv, parsePayoutJson, type PayoutRow } from "../payouts.js";
+
+const FROM: Address = "0x1111111111111111111111111111111111111111";
+const ALICE: Address = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+
+/** Just enough of BlockchainOperations for native payouts */
+function fakeBlockchain(options: { failConfirmation?: (hash: Hex) => boolean } = {}) {
+  const sent: SendTransactionOptions[] = [];
+
+  const blockchain = {
+    getPublicClient: () => ({ getBalance: async () => parseEther("100") }),
+    resolveAddress: async (nameOrAddress: Address) => nameOrAddress,
+    sendTransaction: async (send: SendTransactionOptions) => {
+      sent.push(send);
+      return { transactionHash: `0x${sent.length.toString(16).padStart(64, "0")}` as Hex };
+    },
+    confirmTransaction: async ({ transactionHash }: { transactionHash: Hex }) => {
+      if (options.failConfirmation?.(transactionHash)) {
+        throw new TransactionRevertedError({ reason: "execution reverted", data: "0x" }, { transactionHash });
+      }
+      return { transactionHash, status: "success" };
+    },
+  };
+
+  return { blockchain: blockchain as unknown as BlockchainOperations, sent };
+}
+
+const ROWS: PayoutRow[] = [
+  { recipient: ALICE, token: "ETH", amount: "0.1", network: "base" },
+  { recipient: ALICE, token: "native", amount: "0.2", network: "base" },
+];
+
+describe("parsePayoutCsv", () => {
+  it("reads columns in any order and case", () => {
+    const rows = parsePayoutCsv(`Network,AMOUNT,token,recipient\nbase,12.5,USDC,alice.eth\n`);
+
+    assert.deepEqual(rows, [{ recipient: "alice.eth", token: "USDC", amount: "12.5", network: "base" }]);
+  });
+
+  it("handles quoted fields, escaped quotes, CRLF and blank lines", () => {
+    const rows = parsePayoutCsv(
+      `recipient,token,amount,network,memo\r\n\r\nalice.eth,USDC,1,base,"March, ""final"" invoice"\r\n`
+    );
+
+    assert.deepEqual(rows, [
+      { recipient: "alice.eth", token: "USDC", amount: "1", network: "base", memo: 'March, "final" invoice' },
+    ]);
+  });
+
+  it("drops an empty memo", () => {
+    const [row] = parsePayoutCsv(`recipient,token,amount,network,memo\nalice.eth,USDC,1,base,`);
+    assert.equal(row && "memo" in row, false);
+  });
+
+  it("requires every column but memo", () => {
+    assert.throws(() => parsePayoutCsv(`recipient,token,network\nalice.eth,USDC,base`), /"amount" column/);
+    assert.deepEqual(parsePayoutCsv(""), []);
+  });
+});
+
+describe("parsePayoutJson", () => {
+  it("stringifies amounts and keeps memos", () => {
+    const json = JSON.stringify([{ recipient: "alice.eth", token: "USDC", amount: 3, network: "base", memo: 7 }]);
+    const rows = parsePayoutJson(json);
+    assert.deepEqual(rows, [{ recipient: "alice.eth", token: "USDC", amount: "3", network: "base", memo: "7" }]);
+  });
+
+  it("rejects anything but an array", () => {
+    assert.throws(() => parsePayoutJson(`{"recipient":"alice.eth"}`), /must be an array/);
+  });
+});
+
+describe("BatchPayouts", () => {
+  it("pays the same rows again when executed twice", async () => {
+    const { blockchain, sent } = fakeBlockchain();
+    const payouts = new BatchPayouts(blockchain);
+
+    const first = await payouts.execute(ROWS, { from: FROM });
+    const second = await payouts.execute(ROWS, { from: FROM });
+
+    assert.notEqual(first.batchId, second.batchId);
+    assert.equal(new Set(sent.map((send) => send.idempotencyKey)).size, 4);
+  });
+
+  it("reuses the rows' keys under an explicit batch id", async () => {
+    const { blockchain, sent } = fakeBlockchain();
+    const payouts = new BatchPayouts(blockchain);
+
+    await payouts.execute(ROWS, { from: FROM, batchId: "payroll-2024-06" });
+    await payouts.execute(ROWS, { from: FROM, batchId: "payroll-2024-06" });
+
+    assert.equal(new Set(sent.map((send) => send.idempotencyKey)).size, 2);
+  });
+
+  it("resends a reverted row under a new key and leaves confirmed rows alone", async () => {
+    const first = `0x${"1".padStart(64, "0")}`;
+    const { blockchain, sent } = fakeBlockchain({ failConfirmation: (hash) => hash === first });
+    const payouts = new BatchPayouts(blockchain);
+
+    const report = await payouts.execute(ROWS, { from: FROM });
+    assert.deepEqual(report.rows.map((row) => row.status), ["failed", "confirmed"]);
+    assert.equal(report.rows[0]!.errorCode, "transaction_reverted");
+
+    const retried = await payouts.retry(report);
+    assert.deepEqual(retried.rows.map((row) => row.status), ["confirmed", "confirmed"]);
+    assert.equal(sent.length, 3);
+    assert.notEqual(sent[2]!.idempotencyKey, sent[0]!.idempotencyKey);
+  });
+
+  it("sends nothing when a row is invalid", async () => {
+    const { blockchain, sent } = fakeBlockchain();
+    const payouts = new BatchPayouts(blockchain);
+
+    await assert.rejects(
+      payouts.execute([...ROWS, { recipient: ALICE, token: "ETH", amount: "-1", network: "base" }], { from: FROM }),
+      /row 2: invalid amount/
+    );
+    assert.equal(sent.length, 0);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Address } from "viem";
+import type { BlockchainOperations } from "../blockchain.js";
+import { silentLogger } from "../events.js";
+import { getNetwork } from "../networks.js";
+import { Permits } from "../permit.js";
+import type { SpendIntent } from "../policy.js";
+
+const OWNER: Address = "0x1111111111111111111111111111111111111111";
+const SPENDER: Address = "0x2222222222222222222222222222222222222222";
+const USDC = getNetwork("base").tokens.USDC!;
+
+function fakeBlockchain(options: { failSigning?: boolean; bitmap?: bigint } = {}) {
+  const authorized: SpendIntent[] = [];
+  const released: unknown[] = [];
+
+  const blockchain = {
+    getLogger: () => silentLogger,
+    report: () => {},
+    authorizeSpend: async (intent: SpendIntent) => {
+      authorized.push(intent);
+      return intent;
+    },
+    getSpendingPolicy: () => ({ release: async (spend: unknown) => void released.push(spend) }),
+    signTypedData: async () => {
+      if (options.failSigning) {
+        throw new Error("signing failed");
+      }
+      return `0x${"11".repeat(65)}`;
+    },
+    readContract: async () => options.bitmap ?? 0n,
+  } as unknown as BlockchainOperations;
+
+  return { blockchain, authorized, released };
+}
+
+describe("Permits", () => {
+  it("authorizes a permit as an approval for the spender", async () => {
+    const { blockchain, authorized } = fakeBlockchain();
+
+    await new Permits(blockchain).signPermitTransferFrom({
+      from: OWNER,
+      spender: SPENDER,
+      tokenAddress: USDC,
+      amount: 5_000_000n,
+      network: "base",
+    });
+
+    assert.deepEqual(authorized, [
+      { kind: "approval", network: "base", token: USDC, amount: 5_000_000n, to: SPENDER },
+    ]);
+  });
+
+  it("releases the spend if signing fails", async () => {
+    const { blockchain, authorized, released } = fakeBlockchain({ failSigning: true });
+
+    await assert.rejects(
+      new Permits(blockchain).signPermitTransferFrom({
+        from: OWNER,
+        spender: SPENDER,
+        tokenAddress: USDC,
+        amount: 5_000_000n,
+        network: "base",
+      }),
+      /signing failed/
+    );
+    assert.deepEqual(released, authorized);
+  });
+
+  it("reads Permit2 nonces from the owner's bitmap word", async () => {
+    // Nonce 300 is bit 44 of word 1
+    const { blockchain } = fakeBlockchain({ bitmap: 1n << 44n });
+    const permits = new Permits(blockchain);
+
+    assert.equal(await permits.isPermit2NonceUsed(OWNER, 300n, "base"), true);
+    assert.equal(await permits.isPermit2NonceUsed(OWNER, 301n, "base"), false);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseEther, parseUnits, type Address } from "viem";
+import { getNetwork } from "../networks.js";
+import { MemorySpendLedger, SpendingPolicy, SpendingPolicyError, type Spend } from "../policy.js";
+
+const USDC = getNetwork("base").tokens.USDC!;
+const PAYEE: Address = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+const STRANGER: Address = "0x1234567890123456789012345678901234567890";
+
+function usdc(amount: string, overrides: Partial<Spend> = {}): Spend {
+  return {
+    kind: "transfer",
+    network: "base",
+    token: USDC,
+    asset: "USDC",
+    decimals: 6,
+    amount: parseUnits(amount, 6),
+    to: PAYEE,
+    ...overrides,
+  };
+}
+
+function eth(amount: string, overrides: Partial<Spend> = {}): Spend {
+  return {
+    kind: "call",
+    network: "base",
+    token: "native",
+    asset: "ETH",
+    decimals: 18,
+    amount: parseEther(amount),
+    to: STRANGER,
+    ...overrides,
+  };
+}
+
+async function deniedRule(policy: SpendingPolicy, spend: Spend): Promise<string | undefined> {
+  const decision = await policy.evaluate(spend);
+  return decision.allowed ? undefined : decision.denial.rule;
+}
+
+describe("SpendingPolicy", () => {
+  it("applies network allow and deny lists", async () => {
+    const policy = new SpendingPolicy({ networks: { allow: ["base", "arbitrum"], deny: ["arbitrum"] } });
+
+    assert.equal(await deniedRule(policy, usdc("1")), undefined);
+    assert.equal(await deniedRule(policy, usdc("1", { network: "arbitrum" })), "network_denied");
+    assert.equal(await deniedRule(policy, usdc("1", { network: "optimism" })), "network_denied");
+  });
+
+  it("caps single transactions per token and per network", async () => {
+    const policy = new SpendingPolicy({
+      maxPerTransaction: [{ token: "USDC", amount: "25" }],
+      networks: { limits: { base: [{ token: "USDC", amount: "10" }] } },
+    });
+
+    assert.equal(await deniedRule(policy, usdc("30")), "max_per_transaction");
+    assert.equal(await deniedRule(policy, usdc("20")), "network_limit");
+    assert.equal(await deniedRule(policy, usdc("20", { network: "arbitrum" })), undefined);
+  });
+
+  it("matches resources exactly or by prefix", async () => {
+    const policy = new SpendingPolicy({ resources: { allow: ["https://api.example.com/*"] } });
+
+    assert.equal(await deniedRule(policy, usdc("1", { resource: "https://api.example.com/search" })), undefined);
+    assert.equal(await deniedRule(policy, usdc("1", { resource: "https://other.example.com/" })), "resource_denied");
+  });
+
+  describe("recipients", () => {
+    const policy = new SpendingPolicy({ recipients: { allow: [PAYEE] } });
+
+    it("checks transfer recipients and approval spenders", async () => {
+      assert.equal(await deniedRule(policy, usdc("1")), undefined);
+      assert.equal(await deniedRule(policy, usdc("1", { to: STRANGER })), "recipient_denied");
+      assert.equal(await deniedRule(policy, usdc("1", { kind: "approval", to: STRANGER })), "recipient_denied");
+    });
+
+    it("always allows revoking an approval", async () => {
+      assert.equal(await deniedRule(policy, usdc("0", { kind: "approval", to: STRANGER })), undefined);
+    });
+
+    it("lets the bridges approve their own spenders", async () => {
+      const { ccip, layerZero, permit2 } = getNetwork("base");
+
+      for (const spender of [ccip!.router, layerZero!.ofts!.USDC!, permit2!]) {
+        assert.equal(await deniedRule(policy, usdc("100", { kind: "approval", to: spender })), undefined);
+      }
+    });
+
+    it("still applies the denylist to the bridges' spenders", async () => {
+      const router = getNetwork("base").ccip!.router;
+      const denying = new SpendingPolicy({ recipients: { allow: [PAYEE], deny: [router] } });
+
+      assert.equal(await deniedRule(denying, usdc("100", { kind: "approval", to: router })), "recipient_denied");
+    });
+
+    it("doesn't apply to contract calls or bridge fees", async () => {
+      assert.equal(await deniedRule(policy, eth("0.01")), undefined);
+      assert.equal(await deniedRule(policy, eth("0.01", { kind: "bridge_fee" })), undefined);
+    });
+  });
+
+  it("checks bridge fees against their own ceiling", async () => {
+    const policy = new SpendingPolicy({
+      maxPerTransaction: [{ token: "ETH", amount: "0.001" }],
+      maxBridgeFee: [{ token: "ETH", amount: "0.005" }],
+    });
+
+    assert.equal(await deniedRule(policy, eth("0.002", { kind: "bridge_fee" })), undefined);
+    assert.equal(await deniedRule(policy, eth("0.01", { kind: "bridge_fee" })), "bridge_fee_exceeded");
+    assert.equal(await deniedRule(policy, eth("0.002")), "max_per_transaction");
+  });
+
+  describe("budgets", () => {
+    it("denies a spend that would exceed a rolling budget", async () => {
+      const policy = new SpendingPolicy({ budgets: [{ token: "USDC", amount: "50", period: "daily" }] });
+
+      await policy.authorize(usdc("30"));
+      await assert.rejects(policy.authorize(usdc("30")), (error: unknown) => {
+        assert.ok(error instanceof SpendingPolicyError);
+        assert.equal(error.denial.rule, "budget_exceeded");
+        assert.equal(error.denial.spent, "30");
+        return true;
+      });
+      await policy.authorize(usdc("20"));
+    });
+
+    it("gives a released spend back to the budget", async () => {
+      const policy = new SpendingPolicy({ budgets: [{ token: "USDC", amount: "50", period: "daily" }] });
+
+      const record = await policy.authorize(usdc("40"));
+      await policy.release(record!);
+      await policy.authorize(usdc("40"));
+    });
+
+    it("leaves approvals and bridge fees out of budgets", async () => {
+      const policy = new SpendingPolicy({
+        budgets: [
+          { token: "USDC", amount: "10", period: "weekly" },
+          { token: "ETH", amount: "0.001", period: "weekly" },
+        ],
+      });
+
+      await policy.authorize(usdc("100", { kind: "approval" }));
+      await policy.authorize(eth("0.01", { kind: "bridge_fee" }));
+
+      const [usdcBudget, ethBudget] = policy.getConfig().budgets!;
+      assert.equal(await policy.getSpent(usdcBudget!), 0n);
+      assert.equal(await policy.getSpent(ethBudget!), 0n);
+    });
+
+    it("scopes budgets by resource and network", async () => {
+      const policy = new SpendingPolicy({
+        budgets: [{ token: "USDC", amount: "5", period: "daily", resource: "https://api.example.com/*", network: "base" }],
+      });
+
+      await policy.authorize(usdc("5", { resource: "https://api.example.com/a" }));
+      await policy.authorize(usdc("5", { resource: "https://other.example.com/" }));
+      await policy.authorize(usdc("5", { resource: "https://api.example.com/a", network: "arbitrum" }));
+      assert.equal(await deniedRule(policy, usdc("1", { resource: "https://api.example.com/b" })), "budget_exceeded");
+    });
+
+    it("doesn't debit a repeated idempotency key again", async () => {
+      const policy = new SpendingPolicy({ budgets: [{ token: "USDC", amount: "50", period: "daily" }] });
+
+      assert.ok(await policy.authorize(usdc("40", { idempotencyKey: "pay-1" })));
+      assert.equal(await policy.authorize(usdc("40", { idempotencyKey: "pay-1" })), undefined);
+      await assert.rejects(policy.authorize(usdc("40", { idempotencyKey: "pay-2" })), SpendingPolicyError);
+    });
+
+    it("still applies the static rules to a repeated idempotency key", async () => {
+      const config = { recipients: { allow: [PAYEE] } };
+      const policy = new SpendingPolicy(config);
+
+      await policy.authorize(usdc("1", { idempotencyKey: "pay-1" }));
+      config.recipients.allow = [STRANGER];
+      await assert.rejects(policy.authorize(usdc("1", { idempotencyKey: "pay-1" })), (error: unknown) => {
+        assert.ok(error instanceof SpendingPolicyError);
+        assert.equal(error.denial.rule, "recipient_denied");
+        return true;
+      });
+    });
+
+    it("counts a key again once CDP's idempotency window has passed", async () => {
+      const ledger = new MemorySpendLedger();
+      const policy = new SpendingPolicy({ budgets: [{ token: "USDC", amount: "50", period: "weekly" }] }, ledger);
+      const twoDaysAgo = Date.now() - 2 * 24 * 60 * 60 * 1000;
+
+      ledger.add({ ...usdc("20", { idempotencyKey: "pay-1" }), id: "earlier", timestamp: twoDaysAgo });
+      assert.ok(await policy.authorize(usdc("20", { idempotencyKey: "pay-1" })));
+      await assert.rejects(policy.authorize(usdc("20")), SpendingPolicyError);
+    });
+
+    it("serializes concurrent authorizations against one budget", async () => {
+      const policy = new SpendingPolicy({ budgets: [{ token: "USDC", amount: "50", period: "daily" }] });
+
+      const results = await Promise.allSettled([policy.authorize(usdc("30")), policy.authorize(usdc("30"))]);
+      assert.deepEqual(results.map((result) => result.status), ["fulfilled", "rejected"]);
+    });
+  });
+});
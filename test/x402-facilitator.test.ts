@@ -0,0 +1,207 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { decodeFunctionData, verifyTypedData, type Address, type Hex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { PERMIT2_ABI } from "../abis.js";
+import type { BlockchainOperations } from "../blockchain.js";
+import { silentLogger } from "../events.js";
+import { getNetwork } from "../networks.js";
+import { PERMIT_TRANSFER_FROM_TYPES, Permits } from "../permit.js";
+import { X402Facilitator } from "../x402-facilitator.js";
+import {
+  X402_TRANSFER_SCHEME,
+  X402_VERSION,
+  type PaymentPayload,
+  type PaymentRequirements,
+  type TransferEvmPayload,
+} from "../x402.js";
+
+const SETTLER: Address = "0x2222222222222222222222222222222222222222";
+const PAYEE: Address = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+const TOKEN: Address = "0x3333333333333333333333333333333333333333";
+const PERMIT2 = getNetwork("base").permit2!;
+
+const REQUIREMENTS: PaymentRequirements = {
+  scheme: X402_TRANSFER_SCHEME,
+  network: "base",
+  maxAmountRequired: "5000000",
+  resource: "https://api.example.com/data",
+  description: "",
+  mimeType: "application/json",
+  payTo: PAYEE,
+  maxTimeoutSeconds: 60,
+  asset: TOKEN,
+  extra: { spender: SETTLER },
+};
+
+/**
+ * Token balances, Permit2 allowances and nonce bitmaps for one payer, and
+ * the settlements sent
+ */
+class FakeChain {
+  balance = 10_000_000n;
+  allowance = 10_000_000n;
+  usedNonces = new Set<bigint>();
+  sent: { to: Address; data: Hex; idempotencyKey?: string }[] = [];
+
+  blockchain(): BlockchainOperations {
+    const fake = {
+      getLogger: () => silentLogger,
+      report: () => {},
+      getPublicClient: () => ({ verifyTypedData }),
+      readContract: async ({ functionName, args }: { functionName: string; args: readonly unknown[] }) => {
+        assert.equal(functionName, "nonceBitmap");
+        const wordPos = args[1] as bigint;
+        let bitmap = 0n;
+        for (const nonce of this.usedNonces) {
+          if (nonce >> 8n === wordPos) {
+            bitmap |= 1n << (nonce & 0xffn);
+          }
+        }
+        return bitmap;
+      },
+      getERC20Balance: async () => this.balance,
+      checkAllowance: async ({ spender }: { spender: Address }) => {
+        assert.equal(spender, PERMIT2);
+        return this.allowance;
+      },
+      sendTransaction: async (options: { transaction: { to: Address; data: Hex }; idempotencyKey?: string }) => {
+        this.sent.push({ ...options.transaction, idempotencyKey: options.idempotencyKey });
+        return { transactionHash: `0x${this.sent.length.toString(16).padStart(64, "0")}` };
+      },
+      confirmTransaction: async ({ transactionHash }: { transactionHash: Hex }) => ({ transactionHash }),
+    };
+    return fake as unknown as BlockchainOperations;
+  }
+}
+
+async function signPayload(
+  blockchain: BlockchainOperations,
+  overrides: { spender?: Address; amount?: bigint; nonce?: bigint; deadline?: bigint } = {}
+): Promise<PaymentPayload<TransferEvmPayload>> {
+  const account = privateKeyToAccount(generatePrivateKey());
+  const permit = {
+    permitted: { token: TOKEN, amount: overrides.amount ?? 5_000_000n },
+    spender: overrides.spender ?? SETTLER,
+    nonce: overrides.nonce ?? 7n,
+    deadline: overrides.deadline ?? BigInt(Math.floor(Date.now() / 1000) + 600),
+  };
+
+  const signature = await account.signTypedData({
+    domain: new Permits(blockchain).getPermit2Domain("base"),
+    types: PERMIT_TRANSFER_FROM_TYPES,
+    primaryType: "PermitTransferFrom",
+    message: permit,
+  });
+
+  return {
+    x402Version: X402_VERSION,
+    scheme: X402_TRANSFER_SCHEME,
+    network: "base",
+    payload: {
+      signature,
+      owner: account.address,
+      permit: {
+        permitted: { token: TOKEN, amount: permit.permitted.amount.toString() },
+        spender: permit.spender,
+        nonce: permit.nonce.toString(),
+        deadline: permit.deadline.toString(),
+      },
+    },
+  };
+}
+
+function setup() {
+  const chain = new FakeChain();
+  const blockchain = chain.blockchain();
+  return { chain, blockchain, facilitator: new X402Facilitator(blockchain, { settler: SETTLER }) };
+}
+
+describe("X402Facilitator transfer scheme", () => {
+  it("settles a permit with permitTransferFrom to payTo, once", async () => {
+    const { chain, blockchain, facilitator } = setup();
+    const payload = await signPayload(blockchain);
+
+    const verification = await facilitator.verify(payload, REQUIREMENTS);
+    assert.deepEqual(verification, { isValid: true, payer: payload.payload.owner });
+
+    const settlement = await facilitator.settle(payload, REQUIREMENTS);
+    assert.equal(settlement.success, true);
+    assert.equal(chain.sent.length, 1);
+    assert.equal(chain.sent[0].to, PERMIT2);
+
+    const { functionName, args } = decodeFunctionData({ abi: PERMIT2_ABI, data: chain.sent[0].data });
+    assert.equal(functionName, "permitTransferFrom");
+    assert.deepEqual(args?.[1], { to: PAYEE, requestedAmount: 5_000_000n });
+    assert.equal(args?.[2], payload.payload.owner);
+
+    const again = await facilitator.settle(payload, REQUIREMENTS);
+    assert.equal(again.success, false);
+    assert.equal(again.errorReason, "invalid_transaction_state");
+    assert.equal(chain.sent.length, 1);
+  });
+
+  it("rejects a permit another spender could use", async () => {
+    const { blockchain, facilitator } = setup();
+    const payload = await signPayload(blockchain, { spender: PAYEE });
+
+    const verification = await facilitator.verify(payload, REQUIREMENTS);
+    assert.equal(verification.invalidReason, "invalid_transfer_evm_payload_spender_mismatch");
+  });
+
+  it("rejects a permit for less than the required amount", async () => {
+    const { blockchain, facilitator } = setup();
+    const payload = await signPayload(blockchain, { amount: 4_999_999n });
+
+    const verification = await facilitator.verify(payload, REQUIREMENTS);
+    assert.equal(verification.invalidReason, "invalid_transfer_evm_payload_amount");
+  });
+
+  it("rejects a payload whose amount was raised after signing", async () => {
+    const { blockchain, facilitator } = setup();
+    const payload = await signPayload(blockchain);
+    payload.payload.permit.permitted.amount = "6000000";
+
+    const verification = await facilitator.verify(payload, REQUIREMENTS);
+    assert.equal(verification.invalidReason, "invalid_transfer_evm_payload_signature");
+  });
+
+  it("rejects an expired permit", async () => {
+    const { blockchain, facilitator } = setup();
+    const payload = await signPayload(blockchain, { deadline: BigInt(Math.floor(Date.now() / 1000)) });
+
+    const verification = await facilitator.verify(payload, REQUIREMENTS);
+    assert.equal(verification.invalidReason, "invalid_transfer_evm_payload_deadline");
+  });
+
+  it("rejects a nonce Permit2 has already used", async () => {
+    const { chain, blockchain, facilitator } = setup();
+    const payload = await signPayload(blockchain, { nonce: 300n });
+    chain.usedNonces.add(300n);
+
+    const verification = await facilitator.verify(payload, REQUIREMENTS);
+    assert.equal(verification.invalidReason, "invalid_transaction_state");
+  });
+
+  it("rejects a payer without the balance or the Permit2 allowance", async () => {
+    const { chain, blockchain, facilitator } = setup();
+    const payload = await signPayload(blockchain);
+
+    chain.allowance = 0n;
+    let verification = await facilitator.verify(payload, REQUIREMENTS);
+    assert.equal(verification.invalidReason, "invalid_transfer_evm_payload_allowance");
+
+    chain.balance = 0n;
+    verification = await facilitator.verify(payload, REQUIREMENTS);
+    assert.equal(verification.invalidReason, "insufficient_funds");
+  });
+
+  it("advertises the settler as the spender for transfer payments", () => {
+    const { facilitator } = setup();
+    const kind = facilitator
+      .supported()
+      .kinds.find((k) => k.scheme === X402_TRANSFER_SCHEME && k.network === "base");
+
+    assert.deepEqual(kind?.extra, { spender: SETTLER, permit2: PERMIT2 });
+  });
+});
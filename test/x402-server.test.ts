@@ -0,0 +1,89 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Address } from "viem";
+import type { BlockchainOperations } from "../blockchain.js";
+import { silentLogger } from "../events.js";
+import type { Facilitator } from "../x402-facilitator.js";
+import { X402ResourceServer, type X402RouteConfig } from "../x402-server.js";
+import { X402_TRANSFER_SCHEME, type SupportedResponse } from "../x402.js";
+
+const MERCHANT: Address = "0x742d35Cc6634C0532925a3b844Bc454e4438f44e";
+const SETTLER: Address = "0x2222222222222222222222222222222222222222";
+/** Has EIP-3009 */
+const USDC: Address = "0x3333333333333333333333333333333333333333";
+/** Doesn't */
+const DAI: Address = "0x4444444444444444444444444444444444444444";
+
+const ROUTE: X402RouteConfig = {
+  path: "/premium",
+  accepts: [
+    { network: "base", asset: USDC, amount: 10_000n, payTo: "merchant.eth" },
+    { network: "base", asset: DAI, amount: 10_000_000_000_000_000n, payTo: "merchant.eth" },
+  ],
+};
+
+function setup(supported?: SupportedResponse) {
+  const resolved: string[] = [];
+
+  const blockchain = {
+    getLogger: () => silentLogger,
+    report: () => {},
+    resolveAddress: async (name: string) => {
+      resolved.push(name);
+      return MERCHANT;
+    },
+    readContract: async ({ contractAddress, functionName }: { contractAddress: Address; functionName: string }) => {
+      if (contractAddress !== USDC) {
+        throw new Error("execution reverted");
+      }
+      return functionName === "name" ? "USD Coin" : functionName === "version" ? "2" : false;
+    },
+  } as unknown as BlockchainOperations;
+
+  const facilitator: Facilitator = {
+    verify: async () => ({ isValid: false }),
+    settle: async () => ({ success: false }),
+    ...(supported && { supported: () => supported }),
+  };
+
+  return { server: new X402ResourceServer(blockchain, { routes: [ROUTE], facilitator }), resolved };
+}
+
+describe("X402ResourceServer.buildRequirements", () => {
+  it("offers exact for EIP-3009 tokens and transfer for the rest", async () => {
+    const { server } = setup({
+      kinds: [
+        { x402Version: 1, scheme: "exact", network: "base" },
+        { x402Version: 1, scheme: X402_TRANSFER_SCHEME, network: "base", extra: { spender: SETTLER } },
+      ],
+    });
+
+    const [usdc, dai] = await server.buildRequirements(ROUTE, "https://api.example.com/premium");
+
+    assert.equal(usdc.scheme, "exact");
+    assert.deepEqual(usdc.extra, { name: "USD Coin", version: "2" });
+    assert.equal(dai.scheme, X402_TRANSFER_SCHEME);
+    assert.deepEqual(dai.extra, { spender: SETTLER });
+  });
+
+  it("refuses to offer a token the facilitator can't settle", async () => {
+    const { server } = setup();
+
+    await assert.rejects(
+      server.buildRequirements(ROUTE, "https://api.example.com/premium"),
+      /doesn't support EIP-3009/
+    );
+  });
+
+  it("resolves payTo once per network", async () => {
+    const { server, resolved } = setup({
+      kinds: [{ x402Version: 1, scheme: X402_TRANSFER_SCHEME, network: "base", extra: { spender: SETTLER } }],
+    });
+
+    await server.buildRequirements(ROUTE, "https://api.example.com/premium");
+    const [requirements] = await server.buildRequirements(ROUTE, "https://api.example.com/premium");
+
+    assert.equal(requirements.payTo, MERCHANT);
+    assert.deepEqual(resolved, ["merchant.eth"]);
+  });
+});
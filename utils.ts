@@ -1,25 +1,21 @@
-import { parseUnits, formatUnits } from "viem";
+import { parseUnits, formatUnits, toHex, type Hex } from "viem";
+import { createConsoleLogger, type Logger } from "./events.js";
+import { BUILTIN_NETWORKS } from "./networks.js";
 
 /**
  * Common token addresses for different networks
+ *
+ * @deprecated Use `getNetwork(network).tokens` or `getTokenAddress` from the network registry,
+ * or `getAssetDeployments` (assets.ts) to include bridged variants
  */
 export const TOKEN_ADDRESSES = {
-  base: {
-    USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-    WETH: "0x4200000000000000000000000000000000000006",
-  },
-  "base-sepolia": {
-    USDC: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-    WETH: "0x4200000000000000000000000000000000000006",
-  },
-  ethereum: {
-    USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
-    WETH: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
-  },
-  "ethereum-sepolia": {
-    USDC: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
-    WETH: "0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9",
-  },
+  base: BUILTIN_NETWORKS.base.tokens,
+  "base-sepolia": BUILTIN_NETWORKS["base-sepolia"].tokens,
+  ethereum: BUILTIN_NETWORKS.ethereum.tokens,
+  "ethereum-sepolia": BUILTIN_NETWORKS["ethereum-sepolia"].tokens,
+  arbitrum: BUILTIN_NETWORKS.arbitrum.tokens,
+  optimism: BUILTIN_NETWORKS.optimism.tokens,
+  polygon: BUILTIN_NETWORKS.polygon.tokens,
 } as const;
 
 /**
@@ -37,6 +33,14 @@ export function parseAmount(amount: string, decimals: number): bigint {
   return parseUnits(amount, decimals);
 }
 
+/**
+ * Random 32-byte nonce, e.g. for EIP-3009 authorizations and Permit2's
+ * unordered nonces
+ */
+export function randomNonce(): Hex {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
 /**
  * Sleep for specified milliseconds
  */
@@ -50,7 +54,8 @@ export function sleep(ms: number): Promise<void> {
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries = 3,
-  initialDelay = 1000
+  initialDelay = 1000,
+  logger: Logger = createConsoleLogger()
 ): Promise<T> {
   let lastError: Error;
   
@@ -60,7 +65,7 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error as Error;
       const delay = initialDelay * Math.pow(2, i);
-      console.log(`Retry ${i + 1}/${maxRetries} after ${delay}ms...`);
+      logger.info(`Retry ${i + 1}/${maxRetries} after ${delay}ms`, { attempt: i + 1, delay, error });
       await sleep(delay);
     }
   }
@@ -0,0 +1,400 @@
+/**
+ * x402 HTTP Client
+ *
+ * fetch-compatible wrapper that handles 402 Payment Required automatically:
+ * 1. Issue the request
+ * 2. On 402, parse the payment requirements and pick an acceptable one
+ * 3. Pay: bridge funds to the target chain if needed, then for the "exact"
+ *    scheme sign an EIP-3009 authorization for the server to settle; for
+ *    the non-standard "transfer" scheme sign a Permit2 `PermitTransferFrom`
+ *    for the facilitator's settler instead
+ * 4. Retry with the `X-PAYMENT` header and return the final response
+ *    together with the `X-PAYMENT-RESPONSE` settlement info
+ *
+ * Spec: https://github.com/coinbase/x402
+ */
+
+import { formatUnits, isAddress } from "viem";
+import { findAsset } from "./assets.js";
+import type { BlockchainOperations } from "./blockchain.js";
+import type { CrossChainResourceExecution, FundingResult, PaymentResult, X402PaymentRequest } from "./cre-x402.js";
+import { TransferAuthorizations, type SignedTransferAuthorization } from "./eip3009.js";
+import { hasNetwork, type NetworkId } from "./networks.js";
+import { Permits, type SignedPermitTransferFrom } from "./permit.js";
+import {
+  X402_TRANSFER_SCHEME,
+  X402_VERSION,
+  X_PAYMENT_HEADER,
+  X_PAYMENT_RESPONSE_HEADER,
+  decodeX402Header,
+  encodeX402Header,
+  parsePaymentRequired,
+  type ExactEvmPayload,
+  type PaymentPayload,
+  type PaymentRequirements,
+  type SettlementResponse,
+  type TransferEvmPayload,
+} from "./x402.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface X402ClientConfig {
+  /** fetch implementation used for both attempts (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Payment schemes this client can pay (default: ["exact", "transfer"]) */
+  schemes?: string[];
+  /** Networks to pay on, in order of preference (default: any registered network) */
+  networks?: NetworkId[];
+  /** Pay the "exact" scheme with EIP-3009 authorizations; false leaves only "transfer" (default: true) */
+  useAuthorizations?: boolean;
+  /** Custom selection among the acceptable requirements; return undefined to decline */
+  selectRequirements?: (accepts: PaymentRequirements[]) => PaymentRequirements | undefined;
+}
+
+export interface X402FetchResult {
+  /** Final response (the retried one if a payment was made) */
+  response: Response;
+  /** Requirements that were paid, if the server asked for payment */
+  requirements?: PaymentRequirements;
+  /** Result of the payment made for this request */
+  payment?: PaymentResult;
+  /** EIP-3009 authorization sent, for the "exact" scheme */
+  authorization?: SignedTransferAuthorization;
+  /** Permit2 permit sent, for the "transfer" scheme */
+  permit?: SignedPermitTransferFrom;
+  /** Decoded `X-PAYMENT-RESPONSE` header of the final response (undefined if missing or malformed) */
+  settlement?: SettlementResponse;
+}
+
+// ============================================================================
+// X402 CLIENT
+// ============================================================================
+
+export class X402Client {
+  private authorizations: TransferAuthorizations;
+  private permits: Permits;
+  private config: Required<Omit<X402ClientConfig, "networks" | "selectRequirements">> &
+    Pick<X402ClientConfig, "networks" | "selectRequirements">;
+
+  constructor(
+    private blockchain: BlockchainOperations,
+    private cre: CrossChainResourceExecution,
+    config: X402ClientConfig = {}
+  ) {
+    this.authorizations = new TransferAuthorizations(blockchain);
+    this.permits = new Permits(blockchain);
+    this.config = {
+      ...config,
+      fetch: config.fetch ?? globalThis.fetch.bind(globalThis),
+      schemes: config.schemes ?? ["exact", X402_TRANSFER_SCHEME],
+      useAuthorizations: config.useAuthorizations ?? true,
+    };
+  }
+
+  /**
+   * Drop-in replacement for `fetch` that pays 402 responses
+   *
+   * @example
+   * ```ts
+   * const x402 = new X402Client(blockchain, cre, { networks: ["base", "arbitrum"] });
+   * const response = await x402.fetch("https://api.example.com/premium-data");
+   * const data = await response.json();
+   * ```
+   */
+  async fetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    const { response } = await this.request(input, init);
+    return response;
+  }
+
+  /**
+   * Like `fetch`, but also returns the payment made and the server's settlement info
+   *
+   * Throws if the server asks for payment and no offered requirement is
+   * acceptable, or if the payment fails. If the retried request is still
+   * refused, the response is returned as-is alongside the payment result.
+   *
+   * @example
+   * ```ts
+   * const { response, payment, settlement } = await x402.request(url, {
+   *   method: "POST",
+   *   body: JSON.stringify({ query }),
+   * });
+   * console.log(`Paid in ${payment?.transactionHash}, settled: ${settlement?.success}`);
+   * ```
+   */
+  async request(input: string | URL | Request, init?: RequestInit): Promise<X402FetchResult> {
+    const request = new Request(input, init);
+
+    // Keep the original body unread for the retry
+    const response = await this.config.fetch(request.clone());
+    if (response.status !== 402) {
+      return { response };
+    }
+
+    const paymentRequired = parsePaymentRequired(await response.json());
+    const requirements = this.selectRequirements(paymentRequired.accepts);
+
+    if (!requirements) {
+      const offered = paymentRequired.accepts.map((r) => `${r.scheme}@${r.network}`).join(", ");
+      throw new Error(
+        `No acceptable x402 payment requirements for ${request.url} (offered: ${offered || "none"})` +
+          (paymentRequired.error ? `: ${paymentRequired.error}` : "")
+      );
+    }
+
+    const { payment, authorization, permit, header } = await this.pay(requirements);
+
+    const headers = new Headers(request.headers);
+    headers.set(X_PAYMENT_HEADER, header);
+
+    const paidResponse = await this.config.fetch(new Request(request, { headers }));
+
+    return {
+      response: paidResponse,
+      requirements,
+      payment,
+      authorization,
+      permit,
+      settlement: readSettlement(paidResponse),
+    };
+  }
+
+  /**
+   * Pick the requirements to pay: supported scheme, registered network, and
+   * the most preferred network if `networks` is configured
+   */
+  selectRequirements(accepts: PaymentRequirements[]): PaymentRequirements | undefined {
+    const { schemes, networks, useAuthorizations, selectRequirements } = this.config;
+
+    const acceptable = accepts.filter(
+      (requirements) =>
+        schemes.includes(requirements.scheme) &&
+        (useAuthorizations || requirements.scheme !== "exact") &&
+        hasNetwork(requirements.network) &&
+        (!networks || networks.includes(requirements.network))
+    );
+
+    if (selectRequirements) {
+      return selectRequirements(acceptable);
+    }
+
+    if (networks) {
+      acceptable.sort((a, b) => networks.indexOf(a.network) - networks.indexOf(b.network));
+    }
+
+    return acceptable[0];
+  }
+
+  /**
+   * Pay the requirements and build the `X-PAYMENT` header
+   */
+  private async pay(requirements: PaymentRequirements): Promise<{
+    payment: PaymentResult;
+    authorization?: SignedTransferAuthorization;
+    permit?: SignedPermitTransferFrom;
+    header: string;
+  }> {
+    const network = requirements.network as NetworkId;
+    const decimals =
+      findAsset(network, requirements.asset)?.asset.decimals ??
+      (await this.blockchain.getTokenInfo(requirements.asset, network)).decimals;
+
+    // x402 amounts are in the smallest unit; the CRE takes decimal strings
+    const paymentRequest: X402PaymentRequest = {
+      maxAmountRequired: formatUnits(BigInt(requirements.maxAmountRequired), decimals),
+      resource: requirements.resource,
+      payTo: requirements.payTo,
+      asset: requirements.asset,
+      network,
+      description: requirements.description,
+    };
+
+    if (requirements.scheme === "exact") {
+      // Only EIP-3009 authorizations settle under "exact", so don't pay at all
+      if (!(await this.authorizations.supportsAuthorization(requirements.asset, network))) {
+        throw new Error(
+          `x402 "exact" payment for ${requirements.resource} needs EIP-3009, which ${requirements.asset} on ${network} doesn't support`
+        );
+      }
+      return this.payWithAuthorization(requirements, paymentRequest);
+    }
+
+    if (requirements.scheme !== X402_TRANSFER_SCHEME) {
+      throw new Error(`Unsupported x402 scheme "${requirements.scheme}" for ${requirements.resource}`);
+    }
+
+    return this.payWithPermit(requirements, paymentRequest);
+  }
+
+  /**
+   * Bridge funds to the target chain if needed, then sign an EIP-3009
+   * authorization for exactly the required amount, valid for the server's
+   * `maxTimeoutSeconds`
+   */
+  private async payWithAuthorization(
+    requirements: PaymentRequirements,
+    paymentRequest: X402PaymentRequest
+  ): Promise<{ payment: PaymentResult; authorization: SignedTransferAuthorization; header: string }> {
+    const network = paymentRequest.network;
+
+    const funding = await this.ensureFunds(requirements, paymentRequest);
+    const payTo = await this.blockchain.resolveAddress(requirements.payTo, network);
+    const extra = requirements.extra ?? {};
+
+    const authorization = await this.authorizations.sign({
+      from: this.cre.getConfig().walletAddress,
+      to: payTo,
+      tokenAddress: requirements.asset,
+      amount: BigInt(requirements.maxAmountRequired),
+      network,
+      validForSeconds: requirements.maxTimeoutSeconds,
+      resource: requirements.resource,
+      // Servers advertise the token's EIP-712 domain in `extra`
+      domain: {
+        name: typeof extra.name === "string" ? extra.name : undefined,
+        version: typeof extra.version === "string" ? extra.version : undefined,
+      },
+    });
+
+    const { from, to, value, validAfter, validBefore, nonce } = authorization.authorization;
+    const payload: PaymentPayload<ExactEvmPayload> = {
+      x402Version: X402_VERSION,
+      scheme: requirements.scheme,
+      network: requirements.network,
+      payload: {
+        signature: authorization.signature,
+        authorization: {
+          from,
+          to,
+          value: value.toString(),
+          validAfter: validAfter.toString(),
+          validBefore: validBefore.toString(),
+          nonce,
+        },
+      },
+    };
+
+    return {
+      payment: { success: true, payTo, bridges: funding.bridges },
+      authorization,
+      header: encodeX402Header(payload),
+    };
+  }
+
+  /**
+   * Bridge funds to the target chain if needed, approve the token to Permit2
+   * if it isn't already, then sign a `PermitTransferFrom` for exactly the
+   * required amount, spendable only by the spender the server names in
+   * `extra.spender`
+   *
+   * The permit itself is authorized as an approval for the spender; the
+   * transfer it pays for is authorized here too, as a transfer to `payTo`,
+   * so it counts toward budgets and resource rules like any other payment.
+   */
+  private async payWithPermit(
+    requirements: PaymentRequirements,
+    paymentRequest: X402PaymentRequest
+  ): Promise<{ payment: PaymentResult; permit: SignedPermitTransferFrom; header: string }> {
+    const network = paymentRequest.network;
+    const spender = requirements.extra?.spender;
+
+    if (typeof spender !== "string" || !isAddress(spender)) {
+      throw new Error(`x402 "transfer" requirements for ${requirements.resource} don't name a Permit2 spender`);
+    }
+
+    const funding = await this.ensureFunds(requirements, paymentRequest);
+    const from = this.cre.getConfig().walletAddress;
+    const payTo = await this.blockchain.resolveAddress(requirements.payTo, network);
+    const amount = BigInt(requirements.maxAmountRequired);
+
+    await this.permits.ensurePermit2Approval({ from, tokenAddress: requirements.asset, amount, network });
+
+    const spend = await this.blockchain.authorizeSpend({
+      kind: "transfer",
+      network,
+      token: requirements.asset,
+      amount,
+      to: payTo,
+      resource: requirements.resource,
+    });
+
+    let permit: SignedPermitTransferFrom;
+    try {
+      permit = await this.permits.signPermitTransferFrom({
+        from,
+        spender,
+        tokenAddress: requirements.asset,
+        amount,
+        network,
+        validForSeconds: requirements.maxTimeoutSeconds,
+      });
+    } catch (error) {
+      if (spend) {
+        await this.blockchain.getSpendingPolicy()?.release(spend);
+      }
+      throw error;
+    }
+
+    const { permitted, nonce, deadline } = permit.permit;
+    const payload: PaymentPayload<TransferEvmPayload> = {
+      x402Version: X402_VERSION,
+      scheme: X402_TRANSFER_SCHEME,
+      network: requirements.network,
+      payload: {
+        signature: permit.signature,
+        owner: permit.owner,
+        permit: {
+          permitted: { token: permitted.token, amount: permitted.amount.toString() },
+          spender: permit.permit.spender,
+          nonce: nonce.toString(),
+          deadline: deadline.toString(),
+        },
+      },
+    };
+
+    return {
+      payment: { success: true, payTo, bridges: funding.bridges },
+      permit,
+      header: encodeX402Header(payload),
+    };
+  }
+
+  /**
+   * Bridge funds to the target chain if the wallet is short there
+   */
+  private async ensureFunds(
+    requirements: PaymentRequirements,
+    paymentRequest: X402PaymentRequest
+  ): Promise<FundingResult> {
+    const funding = await this.cre.ensureFunds(paymentRequest);
+    if (!funding.success) {
+      throw new Error(`x402 payment for ${requirements.resource} failed: ${funding.error ?? "unknown error"}`, {
+        cause: funding.failure,
+      });
+    }
+    return funding;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Decoded `X-PAYMENT-RESPONSE`; undefined if missing or malformed, since the
+ * payment has already been made and the response is still worth returning
+ */
+function readSettlement(response: Response): SettlementResponse | undefined {
+  const header = response.headers.get(X_PAYMENT_RESPONSE_HEADER);
+  if (!header) {
+    return undefined;
+  }
+
+  try {
+    return decodeX402Header<SettlementResponse>(header);
+  } catch {
+    return undefined;
+  }
+}
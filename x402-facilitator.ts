@@ -0,0 +1,621 @@
+/**
+ * x402 Facilitator
+ *
+ * Verifies and settles x402 payments on behalf of a resource server:
+ * - "exact" EIP-3009 payloads: check recipient, amount, validity window,
+ *   signature, nonce and balance, then submit `transferWithAuthorization`
+ *   from a settler account (which pays the gas)
+ * - "transfer" Permit2 payloads, for tokens without EIP-3009: check token,
+ *   spender, amount, deadline, signature, nonce, balance and the payer's
+ *   Permit2 allowance, then have the settler (the permit's spender) call
+ *   `permitTransferFrom` to move the tokens to `payTo`
+ *
+ * Either way the payment is a signature over a single-use nonce, so one
+ * payment can't be presented for many requests.
+ *
+ * Runs in-process (`X402Facilitator`), behind HTTP with `/verify`,
+ * `/settle` and `/supported` (`createFacilitatorHandler`), or remotely
+ * (`HttpFacilitatorClient`).
+ *
+ * Spec: https://github.com/coinbase/x402
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { encodeFunctionData, type Address, type Hex } from "viem";
+import { EIP3009_ABI } from "./abis.js";
+import type { BlockchainOperations } from "./blockchain.js";
+import { TRANSFER_WITH_AUTHORIZATION_TYPES, TransferAuthorizations } from "./eip3009.js";
+import { deriveIdempotencyKey } from "./idempotency.js";
+import { getNetwork, hasNetwork, listNetworks, type NetworkId } from "./networks.js";
+import {
+  PERMIT_TRANSFER_FROM_TYPES,
+  Permits,
+  encodePermitTransferFrom,
+  type SignedPermitTransferFrom,
+} from "./permit.js";
+import {
+  X402_TRANSFER_SCHEME,
+  X402_VERSION,
+  decodeX402Header,
+  type ExactEvmPayload,
+  type FacilitatorRequest,
+  type PaymentPayload,
+  type PaymentRequirements,
+  type SettlementResponse,
+  type SupportedResponse,
+  type TransferEvmPayload,
+  type VerifyResponse,
+  type X402ErrorReason,
+} from "./x402.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Anything that can verify and settle payments: the local facilitator or a
+ * remote one over HTTP
+ */
+export interface Facilitator {
+  verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse>;
+  settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettlementResponse>;
+  /** Schemes and networks settled, with their `extra` (needed to offer "transfer") */
+  supported?(): SupportedResponse | Promise<SupportedResponse>;
+}
+
+export interface X402FacilitatorConfig {
+  /**
+   * CDP account that submits settlements and pays their gas; also the
+   * spender "transfer" permits must name
+   */
+  settler: Address;
+  /** Confirmations to wait for on settlement transactions (default: 1) */
+  confirmations?: number;
+  /** Seconds an authorization or permit must remain valid for to be accepted (default: 6) */
+  validBeforeBufferSeconds?: number;
+}
+
+/** Settlement transaction for a verified payment, and the nonce it consumes */
+interface Settlement {
+  key: string;
+  to: Address;
+  data: Hex;
+  idempotencyKey: string;
+}
+
+export interface FacilitatorHandlerOptions {
+  /** Largest request body accepted, in bytes; larger ones get a 413 (default: 64 KiB) */
+  maxBodyBytes?: number;
+}
+
+// ============================================================================
+// LOCAL FACILITATOR
+// ============================================================================
+
+export class X402Facilitator implements Facilitator {
+  private authorizations: TransferAuthorizations;
+  private permits: Permits;
+  /**
+   * Nonces being settled here; the token's `authorizationState` and
+   * Permit2's nonce bitmap cover the rest
+   */
+  private used = new Set<string>();
+
+  constructor(
+    private blockchain: BlockchainOperations,
+    private config: X402FacilitatorConfig
+  ) {
+    this.authorizations = new TransferAuthorizations(blockchain);
+    this.permits = new Permits(blockchain);
+  }
+
+  /**
+   * Check a payment against its requirements without moving funds
+   *
+   * @example
+   * ```ts
+   * const facilitator = new X402Facilitator(blockchain, { settler: account.address });
+   * const { isValid, invalidReason, payer } = await facilitator.verify(payload, requirements);
+   * ```
+   */
+  async verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    try {
+      if (payload.x402Version !== X402_VERSION) {
+        return { isValid: false, invalidReason: "invalid_x402_version" };
+      }
+      if (requirements.scheme !== "exact" && requirements.scheme !== X402_TRANSFER_SCHEME) {
+        return { isValid: false, invalidReason: "unsupported_scheme" };
+      }
+      if (payload.scheme !== requirements.scheme) {
+        return { isValid: false, invalidReason: "invalid_scheme" };
+      }
+      if (payload.network !== requirements.network || !hasNetwork(payload.network)) {
+        return { isValid: false, invalidReason: "invalid_network" };
+      }
+
+      if (requirements.scheme === X402_TRANSFER_SCHEME) {
+        if (!getNetwork(requirements.network).permit2) {
+          return { isValid: false, invalidReason: "unsupported_scheme" };
+        }
+
+        const data = payload.payload as Partial<TransferEvmPayload> | undefined;
+        if (!data?.signature || !data.owner || !data.permit?.permitted) {
+          return { isValid: false, invalidReason: "invalid_payload" };
+        }
+
+        return await this.verifyPermit(data as TransferEvmPayload, requirements);
+      }
+
+      const data = payload.payload as Partial<ExactEvmPayload> | undefined;
+
+      if (!data?.signature || !data.authorization) {
+        return { isValid: false, invalidReason: "invalid_payload" };
+      }
+
+      return await this.verifyAuthorization(data as ExactEvmPayload, requirements);
+    } catch {
+      return { isValid: false, invalidReason: "unexpected_verify_error" };
+    }
+  }
+
+  /**
+   * Verify and settle a payment by submitting its authorization or permit
+   * on-chain
+   *
+   * Each nonce settles at most once.
+   */
+  async settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettlementResponse> {
+    const network = requirements.network as NetworkId;
+    const verification = await this.verify(payload, requirements);
+
+    if (!verification.isValid) {
+      return {
+        success: false,
+        errorReason: verification.invalidReason,
+        payer: verification.payer,
+        network,
+      };
+    }
+
+    const payer = verification.payer;
+    const settlement =
+      requirements.scheme === X402_TRANSFER_SCHEME
+        ? this.permitSettlement(payload.payload as TransferEvmPayload, requirements)
+        : this.authorizationSettlement(payload.payload as ExactEvmPayload, requirements);
+    const { key } = settlement;
+
+    // Claim before any await so concurrent settlements of the same payment fail
+    if (this.used.has(key)) {
+      return { success: false, errorReason: "invalid_transaction_state", payer, network };
+    }
+    this.used.add(key);
+
+    try {
+      const result = await this.blockchain.sendTransaction({
+        from: this.config.settler,
+        transaction: { to: settlement.to, data: settlement.data },
+        network,
+        // A retried settlement of the same payment reuses the original transaction
+        idempotencyKey: settlement.idempotencyKey,
+      });
+
+      const receipt = await this.blockchain.confirmTransaction({
+        transactionHash: result.transactionHash,
+        network,
+        confirmations: this.config.confirmations,
+      });
+
+      return { success: true, transaction: receipt.transactionHash, payer, network };
+    } catch {
+      this.used.delete(key);
+      return { success: false, errorReason: "unexpected_settle_error", payer, network };
+    }
+  }
+
+  /**
+   * Payment kinds this facilitator handles (served at `/supported`):
+   * "exact" everywhere, and "transfer" wherever Permit2 is deployed, with
+   * the settler as the spender permits must name
+   */
+  supported(): SupportedResponse {
+    return {
+      kinds: listNetworks().flatMap(({ id: network, permit2 }) => [
+        { x402Version: X402_VERSION, scheme: "exact", network },
+        ...(permit2
+          ? [
+              {
+                x402Version: X402_VERSION,
+                scheme: X402_TRANSFER_SCHEME,
+                network,
+                extra: { spender: this.config.settler, permit2 },
+              },
+            ]
+          : []),
+      ]),
+    };
+  }
+
+  private async verifyAuthorization(
+    data: ExactEvmPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerifyResponse> {
+    const { authorization, signature } = data;
+    const network = requirements.network as NetworkId;
+    const payer = authorization.from;
+    const invalid = (invalidReason: X402ErrorReason): VerifyResponse => ({
+      isValid: false,
+      invalidReason,
+      payer,
+    });
+
+    if (authorization.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+      return invalid("invalid_exact_evm_payload_recipient_mismatch");
+    }
+    if (BigInt(authorization.value) < BigInt(requirements.maxAmountRequired)) {
+      return invalid("invalid_exact_evm_payload_authorization_value");
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const { validBeforeBufferSeconds = 6 } = this.config;
+
+    if (BigInt(authorization.validAfter) > now) {
+      return invalid("invalid_exact_evm_payload_authorization_valid_after");
+    }
+    if (BigInt(authorization.validBefore) < now + BigInt(validBeforeBufferSeconds)) {
+      return invalid("invalid_exact_evm_payload_authorization_valid_before");
+    }
+
+    if (this.used.has(this.authorizationKey(network, payer, authorization.nonce))) {
+      return invalid("invalid_transaction_state");
+    }
+
+    const extra = requirements.extra ?? {};
+    const domain = await this.authorizations.getDomain(requirements.asset, network, {
+      name: typeof extra.name === "string" ? extra.name : undefined,
+      version: typeof extra.version === "string" ? extra.version : undefined,
+    });
+
+    // verifyTypedData also accepts ERC-1271 / ERC-6492 smart-wallet signatures
+    const validSignature = await this.blockchain.getPublicClient(network).verifyTypedData({
+      address: payer,
+      domain,
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: "TransferWithAuthorization",
+      message: {
+        from: authorization.from,
+        to: authorization.to,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+        nonce: authorization.nonce,
+      },
+      signature,
+    });
+
+    if (!validSignature) {
+      return invalid("invalid_exact_evm_payload_signature");
+    }
+
+    const [nonceUsed, balance] = await Promise.all([
+      this.blockchain.readContract({
+        contractAddress: requirements.asset,
+        abi: EIP3009_ABI,
+        functionName: "authorizationState",
+        args: [payer, authorization.nonce],
+        network,
+      }) as Promise<boolean>,
+      this.blockchain.getERC20Balance(requirements.asset, payer, network),
+    ]);
+
+    if (nonceUsed) {
+      return invalid("invalid_transaction_state");
+    }
+    if (balance < BigInt(authorization.value)) {
+      return invalid("insufficient_funds");
+    }
+
+    return { isValid: true, payer };
+  }
+
+  private async verifyPermit(data: TransferEvmPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    const { owner: payer, signature } = data;
+    const network = requirements.network as NetworkId;
+    const signed = toSignedPermit(data, network);
+    const { permitted, spender, nonce, deadline } = signed.permit;
+    const amount = BigInt(requirements.maxAmountRequired);
+    const invalid = (invalidReason: X402ErrorReason): VerifyResponse => ({
+      isValid: false,
+      invalidReason,
+      payer,
+    });
+
+    if (permitted.token.toLowerCase() !== requirements.asset.toLowerCase()) {
+      return invalid("invalid_transfer_evm_payload_asset_mismatch");
+    }
+    if (spender.toLowerCase() !== this.config.settler.toLowerCase()) {
+      return invalid("invalid_transfer_evm_payload_spender_mismatch");
+    }
+    if (permitted.amount < amount) {
+      return invalid("invalid_transfer_evm_payload_amount");
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const { validBeforeBufferSeconds = 6 } = this.config;
+
+    if (deadline < now + BigInt(validBeforeBufferSeconds)) {
+      return invalid("invalid_transfer_evm_payload_deadline");
+    }
+
+    if (this.used.has(this.permitKey(network, payer, nonce))) {
+      return invalid("invalid_transaction_state");
+    }
+
+    const validSignature = await this.blockchain.getPublicClient(network).verifyTypedData({
+      address: payer,
+      domain: this.permits.getPermit2Domain(network),
+      types: PERMIT_TRANSFER_FROM_TYPES,
+      primaryType: "PermitTransferFrom",
+      message: { ...signed.permit, permitted: { ...permitted } },
+      signature,
+    });
+
+    if (!validSignature) {
+      return invalid("invalid_transfer_evm_payload_signature");
+    }
+
+    const [nonceUsed, balance, allowance] = await Promise.all([
+      this.permits.isPermit2NonceUsed(payer, nonce, network),
+      this.blockchain.getERC20Balance(requirements.asset, payer, network),
+      this.blockchain.checkAllowance({
+        owner: payer,
+        spender: this.permits.getPermit2Address(network),
+        tokenAddress: requirements.asset,
+        network,
+      }),
+    ]);
+
+    if (nonceUsed) {
+      return invalid("invalid_transaction_state");
+    }
+    if (balance < amount) {
+      return invalid("insufficient_funds");
+    }
+    if (allowance < amount) {
+      return invalid("invalid_transfer_evm_payload_allowance");
+    }
+
+    return { isValid: true, payer };
+  }
+
+  /**
+   * `transferWithAuthorization` on the token, moving the authorized value
+   */
+  private authorizationSettlement(data: ExactEvmPayload, requirements: PaymentRequirements): Settlement {
+    const { authorization, signature } = data;
+    const network = requirements.network;
+
+    return {
+      key: this.authorizationKey(network, authorization.from, authorization.nonce),
+      to: requirements.asset,
+      data: encodeFunctionData({
+        abi: EIP3009_ABI,
+        functionName: "transferWithAuthorization",
+        args: [
+          authorization.from,
+          authorization.to,
+          BigInt(authorization.value),
+          BigInt(authorization.validAfter),
+          BigInt(authorization.validBefore),
+          authorization.nonce,
+          signature,
+        ],
+      }),
+      idempotencyKey: deriveIdempotencyKey("x402-settle", network, authorization.from, authorization.nonce),
+    };
+  }
+
+  /**
+   * `permitTransferFrom` on Permit2, pulling exactly `maxAmountRequired` to `payTo`
+   */
+  private permitSettlement(data: TransferEvmPayload, requirements: PaymentRequirements): Settlement {
+    const network = requirements.network as NetworkId;
+    const signed = toSignedPermit(data, network);
+
+    return {
+      key: this.permitKey(network, signed.owner, signed.permit.nonce),
+      to: this.permits.getPermit2Address(network),
+      data: encodePermitTransferFrom(signed, requirements.payTo, BigInt(requirements.maxAmountRequired)),
+      idempotencyKey: deriveIdempotencyKey("x402-settle-permit2", network, signed.owner, signed.permit.nonce),
+    };
+  }
+
+  private authorizationKey(network: string, from: Address, nonce: string): string {
+    return `${network}:auth:${from.toLowerCase()}:${nonce.toLowerCase()}`;
+  }
+
+  private permitKey(network: string, owner: Address, nonce: bigint): string {
+    return `${network}:permit2:${owner.toLowerCase()}:${nonce}`;
+  }
+}
+
+// ============================================================================
+// HTTP ENDPOINTS
+// ============================================================================
+
+/**
+ * Node http handler serving `POST /verify`, `POST /settle` and `GET /supported`
+ *
+ * Request bodies are `{ x402Version, paymentPayload, paymentRequirements }`;
+ * a base64 `paymentHeader` is accepted in place of `paymentPayload`. Bodies
+ * over `maxBodyBytes` get a 413.
+ *
+ * @example
+ * ```ts
+ * const facilitator = new X402Facilitator(blockchain, { settler: account.address });
+ * http.createServer(createFacilitatorHandler(facilitator)).listen(4020);
+ * ```
+ */
+export function createFacilitatorHandler(
+  facilitator: X402Facilitator,
+  options: FacilitatorHandlerOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const { maxBodyBytes = 64 * 1024 } = options;
+
+  return (req, res) => {
+    const send = (status: number, body: unknown) => {
+      // A failure after the response went out has nothing left to report to
+      if (res.headersSent) {
+        return;
+      }
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (req.method === "GET" && path === "/supported") {
+      send(200, facilitator.supported());
+      return;
+    }
+
+    if (req.method !== "POST" || (path !== "/verify" && path !== "/settle")) {
+      send(404, { error: "Not found" });
+      return;
+    }
+
+    readJson(req, maxBodyBytes)
+      .then(async (body) => {
+        const request = body as Partial<FacilitatorRequest> & { paymentHeader?: string };
+        const payload =
+          request.paymentPayload ??
+          (request.paymentHeader ? decodeX402Header<PaymentPayload>(request.paymentHeader) : undefined);
+
+        if (!payload || !request.paymentRequirements) {
+          send(400, { error: "paymentPayload and paymentRequirements are required" });
+          return;
+        }
+
+        send(
+          200,
+          path === "/verify"
+            ? await facilitator.verify(payload, request.paymentRequirements)
+            : await facilitator.settle(payload, request.paymentRequirements)
+        );
+      })
+      .catch((error) => {
+        if (error instanceof BodyTooLargeError) {
+          send(413, { error: `Request body exceeds ${maxBodyBytes} bytes` });
+        } else if (error instanceof SyntaxError) {
+          send(400, { error: "Invalid JSON body" });
+        } else {
+          send(500, { error: "Internal error" });
+        }
+      });
+  };
+}
+
+/**
+ * Facilitator reached over HTTP (e.g. one started with `createFacilitatorHandler`)
+ */
+export class HttpFacilitatorClient implements Facilitator {
+  constructor(
+    private url: string,
+    private fetchImpl: typeof fetch = globalThis.fetch.bind(globalThis)
+  ) {}
+
+  async verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    return this.post<VerifyResponse>("verify", payload, requirements);
+  }
+
+  async settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettlementResponse> {
+    return this.post<SettlementResponse>("settle", payload, requirements);
+  }
+
+  async supported(): Promise<SupportedResponse> {
+    const response = await this.fetchImpl(`${this.url.replace(/\/$/, "")}/supported`);
+
+    if (!response.ok) {
+      throw new Error(`Facilitator supported failed: HTTP ${response.status}`);
+    }
+
+    return (await response.json()) as SupportedResponse;
+  }
+
+  private async post<T>(
+    endpoint: "verify" | "settle",
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements
+  ): Promise<T> {
+    const body: FacilitatorRequest = {
+      x402Version: X402_VERSION,
+      paymentPayload,
+      paymentRequirements,
+    };
+
+    const response = await this.fetchImpl(`${this.url.replace(/\/$/, "")}/${endpoint}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Facilitator ${endpoint} failed: HTTP ${response.status}`);
+    }
+
+    return (await response.json()) as T;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+class BodyTooLargeError extends Error {}
+
+/**
+ * A "transfer" payload's permit with its amounts back as bigints
+ */
+function toSignedPermit(data: TransferEvmPayload, network: NetworkId): SignedPermitTransferFrom {
+  const { permitted, spender, nonce, deadline } = data.permit;
+
+  return {
+    owner: data.owner,
+    permit: {
+      permitted: { token: permitted.token, amount: BigInt(permitted.amount) },
+      spender,
+      nonce: BigInt(nonce),
+      deadline: BigInt(deadline),
+    },
+    signature: data.signature,
+    network,
+  };
+}
+
+/**
+ * Parse a JSON request body, rejecting once it passes `maxBytes`; the rest
+ * is drained unread so the 413 can still be sent
+ */
+function readJson(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
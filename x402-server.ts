@@ -0,0 +1,402 @@
+/**
+ * x402 Resource Server
+ *
+ * Puts routes behind x402 payments:
+ * 1. Requests to a paid route without `X-PAYMENT` get a 402 listing the
+ *    accepted `PaymentRequirements`: "exact" for tokens with EIP-3009,
+ *    "transfer" (Permit2) for the rest
+ * 2. A request with `X-PAYMENT` is verified (signature, amount, recipient,
+ *    expiry, replay) and settled through a facilitator before it is served
+ * 3. The response carries the settlement in `X-PAYMENT-RESPONSE`
+ *
+ * `X402ResourceServer.handle` is framework-agnostic; `x402Middleware` and
+ * `withX402` adapt it to connect-style middleware and plain Node http.
+ *
+ * Spec: https://github.com/coinbase/x402
+ */
+
+import type { IncomingHttpHeaders, IncomingMessage, RequestListener, ServerResponse } from "node:http";
+import type { Address } from "viem";
+import type { AddressOrENSName, BlockchainOperations } from "./blockchain.js";
+import { TransferAuthorizations } from "./eip3009.js";
+import type { NetworkId } from "./networks.js";
+import type { Facilitator } from "./x402-facilitator.js";
+import {
+  X402_TRANSFER_SCHEME,
+  X402_VERSION,
+  X_PAYMENT_HEADER,
+  X_PAYMENT_RESPONSE_HEADER,
+  decodeX402Header,
+  encodeX402Header,
+  type PaymentPayload,
+  type PaymentRequiredResponse,
+  type PaymentRequirements,
+  type SettlementResponse,
+  type SupportedResponse,
+} from "./x402.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PaymentOption {
+  network: NetworkId;
+  /** Token contract */
+  asset: Address;
+  /** Price in the token's smallest unit */
+  amount: bigint;
+  /** Recipient (address or ENS name, resolved once per network) */
+  payTo: AddressOrENSName;
+  /** How long the client has to pay (default: 60) */
+  maxTimeoutSeconds?: number;
+  /**
+   * Scheme data; when omitted, the token's EIP-712 `name` / `version` for
+   * "exact", or the facilitator's Permit2 spender for "transfer"
+   */
+  extra?: Record<string, unknown>;
+}
+
+export interface X402RouteConfig {
+  /** Exact path, path ending in `*` to match a prefix, or a RegExp */
+  path: string | RegExp;
+  /** HTTP method (default: any) */
+  method?: string;
+  /** Accepted payments, in order of preference */
+  accepts: PaymentOption[];
+  description?: string;
+  /** MIME type of the paid response (default: "application/json") */
+  mimeType?: string;
+}
+
+export interface X402ServerConfig {
+  routes: X402RouteConfig[];
+  /** Verifies and settles payments (e.g. an `X402Facilitator`) */
+  facilitator: Facilitator;
+  /** Public origin used for the `resource` URL (default: taken from the Host header) */
+  baseUrl?: string;
+}
+
+export interface X402Request {
+  method: string;
+  /** Request URL or path */
+  url: string;
+  headers: IncomingHttpHeaders | Headers;
+}
+
+export interface X402Response {
+  status: number;
+  headers: Record<string, string>;
+  body: PaymentRequiredResponse;
+}
+
+export type X402HandleResult =
+  /** Route is free; serve it */
+  | { type: "pass" }
+  /** Payment missing or rejected; send `response` */
+  | { type: "respond"; response: X402Response }
+  /** Payment settled; serve the route with `headers` added */
+  | {
+      type: "paid";
+      requirements: PaymentRequirements;
+      payload: PaymentPayload;
+      settlement: SettlementResponse;
+      headers: Record<string, string>;
+    };
+
+// ============================================================================
+// RESOURCE SERVER
+// ============================================================================
+
+/** Scheme a payment option is advertised under, with its default `extra` */
+interface OptionScheme {
+  scheme: string;
+  extra: Record<string, unknown>;
+}
+
+export class X402ResourceServer {
+  private authorizations: TransferAuthorizations;
+  private schemes = new Map<string, Promise<OptionScheme>>();
+  private payTos = new Map<string, Promise<Address>>();
+  private supported?: Promise<SupportedResponse | undefined>;
+
+  constructor(
+    private blockchain: BlockchainOperations,
+    private config: X402ServerConfig
+  ) {
+    this.authorizations = new TransferAuthorizations(blockchain);
+  }
+
+  /**
+   * Decide what to do with a request: pass it through, answer 402, or
+   * serve it after settling its payment
+   *
+   * @example
+   * ```ts
+   * const server = new X402ResourceServer(blockchain, {
+   *   facilitator: new X402Facilitator(blockchain, { settler: account.address }),
+   *   routes: [{
+   *     path: "/premium/*",
+   *     accepts: [{
+   *       network: "base",
+   *       asset: getTokenAddress("base", "USDC")!,
+   *       amount: parseUnits("0.01", 6),
+   *       payTo: "merchant.eth",
+   *     }],
+   *   }],
+   * });
+   *
+   * const result = await server.handle({ method: req.method, url: req.url, headers: req.headers });
+   * ```
+   */
+  async handle(request: X402Request): Promise<X402HandleResult> {
+    const origin = this.config.baseUrl ?? `http://${header(request.headers, "host") ?? "localhost"}`;
+    const url = new URL(request.url, origin);
+    const route = this.matchRoute(request.method, url.pathname);
+
+    if (!route) {
+      return { type: "pass" };
+    }
+
+    const accepts = await this.buildRequirements(route, `${url.origin}${url.pathname}`);
+    const paymentHeader = header(request.headers, X_PAYMENT_HEADER);
+
+    if (!paymentHeader) {
+      return paymentRequired(accepts, `${X_PAYMENT_HEADER} header is required`);
+    }
+
+    let payload: PaymentPayload;
+    try {
+      payload = decodeX402Header<PaymentPayload>(paymentHeader);
+    } catch {
+      return paymentRequired(accepts, `Invalid ${X_PAYMENT_HEADER} header`);
+    }
+
+    const requirements = accepts.find(
+      (r) => r.scheme === payload.scheme && r.network === payload.network
+    );
+
+    if (!requirements) {
+      return paymentRequired(accepts, "No payment requirements match the payload's scheme and network");
+    }
+
+    const verification = await this.config.facilitator.verify(payload, requirements);
+    if (!verification.isValid) {
+      return paymentRequired(accepts, verification.invalidReason ?? "Invalid payment", verification.payer);
+    }
+
+    const settlement = await this.config.facilitator.settle(payload, requirements);
+    if (!settlement.success) {
+      return paymentRequired(accepts, settlement.errorReason ?? "Settlement failed", settlement.payer);
+    }
+
+    return {
+      type: "paid",
+      requirements,
+      payload,
+      settlement,
+      headers: {
+        [X_PAYMENT_RESPONSE_HEADER]: encodeX402Header(settlement),
+        "Access-Control-Expose-Headers": X_PAYMENT_RESPONSE_HEADER,
+      },
+    };
+  }
+
+  /**
+   * Payment requirements for a route, e.g. to advertise prices ahead of a request
+   *
+   * Each option is offered under "exact" if its token supports EIP-3009,
+   * otherwise under "transfer", which the facilitator must list in its
+   * supported kinds for the network.
+   */
+  async buildRequirements(route: X402RouteConfig, resource: string): Promise<PaymentRequirements[]> {
+    return Promise.all(
+      route.accepts.map(async (option) => {
+        const [{ scheme, extra }, payTo] = await Promise.all([this.getScheme(option), this.getPayTo(option)]);
+
+        return {
+          scheme,
+          network: option.network,
+          maxAmountRequired: option.amount.toString(),
+          resource,
+          description: route.description ?? "",
+          mimeType: route.mimeType ?? "application/json",
+          payTo,
+          maxTimeoutSeconds: option.maxTimeoutSeconds ?? 60,
+          asset: option.asset,
+          extra: option.extra ?? extra,
+        };
+      })
+    );
+  }
+
+  private matchRoute(method: string, pathname: string): X402RouteConfig | undefined {
+    return this.config.routes.find((route) => {
+      if (route.method && route.method.toUpperCase() !== method.toUpperCase()) {
+        return false;
+      }
+      if (route.path instanceof RegExp) {
+        return route.path.test(pathname);
+      }
+      return route.path.endsWith("*")
+        ? pathname.startsWith(route.path.slice(0, -1))
+        : pathname === route.path;
+    });
+  }
+
+  /**
+   * "exact" with the EIP-712 domain the client signs against, for tokens
+   * with EIP-3009; otherwise "transfer" with the facilitator's Permit2 spender
+   */
+  private getScheme(option: PaymentOption): Promise<OptionScheme> {
+    const key = `${option.network}:${option.asset.toLowerCase()}`;
+
+    return cached(this.schemes, key, async () => {
+      if (await this.authorizations.supportsAuthorization(option.asset, option.network)) {
+        const { name, version } = await this.authorizations.getDomain(option.asset, option.network);
+        return { scheme: "exact", extra: { name, version } };
+      }
+
+      const supported = await this.getSupported();
+      const kind = supported?.kinds.find(
+        (k) => k.scheme === X402_TRANSFER_SCHEME && k.network === option.network
+      );
+
+      if (!kind) {
+        throw new Error(
+          `${option.asset} on ${option.network} doesn't support EIP-3009, and the facilitator doesn't settle "${X402_TRANSFER_SCHEME}" payments there`
+        );
+      }
+
+      return { scheme: X402_TRANSFER_SCHEME, extra: kind.extra ?? {} };
+    });
+  }
+
+  /**
+   * `payTo` resolved to an address, once per network
+   */
+  private getPayTo(option: PaymentOption): Promise<Address> {
+    const key = `${option.network}:${option.payTo.toLowerCase()}`;
+    return cached(this.payTos, key, () => this.blockchain.resolveAddress(option.payTo, option.network));
+  }
+
+  /**
+   * The facilitator's supported kinds, fetched once; undefined if it can't list them
+   */
+  private getSupported(): Promise<SupportedResponse | undefined> {
+    if (!this.supported) {
+      const { facilitator } = this.config;
+      this.supported = Promise.resolve().then(() => facilitator.supported?.());
+
+      // Don't cache failures
+      this.supported.catch(() => (this.supported = undefined));
+    }
+    return this.supported;
+  }
+}
+
+// ============================================================================
+// NODE ADAPTERS
+// ============================================================================
+
+/**
+ * Connect-style middleware (Express, Connect, ...) guarding the configured routes
+ *
+ * @example
+ * ```ts
+ * app.use(x402Middleware(server));
+ * app.get("/premium/report", (req, res) => res.json(report));
+ * ```
+ */
+export function x402Middleware(
+  server: X402ResourceServer
+): (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void) => void {
+  return (req, res, next) => {
+    server
+      .handle({ method: req.method ?? "GET", url: req.url ?? "/", headers: req.headers })
+      .then((result) => {
+        if (result.type === "respond") {
+          sendResponse(res, result.response);
+          return;
+        }
+        if (result.type === "paid") {
+          for (const [name, value] of Object.entries(result.headers)) {
+            res.setHeader(name, value);
+          }
+        }
+        next();
+      })
+      .catch(next);
+  };
+}
+
+/**
+ * Wrap a plain Node http handler so the configured routes require payment
+ *
+ * @example
+ * ```ts
+ * http.createServer(withX402(server, (req, res) => res.end("premium content"))).listen(3000);
+ * ```
+ */
+export function withX402(server: X402ResourceServer, handler: RequestListener): RequestListener {
+  const middleware = x402Middleware(server);
+
+  return (req, res) =>
+    middleware(req, res, (error) => {
+      if (error) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+        return;
+      }
+      handler(req, res);
+    });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function paymentRequired(
+  accepts: PaymentRequirements[],
+  error: string,
+  payer?: Address
+): X402HandleResult {
+  const body: PaymentRequiredResponse & { payer?: Address } = {
+    x402Version: X402_VERSION,
+    accepts,
+    error,
+    ...(payer && { payer }),
+  };
+
+  return {
+    type: "respond",
+    response: { status: 402, headers: { "Content-Type": "application/json" }, body },
+  };
+}
+
+/**
+ * Memoize `load` under `key`; a rejected load is dropped so the next call retries
+ */
+function cached<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+  let value = cache.get(key);
+
+  if (!value) {
+    value = load();
+    value.catch(() => cache.delete(key));
+    cache.set(key, value);
+  }
+
+  return value;
+}
+
+function sendResponse(res: ServerResponse, response: X402Response): void {
+  res.writeHead(response.status, response.headers);
+  res.end(JSON.stringify(response.body));
+}
+
+function header(headers: IncomingHttpHeaders | Headers, name: string): string | undefined {
+  if (headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
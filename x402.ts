@@ -0,0 +1,215 @@
+/**
+ * x402 Protocol Types
+ *
+ * Wire format shared by the paying client and the resource server:
+ * - A 402 response body lists the accepted `PaymentRequirements`
+ * - The client retries with an `X-PAYMENT` header carrying a base64 JSON
+ *   `PaymentPayload`
+ * - The server answers with an `X-PAYMENT-RESPONSE` header carrying a
+ *   base64 JSON `SettlementResponse`
+ *
+ * Spec: https://github.com/coinbase/x402
+ */
+
+import type { Address, Hex } from "viem";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const X402_VERSION = 1;
+
+export const X_PAYMENT_HEADER = "X-PAYMENT";
+export const X_PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
+
+/**
+ * Non-standard scheme for tokens without EIP-3009: the client signs a
+ * Permit2 `PermitTransferFrom` (`TransferEvmPayload`) for the facilitator's
+ * settler, named in `extra.spender`, which pulls the tokens to `payTo`. Only
+ * paid when a server offers it; never sent under "exact"
+ */
+export const X402_TRANSFER_SCHEME = "transfer";
+
+export interface PaymentRequirements {
+  /** Payment scheme (e.g. "exact") */
+  scheme: string;
+  /** Network the payment must be made on (e.g. "base") */
+  network: string;
+  /** Amount in the asset's smallest unit, as a decimal string */
+  maxAmountRequired: string;
+  /** URL of the resource being paid for */
+  resource: string;
+  description: string;
+  mimeType: string;
+  outputSchema?: Record<string, unknown>;
+  /** Recipient address */
+  payTo: Address;
+  /** Maximum time the server waits for the payment to settle */
+  maxTimeoutSeconds: number;
+  /** Token contract address */
+  asset: Address;
+  /** Scheme-specific data (e.g. the token's EIP-712 `name` and `version`) */
+  extra?: Record<string, unknown>;
+}
+
+export interface PaymentRequiredResponse {
+  x402Version: number;
+  accepts: PaymentRequirements[];
+  error?: string;
+}
+
+/**
+ * "exact" scheme payload on EVM: a signed EIP-3009 `transferWithAuthorization`
+ * that the server (or its facilitator) submits on-chain
+ */
+export interface ExactEvmPayload {
+  signature: Hex;
+  authorization: {
+    from: Address;
+    to: Address;
+    /** Amount in the asset's smallest unit */
+    value: string;
+    /** Unix time (seconds) */
+    validAfter: string;
+    /** Unix time (seconds) */
+    validBefore: string;
+    nonce: Hex;
+  };
+}
+
+/**
+ * `X402_TRANSFER_SCHEME` payload on EVM: a signed Permit2 `PermitTransferFrom`
+ * that only its spender (the facilitator's settler) can submit, once
+ */
+export interface TransferEvmPayload {
+  signature: Hex;
+  /** Payer */
+  owner: Address;
+  permit: {
+    permitted: {
+      token: Address;
+      /** Amount in the asset's smallest unit */
+      amount: string;
+    };
+    spender: Address;
+    /** Permit2 unordered nonce, as a decimal string */
+    nonce: string;
+    /** Unix time (seconds) */
+    deadline: string;
+  };
+}
+
+export interface PaymentPayload<T = ExactEvmPayload | TransferEvmPayload> {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: T;
+}
+
+export interface SettlementResponse {
+  success: boolean;
+  /** Settlement transaction hash */
+  transaction?: Hex;
+  network?: string;
+  payer?: Address;
+  errorReason?: X402ErrorReason;
+}
+
+/** Reasons a payment is rejected, as reported by facilitators */
+export type X402ErrorReason =
+  | "insufficient_funds"
+  | "invalid_exact_evm_payload_authorization_valid_after"
+  | "invalid_exact_evm_payload_authorization_valid_before"
+  | "invalid_exact_evm_payload_authorization_value"
+  | "invalid_exact_evm_payload_signature"
+  | "invalid_exact_evm_payload_recipient_mismatch"
+  | "invalid_network"
+  | "invalid_payload"
+  | "invalid_payment_requirements"
+  | "invalid_scheme"
+  | "invalid_transaction_state"
+  | "invalid_transfer_evm_payload_allowance"
+  | "invalid_transfer_evm_payload_amount"
+  | "invalid_transfer_evm_payload_asset_mismatch"
+  | "invalid_transfer_evm_payload_deadline"
+  | "invalid_transfer_evm_payload_signature"
+  | "invalid_transfer_evm_payload_spender_mismatch"
+  | "invalid_x402_version"
+  | "unsupported_scheme"
+  | "unexpected_verify_error"
+  | "unexpected_settle_error";
+
+export interface VerifyResponse {
+  isValid: boolean;
+  invalidReason?: X402ErrorReason;
+  payer?: Address;
+}
+
+/** A scheme and network a facilitator settles, with the data servers advertise for it */
+export interface SupportedPaymentKind {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  /** Scheme data (e.g. the Permit2 spender for "transfer") */
+  extra?: Record<string, unknown>;
+}
+
+/** Body of a facilitator `/supported` response */
+export interface SupportedResponse {
+  kinds: SupportedPaymentKind[];
+}
+
+/** Body of a facilitator `/verify` or `/settle` request */
+export interface FacilitatorRequest {
+  x402Version: number;
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Encode a value as base64 JSON for an x402 header
+ */
+export function encodeX402Header(value: PaymentPayload<unknown> | SettlementResponse): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64");
+}
+
+/**
+ * Decode a base64 JSON x402 header
+ */
+export function decodeX402Header<T>(header: string): T {
+  return JSON.parse(Buffer.from(header, "base64").toString("utf8")) as T;
+}
+
+/**
+ * Validate a 402 response body, throwing if it isn't an x402 payment request
+ */
+export function parsePaymentRequired(body: unknown): PaymentRequiredResponse {
+  const response = body as Partial<PaymentRequiredResponse> | null;
+
+  if (!response || typeof response !== "object" || !Array.isArray(response.accepts)) {
+    throw new Error("Invalid x402 response: expected a JSON body with an `accepts` array");
+  }
+
+  for (const requirements of response.accepts) {
+    for (const field of ["scheme", "network", "maxAmountRequired", "payTo", "asset"] as const) {
+      if (typeof requirements?.[field] !== "string") {
+        throw new Error(`Invalid x402 payment requirements: missing \`${field}\``);
+      }
+    }
+    if (!/^\d+$/.test(requirements.maxAmountRequired)) {
+      throw new Error(
+        `Invalid x402 payment requirements: maxAmountRequired "${requirements.maxAmountRequired}" is not an integer amount`
+      );
+    }
+  }
+
+  return {
+    x402Version: response.x402Version ?? X402_VERSION,
+    accepts: response.accepts,
+    error: response.error,
+  };
+}